@@ -0,0 +1,146 @@
+import { createBuildableClient } from './client';
+import type { TaskGraph } from './graph';
+import { LocalBackend } from './local-backend';
+import type {
+  BlockTaskRequest,
+  BuildableConfig,
+  CacheStats,
+  ClientOptions,
+  CompleteTaskRequest,
+  CompleteTaskResponse,
+  CreateDiscussionRequest,
+  CreateTaskRequest,
+  Discussion,
+  DiscussionResponse,
+  FailTaskRequest,
+  FlushResult,
+  GetTaskOptions,
+  ListDiscussionsOptions,
+  ListTasksOptions,
+  NextTaskOptions,
+  NextTaskResponse,
+  ProgressResponse,
+  ProgressUpdate,
+  ProjectConfig,
+  ProjectContext,
+  ReleaseTaskRequest,
+  RunChecksOptions,
+  SplitTaskRequest,
+  SplitTaskResponse,
+  StartTaskOptions,
+  StartTaskResponse,
+  SyncStatus,
+  TaskHandoff,
+  TaskList,
+  TaskResponse,
+  TaskStatus,
+  TaskSummary,
+  TaskTimeSession,
+  TaskTransitionResponse,
+  UpdateTaskRequest,
+  VerificationReport,
+  WaitForDiscussionOptions,
+  WaitForDiscussionResult,
+} from './types';
+
+/**
+ * Where projects, tasks and discussions live. The MCP server's tools only
+ * talk to this interface: BuildableMCPClient implements it against the
+ * Buildable API, LocalBackend against files in the repository.
+ */
+export interface BuildableBackend {
+  readonly projectId: string;
+  listProjects(): ProjectConfig[];
+  forProject(projectId: string): BuildableBackend;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  healthCheck(): Promise<{ status: string; timestamp: string }>;
+  onTaskStatusChange(
+    listener: (taskId: string, status: TaskStatus) => void
+  ): () => void;
+
+  getProjectContext(
+    projectId?: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<ProjectContext>;
+  listTasks(options?: ListTasksOptions): Promise<TaskList>;
+  getTask(taskId: string, options?: GetTaskOptions): Promise<TaskSummary>;
+  getTaskGraph(): Promise<TaskGraph>;
+  getNextTask(
+    projectId?: string,
+    options?: NextTaskOptions
+  ): Promise<NextTaskResponse>;
+
+  createTask(request: CreateTaskRequest): Promise<TaskResponse>;
+  updateTask(taskId: string, changes: UpdateTaskRequest): Promise<TaskResponse>;
+  splitTask(
+    taskId: string,
+    request: SplitTaskRequest
+  ): Promise<SplitTaskResponse>;
+
+  startTask(
+    taskId: string,
+    options?: StartTaskOptions
+  ): Promise<StartTaskResponse>;
+  updateProgress(
+    taskId: string,
+    progress: ProgressUpdate
+  ): Promise<ProgressResponse>;
+  completeTask(
+    taskId: string,
+    completion: CompleteTaskRequest
+  ): Promise<CompleteTaskResponse>;
+  blockTask(
+    taskId: string,
+    request: BlockTaskRequest
+  ): Promise<TaskTransitionResponse>;
+  releaseTask(
+    taskId: string,
+    request: ReleaseTaskRequest
+  ): Promise<TaskTransitionResponse>;
+  failTask(
+    taskId: string,
+    request: FailTaskRequest
+  ): Promise<TaskTransitionResponse>;
+  pauseTask(taskId: string): Promise<TaskTimeSession>;
+  resumeTask(taskId: string): Promise<TaskTimeSession>;
+  getTaskTime(taskId: string): Promise<TaskTimeSession | null>;
+  getTaskHandoff(taskId: string): Promise<TaskHandoff>;
+  runTaskChecks(
+    taskId: string,
+    options?: RunChecksOptions
+  ): Promise<VerificationReport>;
+
+  createDiscussion(
+    discussion: CreateDiscussionRequest
+  ): Promise<DiscussionResponse>;
+  getDiscussion(discussionId: string): Promise<Discussion>;
+  listDiscussions(options?: ListDiscussionsOptions): Promise<Discussion[]>;
+  waitForDiscussionResponse(
+    discussionId: string,
+    options?: WaitForDiscussionOptions
+  ): Promise<WaitForDiscussionResult>;
+  replyToDiscussion(discussionId: string, message: string): Promise<Discussion>;
+  resolveDiscussion(
+    discussionId: string,
+    resolution?: string
+  ): Promise<Discussion>;
+
+  getSyncStatus(): Promise<SyncStatus>;
+  flushQueue(): Promise<FlushResult>;
+  getCacheStats(): CacheStats | null;
+}
+
+/**
+ * The backend `options.backend` selects: the Buildable API by default, or
+ * the files under `options.localDirectory`
+ */
+export function createBackend(
+  config: BuildableConfig,
+  options: ClientOptions = {}
+): BuildableBackend {
+  return options.backend === 'local'
+    ? new LocalBackend(config, options)
+    : createBuildableClient(config, options);
+}
@@ -0,0 +1,127 @@
+import type { CacheStats } from './types';
+
+interface CacheEntry {
+  data: unknown;
+  etag?: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache for GET responses, keyed by URL.
+ *
+ * Entries are fresh for `ttl` ms; after that they are kept (up to
+ * `maxEntries`, least recently used evicted first) so the stored ETag can
+ * be used to revalidate with If-None-Match instead of downloading again.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private counters = { hits: 0, misses: 0, revalidated: 0, invalidated: 0 };
+  private generation = 0;
+
+  constructor(private ttl: number, private maxEntries = 100) {}
+
+  /**
+   * A fresh entry, or undefined if there is none or it has expired
+   */
+  getFresh<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.touch(key, entry);
+    this.counters.hits++;
+    return structuredClone(entry.data) as T;
+  }
+
+  /**
+   * ETag of a stored entry, fresh or not, for a conditional request
+   */
+  getEtag(key: string): string | undefined {
+    return this.entries.get(key)?.etag;
+  }
+
+  /**
+   * The server answered 304 Not Modified: the stored data is still good
+   */
+  revalidate<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.expiresAt = Date.now() + this.ttl;
+    this.touch(key, entry);
+    this.counters.revalidated++;
+    return structuredClone(entry.data) as T;
+  }
+
+  /**
+   * Marker to pass to set(), so a response that was in flight while the
+   * cache was invalidated isn't stored
+   */
+  version(): number {
+    return this.generation;
+  }
+
+  /**
+   * Store a full response; counts as a miss since it had to be downloaded
+   */
+  set(key: string, data: unknown, etag?: string, version?: number): void {
+    this.counters.misses++;
+    if (version !== undefined && version !== this.generation) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      data: structuredClone(data),
+      etag,
+      expiresAt: Date.now() + this.ttl,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Drop every entry whose key starts with `prefix`
+   */
+  invalidate(prefix: string): void {
+    this.generation++;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        this.counters.invalidated++;
+      }
+    }
+  }
+
+  clear(): void {
+    this.generation++;
+    this.counters.invalidated += this.entries.size;
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    const { hits, misses, revalidated, invalidated } = this.counters;
+    const requests = hits + misses + revalidated;
+    return {
+      entries: this.entries.size,
+      ttl_ms: this.ttl,
+      hits,
+      misses,
+      revalidated,
+      invalidated,
+      // Revalidations still save the download, so they count as hits
+      hit_rate: requests > 0 ? (hits + revalidated) / requests : 0,
+    };
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    // Map keeps insertion order; re-inserting marks it most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+}
@@ -0,0 +1,273 @@
+import { spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type {
+  CommandResult,
+  RunChecksOptions,
+  SuccessCheckResult,
+  TaskSummary,
+  VerificationReport,
+} from './types';
+
+const DEFAULT_COMMAND_TIMEOUT = 5 * 60 * 1000;
+const DEFAULT_MAX_OUTPUT = 8 * 1024;
+
+/**
+ * Keeps the last `limit` bytes of a stream - the end of a log is where
+ * test and build failures are reported
+ */
+class OutputTail {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private limit: number) {}
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+
+    while (this.size > this.limit && this.chunks.length > 1) {
+      this.size -= this.chunks.shift()!.length;
+      this.truncated = true;
+    }
+  }
+
+  toString(): string {
+    const all = Buffer.concat(this.chunks);
+    if (all.length <= this.limit) {
+      return all.toString('utf8');
+    }
+    this.truncated = true;
+    return all.subarray(all.length - this.limit).toString('utf8');
+  }
+}
+
+/**
+ * Run a shell command with a timeout, capturing the tail of its output
+ */
+export function runCommand(
+  command: string,
+  options: { cwd: string; timeout?: number; maxOutputBytes?: number }
+): Promise<CommandResult> {
+  const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+  const limit = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT;
+  const stdout = new OutputTail(limit);
+  const stderr = new OutputTail(limit);
+  const start = Date.now();
+
+  return new Promise((resolve) => {
+    // Own process group so a timeout also stops whatever the shell spawned
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      env: { ...process.env, CI: process.env.CI || '1' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // Already exited
+      }
+    }, timeout);
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    const finish = (
+      exitCode: number | null,
+      signal?: string,
+      error?: Error
+    ) => {
+      clearTimeout(timer);
+      const stdoutText = stdout.toString();
+      const stderrText = error
+        ? `${stderr.toString()}${error.message}`
+        : stderr.toString();
+
+      resolve({
+        command,
+        exit_code: exitCode,
+        signal,
+        timed_out: timedOut,
+        duration_ms: Date.now() - start,
+        stdout: stdoutText,
+        stderr: stderrText,
+        truncated: stdout.truncated || stderr.truncated,
+        passed: !timedOut && !error && exitCode === 0,
+      });
+    };
+
+    child.once('error', (error) => finish(null, undefined, error));
+    child.once('close', (code, signal) => finish(code, signal ?? undefined));
+  });
+}
+
+/**
+ * Evaluate one success check.
+ *
+ * Understood forms (case-insensitive prefixes):
+ * - `file_exists: <path>` / `file exists: <path>`
+ * - `file_contains: <path> :: <text>`
+ * - `command: <shell command>` / `run: <shell command>` - passes on exit 0
+ *
+ * Anything else is reported as skipped, since it can't be checked
+ * mechanically. Only the explicit forms run anything: success checks are
+ * free text that assistants and people write, so a backticked name in
+ * prose is never taken for a command.
+ */
+export async function evaluateSuccessCheck(
+  check: string,
+  options: RunChecksOptions & { cwd: string }
+): Promise<SuccessCheckResult> {
+  const start = Date.now();
+  const result = (
+    status: SuccessCheckResult['status'],
+    detail: string,
+    command?: CommandResult
+  ): SuccessCheckResult => ({
+    check,
+    status,
+    detail,
+    duration_ms: Date.now() - start,
+    command,
+  });
+
+  const exists = /^file[_ ]exists\s*:\s*(.+)$/i.exec(check.trim());
+  if (exists) {
+    const target = resolveInWorkspace(options.cwd, exists[1].trim());
+    if (!target) {
+      return result('failed', 'Path is outside the workspace');
+    }
+    try {
+      await fs.access(target);
+      return result('passed', `${exists[1].trim()} exists`);
+    } catch {
+      return result('failed', `${exists[1].trim()} does not exist`);
+    }
+  }
+
+  const contains = /^file[_ ]contains\s*:\s*(.+?)\s*::\s*(.+)$/i.exec(
+    check.trim()
+  );
+  if (contains) {
+    const [, file, text] = contains;
+    const target = resolveInWorkspace(options.cwd, file);
+    if (!target) {
+      return result('failed', 'Path is outside the workspace');
+    }
+    try {
+      const content = await fs.readFile(target, 'utf8');
+      return content.includes(text)
+        ? result('passed', `${file} contains "${text}"`)
+        : result('failed', `${file} does not contain "${text}"`);
+    } catch {
+      return result('failed', `${file} could not be read`);
+    }
+  }
+
+  const command = /^(?:command|run)\s*:\s*(.+)$/i.exec(check.trim());
+  if (command) {
+    const run = await runCommand(command[1], {
+      cwd: options.cwd,
+      timeout: options.timeout,
+      maxOutputBytes: options.maxOutputBytes,
+    });
+    return result(run.passed ? 'passed' : 'failed', describeCommand(run), run);
+  }
+
+  return result('skipped', 'Not machine-checkable');
+}
+
+/**
+ * Run a task's commands and success checks and build the evidence report
+ */
+export async function runTaskChecks(
+  task: TaskSummary,
+  options: RunChecksOptions = {}
+): Promise<VerificationReport> {
+  const cwd = path.resolve(options.workspace || process.cwd());
+  const startedAt = new Date();
+
+  const commands: CommandResult[] = [];
+  if (!options.skipCommands) {
+    for (const command of task.commands || []) {
+      commands.push(
+        await runCommand(command, {
+          cwd,
+          timeout: options.timeout,
+          maxOutputBytes: options.maxOutputBytes,
+        })
+      );
+    }
+  }
+
+  const successChecks: SuccessCheckResult[] = [];
+  for (const check of task.success_checks || []) {
+    successChecks.push(await evaluateSuccessCheck(check, { ...options, cwd }));
+  }
+
+  const failedCommands = commands.filter((c) => !c.passed).length;
+  const failedChecks = successChecks.filter(
+    (c) => c.status === 'failed'
+  ).length;
+  const skippedChecks = successChecks.filter(
+    (c) => c.status === 'skipped'
+  ).length;
+  const verified = commands.length + successChecks.length - skippedChecks;
+  const status: VerificationReport['status'] =
+    failedCommands > 0 || failedChecks > 0
+      ? 'failed'
+      : verified > 0
+      ? 'passed'
+      : 'unverified';
+  const finishedAt = new Date();
+
+  return {
+    task_id: task.id,
+    status,
+    passed: status === 'passed',
+    workspace: cwd,
+    started_at: startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    commands,
+    success_checks: successChecks,
+    summary: [
+      `${commands.length - failedCommands}/${commands.length} commands passed`,
+      `${successChecks.length - failedChecks - skippedChecks}/${successChecks.length} success checks passed`,
+      skippedChecks > 0 ? `${skippedChecks} skipped` : '',
+      status === 'unverified' ? 'nothing verified' : '',
+    ]
+      .filter(Boolean)
+      .join(', '),
+  };
+}
+
+function describeCommand(run: CommandResult): string {
+  if (run.timed_out) {
+    return `Timed out after ${run.duration_ms}ms`;
+  }
+  if (run.exit_code === null) {
+    return `Failed to run${run.signal ? ` (${run.signal})` : ''}`;
+  }
+  return `Exited with code ${run.exit_code} in ${run.duration_ms}ms`;
+}
+
+function resolveInWorkspace(cwd: string, file: string): string | null {
+  const target = path.resolve(cwd, file);
+  const relative = path.relative(cwd, target);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return target;
+}
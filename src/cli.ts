@@ -1,14 +1,192 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import {
+  McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  type CallToolResult,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  type LoggingLevel,
+  McpError,
+  type Resource,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
 import { z } from 'zod';
-import { type BuildableMCPClient, createBuildableClient } from './client.js';
-import type { BuildableConfig, ClientOptions } from './types.js';
+import { type BuildableBackend, createBackend } from './backend.js';
+import { createBuildableClient } from './client.js';
+import {
+  type ConfigFile,
+  DEFAULT_API_URL,
+  GLOBAL_CONFIG_FILE,
+  PROJECT_CONFIG_FILE,
+  type ProfileSettings,
+  readConfigFile,
+  type ResolvedConfig,
+  resolveConfig,
+  writeConfigFile,
+} from './config.js';
+import { runDiagnostics } from './doctor.js';
+import {
+  AuthenticationError,
+  BuildableError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ResponseValidationError,
+  TaskClaimedError,
+  TimeoutError,
+  ValidationError,
+} from './errors.js';
+import { renderTaskGraph } from './graph.js';
+import { startHttpServer } from './http.js';
+import { DEFAULT_LOG_FILE, type LogEntry, Logger } from './logger.js';
+import { DEMO_PROJECT, parseMockFixture } from './mock-fixtures.js';
+import { startMockServer } from './mock-server.js';
+import {
+  renderCompletionReportPrompt,
+  renderResumeTaskPrompt,
+  renderWorkOnNextTaskPrompt,
+} from './prompts.js';
+import { difficultySchema, taskStatusSchema } from './schemas.js';
+import {
+  DEFAULT_CANDIDATES,
+  DEFAULT_TASK_PAGE_SIZE,
+  MAX_CANDIDATES,
+  MAX_TASK_PAGE_SIZE,
+} from './tasks.js';
+import type {
+  BuildableConfig,
+  ClientOptions,
+  ProjectContext,
+  StartTaskResponse,
+  TaskSummary,
+} from './types.js';
+
+const PROJECT_CONTEXT_URI = 'buildable://project/context';
+const PROJECT_PLAN_URI = 'buildable://project/plan';
+const RESOURCE_PAGE_SIZE = 50;
+const MCP_LOG_LEVELS: LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+const projectIdParam = z
+  .string()
+  .optional()
+  .describe('Project to use instead of the current project');
+
+// The fields an assistant can give a task, for create_task, update_task
+// and split_task
+const taskFieldParams = {
+  title: z.string().min(1).describe('Short title of the task'),
+  description: z.string().optional().describe('What needs to be done and why'),
+  phase: z
+    .string()
+    .optional()
+    .describe('Plan phase, e.g. Backend (default: Implementation)'),
+  difficulty: difficultySchema
+    .optional()
+    .describe('easy, medium or hard (default: medium)'),
+  estimated_hours: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe('Estimated effort in hours (default: 1)'),
+  technologies: z
+    .array(z.string())
+    .optional()
+    .describe('Technologies the task uses'),
+  dependencies: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of tasks that must be completed first'),
+  files_to_modify: z
+    .array(z.string())
+    .optional()
+    .describe('Files the task is expected to touch'),
+  acceptance_criteria: z
+    .array(z.string())
+    .optional()
+    .describe('What must be true when the task is done'),
+  success_checks: z
+    .array(z.string())
+    .optional()
+    .describe('Machine-checkable assertions, e.g. "file exists: src/x.ts"'),
+  commands: z
+    .array(z.string())
+    .optional()
+    .describe('Shell commands that verify the task, e.g. npm test'),
+  skill_tags: z
+    .array(z.string())
+    .optional()
+    .describe('Skills the task needs, e.g. backend, docs'),
+  context_summary: z
+    .string()
+    .optional()
+    .describe('1-3 sentence scope for whoever picks the task up'),
+  reference_impl: z
+    .string()
+    .optional()
+    .describe('Pseudocode or a snippet of the expected structure'),
+  rollback_plan: z
+    .string()
+    .optional()
+    .describe('How to revert the task if it goes wrong'),
+  estimated_tokens: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Prompt-size hint for scheduling'),
+};
+
+const requireApprovalParam = z
+  .boolean()
+  .optional()
+  .describe(
+    'Keep the new tasks proposed until a human approves them in a discussion'
+  );
+
+const reasonParam = z
+  .string()
+  .optional()
+  .describe('Why the work is needed, shown to whoever approves it');
+
+function taskUri(taskId: string): string {
+  return `buildable://tasks/${encodeURIComponent(taskId)}`;
+}
 
 class BuildableMCPServer {
-  private client: BuildableMCPClient | null = null;
+  private client: BuildableBackend | null = null;
   private server: McpServer;
+  private subscriptions = new Set<string>();
+  private currentProjectId: string | null = null;
+  private connectedProjects = new Set<string>();
+  // Task IDs of the current project as last read, to spot added or removed tasks
+  private listedTasks: string | null = null;
+  // start_task responses, kept for the guidance they carry
+  private startedTasks = new Map<string, StartTaskResponse>();
+  private logger = new Logger({ file: false });
+  private removeLogSink: (() => void) | null = null;
+  // Set by the MCP client through logging/setLevel; nothing is sent before
+  private mcpLogLevel: LoggingLevel | null = null;
 
   constructor() {
     this.server = new McpServer({
@@ -17,67 +195,1241 @@ class BuildableMCPServer {
     });
 
     this.setupTools();
+    this.setupResources();
+    this.setupPrompts();
+    this.setupLogging();
   }
 
-  private setupTools(): void {
-    // Get project context
-    this.server.tool('get_project_context', {}, async () => {
-      if (!this.client) {
-        throw new Error('Not connected to Buildable API');
+  private setupLogging(): void {
+    this.server.server.registerCapabilities({ logging: {} });
+    this.server.server.setRequestHandler(
+      SetLevelRequestSchema,
+      async (request) => {
+        this.mcpLogLevel = request.params.level;
+        return {};
       }
+    );
+  }
 
-      const context = await this.client.getProjectContext();
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(context, null, 2),
-          },
-        ],
-      };
-    });
+  /**
+   * Mirror log entries to the MCP client as notifications/message
+   */
+  private forwardLog(entry: LogEntry): void {
+    if (!this.mcpLogLevel) {
+      return;
+    }
 
-    // Get next task
-    this.server.tool('get_next_task', {}, async () => {
-      if (!this.client) {
-        throw new Error('Not connected to Buildable API');
+    const level: LoggingLevel =
+      entry.level === 'warn' ? 'warning' : entry.level;
+    if (
+      MCP_LOG_LEVELS.indexOf(level) < MCP_LOG_LEVELS.indexOf(this.mcpLogLevel)
+    ) {
+      return;
+    }
+
+    this.server.server
+      .sendLoggingMessage({ level, logger: 'buildable', data: entry })
+      .catch(() => undefined);
+  }
+
+  private setupPrompts(): void {
+    const taskIdArg = () =>
+      completable(z.string().describe('The ID of the task'), async (value) => {
+        if (!this.client) {
+          return [];
+        }
+        const context = await this.readProjectContext();
+        return context.tasks.summary
+          .map((task) => task.id)
+          .filter((id) => id.startsWith(value));
+      });
+
+    // Canonical get context -> next task -> start -> progress -> complete loop
+    this.server.prompt(
+      'work_on_next_task',
+      'Pick up the next recommended task and work through it end to end',
+      async () => {
+        const client = await this.clientFor();
+        const context = await client.getProjectContext();
+        const next = await client.getNextTask();
+
+        return {
+          description: next.task
+            ? `Work on "${next.task.title}"`
+            : 'No task available',
+          messages: [
+            {
+              role: 'user',
+              content: {
+                type: 'text',
+                text: renderWorkOnNextTaskPrompt(next, context),
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.prompt(
+      'resume_task',
+      'Continue working on a task that was already started',
+      { task_id: taskIdArg() },
+      async ({ task_id }) => {
+        const task = await this.findTask(task_id);
+        const handoff = await (await this.clientFor()).getTaskHandoff(task_id);
+
+        return {
+          description: `Resume "${task.title}"`,
+          messages: [
+            {
+              role: 'user',
+              content: {
+                type: 'text',
+                text: renderResumeTaskPrompt(
+                  task,
+                  this.startedTasks.get(task_id),
+                  handoff
+                ),
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.prompt(
+      'write_completion_report',
+      'Verify a task against its acceptance criteria and report it complete',
+      { task_id: taskIdArg() },
+      async ({ task_id }) => {
+        const task = await this.findTask(task_id);
+
+        return {
+          description: `Completion report for "${task.title}"`,
+          messages: [
+            {
+              role: 'user',
+              content: {
+                type: 'text',
+                text: renderCompletionReportPrompt(
+                  task,
+                  this.startedTasks.get(task_id)
+                ),
+              },
+            },
+          ],
+        };
+      }
+    );
+  }
+
+  private setupResources(): void {
+    // Project context
+    this.server.resource(
+      'project-context',
+      PROJECT_CONTEXT_URI,
+      {
+        description:
+          'Complete project context: project, plan, task summaries and recent activity',
+        mimeType: 'application/json',
+      },
+      async (uri) => {
+        const context = await this.readProjectContext();
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(context, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // Project plan
+    this.server.resource(
+      'project-plan',
+      PROJECT_PLAN_URI,
+      {
+        description:
+          'Build plan: overview, technology stack, architecture and requirements',
+        mimeType: 'application/json',
+      },
+      async (uri) => {
+        const context = await this.readProjectContext();
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(context.plan, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // Individual tasks
+    this.server.resource(
+      'task',
+      // Listed by the paginated ListResources handler below
+      new ResourceTemplate('buildable://tasks/{taskId}', { list: undefined }),
+      {
+        description: 'A single task with its AI execution fields',
+        mimeType: 'application/json',
+      },
+      async (uri, { taskId }) => {
+        const task = await this.findTask(decodeURIComponent(String(taskId)));
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify(task, null, 2),
+            },
+          ],
+        };
       }
+    );
 
-      const nextTask = await this.client.getNextTask();
-      return {
-        content: [
+    // McpServer lists every resource in one response; replace its handler
+    // with a paginated one since projects can have hundreds of tasks
+    this.server.server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async (request) => {
+        const context = await this.readProjectContext();
+        const resources: Resource[] = [
           {
-            type: 'text',
-            text: JSON.stringify(nextTask, null, 2),
+            uri: PROJECT_CONTEXT_URI,
+            name: 'project-context',
+            description: `Project context for ${context.project.title}`,
+            mimeType: 'application/json',
           },
-        ],
-      };
+          {
+            uri: PROJECT_PLAN_URI,
+            name: 'project-plan',
+            description: `Build plan for ${context.project.title}`,
+            mimeType: 'application/json',
+          },
+          ...context.tasks.summary.map(taskResource),
+        ];
+
+        const offset = decodeCursor(request.params?.cursor);
+        const end = offset + RESOURCE_PAGE_SIZE;
+
+        return {
+          resources: resources.slice(offset, end),
+          nextCursor: end < resources.length ? encodeCursor(end) : undefined,
+        };
+      }
+    );
+
+    this.server.server.registerCapabilities({
+      resources: { subscribe: true, listChanged: true },
     });
+    this.server.server.setRequestHandler(
+      SubscribeRequestSchema,
+      async (request) => {
+        this.subscriptions.add(request.params.uri);
+        return {};
+      }
+    );
+    this.server.server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request) => {
+        this.subscriptions.delete(request.params.uri);
+        return {};
+      }
+    );
+  }
 
-    // Start task
+  /**
+   * Client for the given project, or the current one. Clients for other
+   * projects are connected the first time they are used.
+   */
+  private async clientFor(projectId?: string): Promise<BuildableBackend> {
+    if (!this.client) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        'Not connected to Buildable API'
+      );
+    }
+
+    const id = projectId || this.currentProjectId || this.client.projectId;
+    const client = this.client.forProject(id);
+
+    if (!this.connectedProjects.has(id)) {
+      this.connectedProjects.add(id);
+      client.onTaskStatusChange((taskId) => this.notifyTaskChanged(taskId));
+      await client.connect();
+    }
+
+    return client;
+  }
+
+  private async readProjectContext(): Promise<ProjectContext> {
+    const client = await this.clientFor();
+    const context = await client.getProjectContext();
+    this.checkTaskList(context);
+    return context;
+  }
+
+  /**
+   * Tell clients the resource list changed when tasks were added or
+   * removed since the context was last read, whether by create_task and
+   * split_task or by a rejected proposal
+   */
+  private checkTaskList(context: ProjectContext): void {
+    const ids = context.tasks.summary.map((task) => task.id).join('\n');
+    if (this.listedTasks !== null && this.listedTasks !== ids) {
+      this.server.sendResourceListChanged();
+    }
+    this.listedTasks = ids;
+  }
+
+  private async refreshTaskList(): Promise<void> {
+    try {
+      await this.readProjectContext();
+    } catch {
+      // The next read notices the change instead
+    }
+  }
+
+  private async findTask(taskId: string): Promise<TaskSummary> {
+    const context = await this.readProjectContext();
+    const task = context.tasks.summary.find((t) => t.id === taskId);
+    if (!task) {
+      throw new McpError(ErrorCode.InvalidParams, `Task ${taskId} not found`);
+    }
+    return task;
+  }
+
+  /**
+   * Tell subscribed clients that a task (and with it the project context)
+   * changed status
+   */
+  private notifyTaskChanged(taskId: string): void {
+    for (const uri of [taskUri(taskId), PROJECT_CONTEXT_URI]) {
+      if (this.subscriptions.has(uri)) {
+        this.server.server.sendResourceUpdated({ uri }).catch(() => {
+          // Client may have disconnected; nothing to notify
+        });
+      }
+    }
+  }
+
+  private setupTools(): void {
+    // Get project context
     this.server.tool(
-      'start_task',
+      'get_project_context',
       {
-        task_id: z.string().describe('The ID of the task to start'),
-        approach: z
-          .string()
+        project_id: projectIdParam,
+        force_refresh: z
+          .boolean()
           .optional()
-          .describe('Optional approach or strategy for the task'),
-        estimated_duration: z
+          .describe('Bypass the cached copy and ask Buildable again'),
+      },
+      withToolErrors(async ({ project_id, force_refresh }) => {
+        const client = await this.clientFor(project_id);
+
+        const context = await client.getProjectContext(undefined, {
+          forceRefresh: force_refresh,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(context, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // List configured projects
+    this.server.tool(
+      'list_projects',
+      {},
+      withToolErrors(async () => {
+        if (!this.client) {
+          throw new Error('Not connected to Buildable API');
+        }
+
+        const projects = this.client.listProjects().map((project) => ({
+          id: project.id,
+          name: project.name,
+          current: project.id === this.currentProjectId,
+          has_own_api_key: Boolean(project.apiKey),
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(projects, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Switch current project
+    this.server.tool(
+      'switch_project',
+      {
+        project_id: z.string().describe('The ID of the project to switch to'),
+      },
+      withToolErrors(async ({ project_id }) => {
+        // Fetching the context verifies the project exists and is accessible
+        const client = await this.clientFor(project_id);
+        const context = await client.getProjectContext();
+
+        this.currentProjectId = project_id;
+        this.listedTasks = null;
+        this.server.sendResourceListChanged();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  current_project: context.project,
+                  tasks: {
+                    total: context.tasks.total,
+                    completed: context.tasks.completed,
+                    in_progress: context.tasks.in_progress,
+                    pending: context.tasks.pending,
+                  },
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      })
+    );
+
+    // Get next task
+    this.server.tool(
+      'get_next_task',
+      'Recommend the next ready task. Pass skills, max_difficulty, token_budget or exclude_task_ids to get the best-fitting candidates, each with the reasons it was chosen.',
+      {
+        skills: z
+          .array(z.string())
+          .optional()
+          .describe('What you can work on, e.g. ["docs", "react"]'),
+        max_difficulty: difficultySchema.optional(),
+        token_budget: z
           .number()
+          .int()
+          .positive()
           .optional()
-          .describe('Estimated duration in minutes'),
-        notes: z.string().optional().describe('Optional notes about the task'),
+          .describe('Skip tasks estimated to need more tokens than this'),
+        exclude_task_ids: z.array(z.string()).optional(),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_CANDIDATES)
+          .optional()
+          .describe(
+            `How many candidates to return (default ${DEFAULT_CANDIDATES})`
+          ),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ project_id, ...options }) => {
+        const client = await this.clientFor(project_id);
+
+        const nextTask = await client.getNextTask(undefined, options);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(nextTask, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Query tasks
+    this.server.tool(
+      'list_tasks',
+      'List tasks matching the given filters, a page at a time. Tasks are compact unless full is set.',
+      {
+        status: z
+          .array(taskStatusSchema)
+          .optional()
+          .describe('Only tasks with one of these statuses'),
+        phase: z.string().optional().describe('Only tasks in this phase'),
+        difficulty: z
+          .array(difficultySchema)
+          .optional()
+          .describe('Only tasks with one of these difficulties'),
+        skill_tags: z
+          .array(z.string())
+          .optional()
+          .describe('Only tasks with any of these skill tags'),
+        technologies: z
+          .array(z.string())
+          .optional()
+          .describe('Only tasks using any of these technologies'),
+        files: z
+          .array(z.string())
+          .optional()
+          .describe('Only tasks touching any of these files or directories'),
+        sort: z
+          .enum([
+            'plan',
+            'title',
+            'status',
+            'phase',
+            'difficulty',
+            'estimated_hours',
+          ])
+          .optional()
+          .describe('Sort field (default: plan, the order of the build plan)'),
+        order: z.enum(['asc', 'desc']).optional().describe('Sort direction'),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe('Tasks to skip; pass next_offset from the previous page'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_TASK_PAGE_SIZE)
+          .optional()
+          .describe(`Page size (default: ${DEFAULT_TASK_PAGE_SIZE})`),
+        full: z
+          .boolean()
+          .optional()
+          .describe('Return whole tasks, including AI execution fields'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ project_id, ...options }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.listTasks(options);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Get a single task
+    this.server.tool(
+      'get_task',
+      {
+        task_id: z.string().describe('The ID of the task'),
+        full: z
+          .boolean()
+          .optional()
+          .describe('Include reference_impl, commands and rollback_plan'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, full, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const task = await client.getTask(task_id, { full });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(task, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Dependency graph
+    this.server.tool(
+      'get_task_graph',
+      'Analyse task dependencies: ready and blocked tasks, cycles, missing dependencies and the critical path',
+      {
+        format: z
+          .enum(['json', 'mermaid', 'dot'])
+          .optional()
+          .describe(
+            'json (default) for the analysis, mermaid or dot for a diagram'
+          ),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ format, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const graph = await client.getTaskGraph();
+        const text =
+          format && format !== 'json'
+            ? renderTaskGraph(graph, format)
+            : JSON.stringify(graph, null, 2);
+
+        return { content: [{ type: 'text', text }] };
+      })
+    );
+
+    // Add a task
+    this.server.tool(
+      'create_task',
+      'Add a task to the plan, e.g. work discovered while doing another task. Dependencies must be IDs of existing tasks.',
+      {
+        ...taskFieldParams,
+        require_approval: requireApprovalParam,
+        reason: reasonParam,
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ project_id, ...request }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.createTask(request);
+        await this.refreshTaskList();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Edit a task
+    this.server.tool(
+      'update_task',
+      "Change a task's fields. Only the given fields change; use start_task and complete_task to change its status.",
+      {
+        task_id: z.string().describe('The ID of the task to change'),
+        ...z.object(taskFieldParams).partial().shape,
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, project_id, ...changes }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.updateTask(task_id, changes);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Split a task
+    this.server.tool(
+      'split_task',
+      'Break a task that is too big into subtasks. The task then waits on all of them, so work that depended on it still does.',
+      {
+        task_id: z.string().describe('The ID of the task to split'),
+        subtasks: z
+          .array(z.object(taskFieldParams))
+          .min(2)
+          .describe(
+            "The subtasks, in order; each also waits on the task's dependencies"
+          ),
+        sequential: z
+          .boolean()
+          .optional()
+          .describe('Make each subtask depend on the one before it'),
+        require_approval: requireApprovalParam,
+        reason: reasonParam,
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, project_id, ...request }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.splitTask(task_id, request);
+        await this.refreshTaskList();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Start task
+    this.server.tool(
+      'start_task',
+      {
+        task_id: z.string().describe('The ID of the task to start'),
+        approach: z
+          .string()
+          .optional()
+          .describe('Optional approach or strategy for the task'),
+        estimated_duration: z
+          .number()
+          .optional()
+          .describe('Estimated duration in minutes'),
+        notes: z.string().optional().describe('Optional notes about the task'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({
+          task_id,
+          approach,
+          estimated_duration,
+          notes,
+          project_id,
+        }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.startTask(task_id, {
+            approach,
+            estimated_duration,
+            notes,
+          });
+          this.startedTasks.set(task_id, result);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Update progress
+    this.server.tool(
+      'update_progress',
+      {
+        task_id: z.string().describe('The ID of the task being updated'),
+        progress: z
+          .number()
+          .min(0)
+          .max(100)
+          .describe('Progress percentage (0-100)'),
+        status_update: z.string().describe('Brief status update message'),
+        completed_steps: z
+          .array(z.string())
+          .optional()
+          .describe('List of completed steps'),
+        current_step: z
+          .string()
+          .optional()
+          .describe('Current step being worked on'),
+        challenges: z
+          .array(z.string())
+          .optional()
+          .describe('Any challenges or blockers encountered'),
+        files_modified: z
+          .array(z.string())
+          .optional()
+          .describe('List of files that were modified'),
+        time_spent: z
+          .number()
+          .optional()
+          .describe(
+            'Time spent in minutes (default: time tracked since start_task)'
+          ),
+        notes: z.string().optional().describe('Additional notes'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({
+          task_id,
+          progress,
+          status_update,
+          completed_steps,
+          current_step,
+          challenges,
+          files_modified,
+          time_spent,
+          notes,
+          project_id,
+        }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.updateProgress(task_id, {
+            progress,
+            status_update,
+            completed_steps,
+            current_step,
+            challenges,
+            files_modified,
+            time_spent,
+            notes,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Complete task
+    this.server.tool(
+      'complete_task',
+      {
+        task_id: z.string().describe('The ID of the task to complete'),
+        completion_notes: z.string().describe('Notes about task completion'),
+        files_modified: z
+          .array(z.string())
+          .optional()
+          .describe('List of files that were modified'),
+        testing_completed: z
+          .boolean()
+          .optional()
+          .describe('Whether testing was completed'),
+        documentation_updated: z
+          .boolean()
+          .optional()
+          .describe('Whether documentation was updated'),
+        time_spent: z
+          .number()
+          .optional()
+          .describe(
+            'Total time spent in minutes (default: time tracked since start_task)'
+          ),
+        run_checks: z
+          .boolean()
+          .optional()
+          .describe(
+            "Run the task's commands and success checks first and attach the results as evidence"
+          ),
+        require_passing_checks: z
+          .boolean()
+          .optional()
+          .describe('Refuse to complete the task if the checks fail'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({
+          task_id,
+          completion_notes,
+          files_modified,
+          testing_completed,
+          documentation_updated,
+          time_spent,
+          run_checks,
+          require_passing_checks,
+          project_id,
+        }) => {
+          const client = await this.clientFor(project_id);
+
+          const verification =
+            run_checks || require_passing_checks
+              ? await client.runTaskChecks(task_id)
+              : undefined;
+
+          const result = await client.completeTask(task_id, {
+            completion_notes,
+            files_modified: files_modified || [],
+            testing_completed:
+              testing_completed ?? verification?.passed ?? false,
+            documentation_updated: documentation_updated || false,
+            time_spent,
+            verification,
+            require_passing_checks,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Block task
+    this.server.tool(
+      'block_task',
+      'Stop working on a task until a human sorts out what it is waiting on. Start it again to pick it back up.',
+      {
+        task_id: z.string().describe('The ID of the task that is blocked'),
+        reason: z.string().describe('What the task is waiting on'),
+        discussion_id: z
+          .string()
+          .optional()
+          .describe(
+            'An existing discussion about the blocker (default: one is opened with the reason)'
+          ),
+        urgency: z
+          .enum(['low', 'medium', 'high'])
+          .optional()
+          .describe('Urgency of the discussion that is opened'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({ task_id, reason, discussion_id, urgency, project_id }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.blockTask(task_id, {
+            reason,
+            discussion_id,
+            urgency,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Release task
+    this.server.tool(
+      'release_task',
+      'Hand a started task back to the pool for someone else to pick up',
+      {
+        task_id: z.string().describe('The ID of the task to release'),
+        handoff_notes: z
+          .string()
+          .describe("What's done, what's left and where to pick up"),
+        time_spent: z
+          .number()
+          .optional()
+          .describe(
+            'Time spent in minutes (default: time tracked since start_task)'
+          ),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({ task_id, handoff_notes, time_spent, project_id }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.releaseTask(task_id, {
+            handoff_notes,
+            time_spent,
+          });
+          this.startedTasks.delete(task_id);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Fail task
+    this.server.tool(
+      'fail_task',
+      "Give up on a task that can't be done as planned. Returns its rollback plan and the changes to undo.",
+      {
+        task_id: z.string().describe('The ID of the task that failed'),
+        reason: z.string().describe('What went wrong'),
+        details: z
+          .string()
+          .optional()
+          .describe('Error output, failed checks and what was tried'),
+        files_modified: z
+          .array(z.string())
+          .optional()
+          .describe('Files touched before giving up'),
+        time_spent: z
+          .number()
+          .optional()
+          .describe(
+            'Time spent in minutes (default: time tracked since start_task)'
+          ),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({
+          task_id,
+          reason,
+          details,
+          files_modified,
+          time_spent,
+          project_id,
+        }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.failTask(task_id, {
+            reason,
+            details,
+            files_modified,
+            time_spent,
+          });
+          this.startedTasks.delete(task_id);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Pause time tracking
+    this.server.tool(
+      'pause_task',
+      {
+        task_id: z.string().describe('The ID of the task to pause'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.pauseTask(task_id);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Resume time tracking
+    this.server.tool(
+      'resume_task',
+      {
+        task_id: z.string().describe('The ID of the task to resume'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.resumeTask(task_id);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Pick a task back up
+    this.server.tool(
+      'pick_up_task',
+      'Pick a task back up: returns where the last session left off (progress, current step, completed steps, challenges, files touched), its handoff notes and open discussions, and restarts its paused clock if the task is still in progress',
+      {
+        task_id: z.string().describe('The ID of the task to pick up'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.getTaskHandoff(task_id);
+        // Anything else has to go through start_task, which claims it
+        if (result.task.status === 'in_progress' && result.time) {
+          result.time = await client.resumeTask(task_id);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Run task verification locally
+    this.server.tool(
+      'run_task_checks',
+      "Run the task's commands and success checks in the local workspace and report pass/fail evidence",
+      {
+        task_id: z.string().describe('The ID of the task to verify'),
+        timeout_seconds: z
+          .number()
+          .min(1)
+          .optional()
+          .describe('Timeout per command in seconds (default: 300)'),
+        skip_commands: z
+          .boolean()
+          .optional()
+          .describe('Only evaluate success checks, skip the task commands'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({ task_id, timeout_seconds, skip_commands, project_id }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.runTaskChecks(task_id, {
+            timeout: timeout_seconds ? timeout_seconds * 1000 : undefined,
+            skipCommands: skip_commands,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Create discussion/question
+    this.server.tool(
+      'create_discussion',
+      {
+        title: z.string().describe('Title of the discussion/question'),
+        content: z.string().describe('Detailed question or discussion content'),
+        urgency: z
+          .enum(['low', 'medium', 'high'])
+          .optional()
+          .describe('Urgency level of the question'),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe('Tags to categorize the discussion'),
+        task_id: z
+          .string()
+          .optional()
+          .describe('The ID of the task this discussion relates to'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(
+        async ({ title, content, urgency, task_id, project_id }) => {
+          const client = await this.clientFor(project_id);
+
+          const result = await client.createDiscussion({
+            topic: title,
+            message: content,
+            context: {
+              current_task_id: task_id,
+              urgency,
+            },
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Get discussion
+    this.server.tool(
+      'get_discussion',
+      {
+        discussion_id: z.string().describe('The ID of the discussion'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ discussion_id, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.getDiscussion(discussion_id);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // List discussions
+    this.server.tool(
+      'list_discussions',
+      {
+        task_id: z
+          .string()
+          .optional()
+          .describe('Only list discussions for this task'),
+        status: z
+          .enum(['open', 'pending', 'responded', 'resolved', 'all'])
+          .optional()
+          .describe('Filter by status (default: open, i.e. not resolved)'),
+        project_id: projectIdParam,
+      },
+      withToolErrors(async ({ task_id, status, project_id }) => {
+        const client = await this.clientFor(project_id);
+
+        const result = await client.listDiscussions({ task_id, status });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
+
+    // Wait for a human response to a discussion
+    this.server.tool(
+      'wait_for_discussion_response',
+      {
+        discussion_id: z.string().describe('The ID of the discussion'),
+        timeout_seconds: z
+          .number()
+          .min(1)
+          .max(600)
+          .optional()
+          .describe('How long to wait for a response (default: 60)'),
+        project_id: projectIdParam,
       },
-      async ({ task_id, approach, estimated_duration, notes }) => {
-        if (!this.client) {
-          throw new Error('Not connected to Buildable API');
-        }
+      withToolErrors(async ({ discussion_id, timeout_seconds, project_id }) => {
+        const client = await this.clientFor(project_id);
 
-        const result = await this.client.startTask(task_id, {
-          approach,
-          estimated_duration,
-          notes,
+        const result = await client.waitForDiscussionResponse(discussion_id, {
+          timeout: (timeout_seconds ?? 60) * 1000,
         });
 
         return {
@@ -88,64 +1440,21 @@ class BuildableMCPServer {
             },
           ],
         };
-      }
+      })
     );
 
-    // Update progress
+    // Reply to discussion
     this.server.tool(
-      'update_progress',
+      'reply_to_discussion',
       {
-        task_id: z.string().describe('The ID of the task being updated'),
-        progress: z
-          .number()
-          .min(0)
-          .max(100)
-          .describe('Progress percentage (0-100)'),
-        status_update: z.string().describe('Brief status update message'),
-        completed_steps: z
-          .array(z.string())
-          .optional()
-          .describe('List of completed steps'),
-        current_step: z
-          .string()
-          .optional()
-          .describe('Current step being worked on'),
-        challenges: z
-          .array(z.string())
-          .optional()
-          .describe('Any challenges or blockers encountered'),
-        files_modified: z
-          .array(z.string())
-          .optional()
-          .describe('List of files that were modified'),
-        time_spent: z.number().optional().describe('Time spent in minutes'),
-        notes: z.string().optional().describe('Additional notes'),
+        discussion_id: z.string().describe('The ID of the discussion'),
+        message: z.string().describe('Follow-up message or question'),
+        project_id: projectIdParam,
       },
-      async ({
-        task_id,
-        progress,
-        status_update,
-        completed_steps,
-        current_step,
-        challenges,
-        files_modified,
-        time_spent,
-        notes,
-      }) => {
-        if (!this.client) {
-          throw new Error('Not connected to Buildable API');
-        }
+      withToolErrors(async ({ discussion_id, message, project_id }) => {
+        const client = await this.clientFor(project_id);
 
-        const result = await this.client.updateProgress(task_id, {
-          progress,
-          status_update,
-          completed_steps,
-          current_step,
-          challenges,
-          files_modified,
-          time_spent,
-          notes,
-        });
+        const result = await client.replyToDiscussion(discussion_id, message);
 
         return {
           content: [
@@ -155,51 +1464,27 @@ class BuildableMCPServer {
             },
           ],
         };
-      }
+      })
     );
 
-    // Complete task
+    // Resolve discussion
     this.server.tool(
-      'complete_task',
+      'resolve_discussion',
       {
-        task_id: z.string().describe('The ID of the task to complete'),
-        completion_notes: z.string().describe('Notes about task completion'),
-        files_modified: z
-          .array(z.string())
-          .optional()
-          .describe('List of files that were modified'),
-        testing_completed: z
-          .boolean()
-          .optional()
-          .describe('Whether testing was completed'),
-        documentation_updated: z
-          .boolean()
-          .optional()
-          .describe('Whether documentation was updated'),
-        time_spent: z
-          .number()
+        discussion_id: z.string().describe('The ID of the discussion'),
+        resolution: z
+          .string()
           .optional()
-          .describe('Total time spent in minutes'),
+          .describe('Summary of how the discussion was resolved'),
+        project_id: projectIdParam,
       },
-      async ({
-        task_id,
-        completion_notes,
-        files_modified,
-        testing_completed,
-        documentation_updated,
-        time_spent,
-      }) => {
-        if (!this.client) {
-          throw new Error('Not connected to Buildable API');
-        }
+      withToolErrors(async ({ discussion_id, resolution, project_id }) => {
+        const client = await this.clientFor(project_id);
 
-        const result = await this.client.completeTask(task_id, {
-          completion_notes,
-          files_modified: files_modified || [],
-          testing_completed: testing_completed || false,
-          documentation_updated: documentation_updated || false,
-          time_spent: time_spent || 0,
-        });
+        const result = await client.resolveDiscussion(
+          discussion_id,
+          resolution
+        );
 
         return {
           content: [
@@ -209,95 +1494,80 @@ class BuildableMCPServer {
             },
           ],
         };
-      }
+      })
     );
 
-    // Create discussion/question
+    // Offline queue status
     this.server.tool(
-      'create_discussion',
+      'sync_status',
       {
-        title: z.string().describe('Title of the discussion/question'),
-        content: z.string().describe('Detailed question or discussion content'),
-        urgency: z
-          .enum(['low', 'medium', 'high'])
-          .optional()
-          .describe('Urgency level of the question'),
-        tags: z
-          .array(z.string())
+        flush: z
+          .boolean()
           .optional()
-          .describe('Tags to categorize the discussion'),
+          .describe('Replay queued updates now before reporting'),
+        project_id: projectIdParam,
       },
-      async ({ title, content, urgency }) => {
-        if (!this.client) {
-          throw new Error('Not connected to Buildable API');
-        }
+      withToolErrors(async ({ flush, project_id }) => {
+        const client = await this.clientFor(project_id);
 
-        const result = await this.client.createDiscussion({
-          topic: title,
-          message: content,
-          context: {
-            urgency,
-          },
-        });
+        const flushed = flush ? await client.flushQueue() : undefined;
+        const status = await client.getSyncStatus();
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({ ...status, flushed }, null, 2),
             },
           ],
         };
-      }
+      })
     );
 
     // Health check
-    this.server.tool('health_check', {}, async () => {
-      if (!this.client) {
-        throw new Error('Not connected to Buildable API');
-      }
+    this.server.tool(
+      'health_check',
+      {},
+      withToolErrors(async () => {
+        const client = await this.clientFor();
 
-      const result = await this.client.healthCheck();
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    });
+        const result = {
+          ...(await client.healthCheck()),
+          cache: client.getCacheStats(),
+        };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      })
+    );
   }
 
-  async initialize(): Promise<void> {
-    // Get config from environment variables
-    const config: BuildableConfig = {
-      apiUrl: process.env.BUILDABLE_API_URL || 'https://bldbl.dev/api',
-      apiKey: process.env.BUILDABLE_API_KEY || '',
-      projectId: process.env.BUILDABLE_PROJECT_ID || '',
-      aiAssistantId: process.env.BUILDABLE_AI_ASSISTANT_ID || 'cursor-ide',
-    };
-
-    // Validate required config
-    if (!config.apiKey) {
-      throw new Error('BUILDABLE_API_KEY environment variable is required');
-    }
-    if (!config.projectId) {
-      throw new Error('BUILDABLE_PROJECT_ID environment variable is required');
-    }
-
-    const options: ClientOptions = {
-      logLevel:
-        (process.env.BUILDABLE_LOG_LEVEL as
-          | 'debug'
-          | 'info'
-          | 'warn'
-          | 'error') || 'info',
-      enableRealTimeUpdates: process.env.BUILDABLE_REAL_TIME === 'true',
-    };
+  async initialize(
+    config: BuildableConfig,
+    options: ClientOptions
+  ): Promise<void> {
+    this.logger =
+      options.logger ||
+      new Logger({
+        level: options.logLevel,
+        file: options.logFile ?? DEFAULT_LOG_FILE,
+      });
+    this.logger.addSecret(config.apiKey);
+    this.removeLogSink = this.logger.addSink((entry) => this.forwardLog(entry));
 
     // Create client
-    this.client = createBuildableClient(config, options);
+    this.client = createBackend(config, {
+      ...options,
+      logger: this.logger,
+    });
+    this.client.onTaskStatusChange((taskId) => this.notifyTaskChanged(taskId));
+    this.currentProjectId = config.projectId;
+    this.connectedProjects.add(config.projectId);
 
     // Test connection and create AI connection record
     try {
@@ -305,23 +1575,552 @@ class BuildableMCPServer {
       await this.client.connect();
     } catch (error) {
       // Connection issues are non-fatal during initialization
-      console.error('Warning: Could not connect to Buildable API:', error);
+      this.logger.warn('Could not connect to Buildable API', { error });
     }
   }
 
-  async run(): Promise<void> {
-    await this.initialize();
-
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
   }
+
+  async close(): Promise<void> {
+    await this.client?.disconnect();
+    this.removeLogSink?.();
+    await this.server.close();
+  }
+
+  async run(config: BuildableConfig, options: ClientOptions): Promise<void> {
+    await this.initialize(config, options);
+
+    await this.connect(new StdioServerTransport());
+    onShutdown(() => this.close());
+    // The MCP client went away: release our task claims on the way out
+    process.stdin.once('end', () => {
+      void shutdown('stdin closed');
+    });
+  }
+}
+
+/**
+ * Report a failed tool call as an `isError` result that says what went
+ * wrong and what to do next, so the assistant can recover on its own
+ */
+function withToolErrors<A>(
+  handler: (args: A) => Promise<CallToolResult>
+): (args: A) => Promise<CallToolResult> {
+  return async (args) => {
+    try {
+      return await handler(args);
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  };
+}
+
+function toolErrorResult(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  let explanation = message;
+  let nextStep: string | undefined;
+
+  if (error instanceof AuthenticationError) {
+    explanation = `Buildable rejected the API key: ${message}`;
+    nextStep =
+      "Ask the user to check BUILDABLE_API_KEY (or the project's apiKey) and run `bldbl doctor`.";
+  } else if (error instanceof ForbiddenError) {
+    explanation = `The API key has no access to this: ${message}`;
+    nextStep =
+      'Use list_projects and switch_project to work in a project this key can access.';
+  } else if (error instanceof NotFoundError) {
+    explanation = `Not found: ${message}`;
+    nextStep =
+      'Check the ID; list_tasks lists the tasks of the current project.';
+  } else if (error instanceof ConflictError) {
+    explanation = `The request conflicts with the current state: ${message}`;
+    nextStep =
+      error.code === 'TASK_NOT_APPROVED'
+        ? 'Wait for the approval with wait_for_discussion_response, or pick another task with get_next_task.'
+        : error.code === 'TASK_BLOCKED'
+        ? 'Wait for the blocker discussion with wait_for_discussion_response, then call start_task to pick the task back up.'
+        : error instanceof TaskClaimedError
+        ? `Pick another task with get_next_task; ${
+            error.claimedBy || 'the other assistant'
+          } is working on this one.`
+        : 'Fetch the current state with get_project_context before trying again.';
+  } else if (error instanceof RateLimitError) {
+    explanation = `Rate limited by Buildable: ${message}`;
+    nextStep =
+      error.retryAfter !== undefined
+        ? `Wait ${Math.ceil(
+            error.retryAfter / 1000
+          )}s before calling the tool again.`
+        : 'Wait a minute before calling the tool again.';
+  } else if (error instanceof ValidationError) {
+    explanation = `Buildable rejected the request: ${message}`;
+    nextStep =
+      error.code === 'INVALID_DEPENDENCIES'
+        ? 'Look up the right task IDs with list_tasks and call the tool again.'
+        : 'Correct the arguments and call the tool again.';
+  } else if (error instanceof TimeoutError) {
+    nextStep = 'Try again; if it keeps timing out, run health_check.';
+  } else if (error instanceof NetworkError) {
+    nextStep =
+      'Run health_check; if Buildable stays unreachable, ask the user to check the network and BUILDABLE_API_URL.';
+  } else if (error instanceof ResponseValidationError) {
+    explanation = `Buildable sent a response this version of @bldbl/mcp doesn't understand. ${message}`;
+    nextStep =
+      'Ask the user to update @bldbl/mcp, or to set BUILDABLE_RESPONSE_VALIDATION=lenient meanwhile.';
+  } else if (
+    error instanceof BuildableError &&
+    error.status !== undefined &&
+    error.status >= 500
+  ) {
+    explanation = `Buildable had an internal error: ${message}`;
+    nextStep = 'Try again shortly.';
+  }
+
+  const lines = [explanation];
+  if (nextStep) {
+    lines.push('', `Next step: ${nextStep}`);
+  }
+  if (error instanceof BuildableError && error.requestId) {
+    lines.push(`Request ID: ${error.requestId}`);
+  }
+  return { content: [{ type: 'text', text: lines.join('\n') }], isError: true };
+}
+
+function taskResource(task: TaskSummary): Resource {
+  return {
+    uri: taskUri(task.id),
+    name: task.title,
+    description: `[${task.status}] ${task.phase} · ${task.difficulty}`,
+    mimeType: 'application/json',
+  };
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) {
+    return 0;
+  }
+
+  const offset = Number(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+  return offset;
+}
+
+/**
+ * `bldbl --transport http` - one shared server, one MCP server and
+ * Buildable client per connected session
+ */
+async function runHttpServer(
+  args: string[],
+  config: BuildableConfig,
+  options: ClientOptions & { logger: Logger }
+): Promise<void> {
+  const host =
+    getFlag(args, '--host') || process.env.BUILDABLE_MCP_HOST || '127.0.0.1';
+  const port = Number(
+    getFlag(args, '--port') || process.env.BUILDABLE_MCP_PORT || 3000
+  );
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${port}`);
+  }
+
+  const authToken =
+    getFlag(args, '--auth-token') || process.env.BUILDABLE_MCP_AUTH_TOKEN;
+  options.logger.addSecret(authToken);
+
+  const httpServer = await startHttpServer({
+    host,
+    port,
+    authToken,
+    createSession: async (sessionId, headers) => {
+      // Keep sessions apart in the dashboard unless the client names itself
+      const aiAssistantId =
+        (headers['x-ai-assistant-id'] as string | undefined) ||
+        `${config.aiAssistantId}-${sessionId.substring(0, 8)}`;
+
+      const session = new BuildableMCPServer();
+      await session.initialize(
+        { ...config, aiAssistantId },
+        { ...options, logger: options.logger.child({ session_id: sessionId }) }
+      );
+      return session;
+    },
+  });
+
+  // The URL is for whoever started the server, so stderr is fine here
+  console.error(`Buildable MCP server listening on ${httpServer.url}`);
+  options.logger.info('HTTP server listening', { url: httpServer.url });
+  onShutdown(() => httpServer.close());
+}
+
+/**
+ * `bldbl sync [--flush]` - inspect or replay the offline queue
+ */
+async function runSyncCommand(args: string[]): Promise<void> {
+  const { config, options } = await resolveConfig({
+    profile: getFlag(args, '--profile'),
+  });
+  const client = createBuildableClient(config, {
+    ...options,
+    offlineQueue: true,
+  });
+
+  if (args.includes('--flush')) {
+    const result = await client.flushQueue();
+    console.log(
+      `Delivered ${result.delivered}, rejected ${result.failed}, ${result.remaining} still queued`
+    );
+  }
+
+  const status = await client.getSyncStatus();
+  console.log(`Queue directory: ${status.directory}`);
+  console.log(`Pending: ${status.pending.length}`);
+  for (const entry of status.pending) {
+    console.log(
+      `  ${entry.queued_at}  ${entry.operation}  task=${entry.task_id}  attempts=${entry.attempts}${entry.last_error ? `  last_error=${entry.last_error}` : ''}`
+    );
+  }
+  console.log(`Rejected: ${status.failed.length}`);
+  for (const entry of status.failed) {
+    console.log(
+      `  ${entry.queued_at}  ${entry.operation}  task=${entry.task_id}  error=${entry.last_error}`
+    );
+  }
+}
+
+/**
+ * `bldbl graph` - print the task dependency graph as Mermaid or DOT
+ */
+async function runGraphCommand(args: string[]): Promise<void> {
+  const format = getFlag(args, '--format') || 'mermaid';
+  if (format !== 'mermaid' && format !== 'dot') {
+    throw new Error(`Unknown format "${format}" (expected mermaid or dot)`);
+  }
+
+  const { config, options } = await resolveConfig({
+    profile: getFlag(args, '--profile'),
+  });
+  const client = createBackend(config, {
+    ...options,
+    enableRealTimeUpdates: false,
+    offlineQueue: false,
+    trackTime: false,
+    keepJournal: false,
+    trackGitChanges: false,
+  });
+  const graph = await client.getTaskGraph();
+  const rendered = `${renderTaskGraph(graph, format)}\n`;
+
+  const output = getFlag(args, '--output');
+  if (output) {
+    await fs.writeFile(output, rendered);
+    console.error(`Wrote ${graph.nodes.length} tasks to ${output}`);
+  } else {
+    process.stdout.write(rendered);
+  }
+
+  for (const cycle of graph.cycles) {
+    console.error(`Warning: dependency cycle ${cycle.join(' -> ')}`);
+  }
+  for (const { task_id, dependency } of graph.dangling) {
+    console.error(
+      `Warning: ${task_id} depends on ${dependency}, which doesn't exist`
+    );
+  }
+}
+
+/**
+ * `bldbl mock-server` - serve a fake Buildable API until interrupted
+ */
+async function runMockServerCommand(args: string[]): Promise<void> {
+  const port = Number(getFlag(args, '--port') || 4010);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${getFlag(args, '--port')}`);
+  }
+
+  const fixture = getFlag(args, '--fixture');
+  const projects = fixture
+    ? parseMockFixture(JSON.parse(await fs.readFile(fixture, 'utf8')))
+    : [DEMO_PROJECT];
+  const mock = await startMockServer({
+    projects,
+    host: getFlag(args, '--host') || '127.0.0.1',
+    port,
+  });
+  onShutdown(() => mock.stop());
+
+  console.log(`Mock Buildable API listening on ${mock.url}`);
+  for (const project of projects) {
+    console.log(
+      `\n  Project ${project.id} (${project.tasks?.length ?? 0} tasks)\n` +
+        `    BUILDABLE_API_URL=${mock.url} BUILDABLE_API_KEY=${mock.apiKey(
+          project.id
+        )} BUILDABLE_PROJECT_ID=${project.id}`
+    );
+  }
+  console.log('\nPress Ctrl+C to stop. State is kept in memory only.');
+}
+
+/**
+ * `bldbl init` - write a config file and print the MCP client snippet
+ */
+async function runInitCommand(args: string[]): Promise<void> {
+  const file = args.includes('--global')
+    ? GLOBAL_CONFIG_FILE
+    : path.resolve(PROJECT_CONFIG_FILE);
+  const profile = getFlag(args, '--profile');
+  const existing: ConfigFile = (await readConfigFile(file)) || {};
+
+  const current = profile ? existing.profiles?.[profile] : existing;
+  if (current?.apiKey && !args.includes('--force')) {
+    throw new Error(
+      `${file} already has ${
+        profile ? `a "${profile}" profile` : 'an API key'
+      }; pass --force to overwrite it`
+    );
+  }
+
+  const ask = await createAsker();
+  try {
+    const settings: ProfileSettings = {
+      apiKey:
+        getFlag(args, '--api-key') ||
+        (await ask('Buildable API key (bp_...)', '--api-key')),
+      projectId:
+        getFlag(args, '--project-id') ||
+        (await ask('Buildable project ID', '--project-id')),
+      aiAssistantId:
+        getFlag(args, '--ai-assistant-id') || current?.aiAssistantId,
+      apiUrl: getFlag(args, '--api-url') || current?.apiUrl,
+    };
+    if (settings.apiUrl === DEFAULT_API_URL) {
+      delete settings.apiUrl;
+    }
+
+    const updated: ConfigFile = profile
+      ? {
+          ...existing,
+          defaultProfile: existing.defaultProfile || profile,
+          profiles: {
+            ...existing.profiles,
+            [profile]: { ...existing.profiles?.[profile], ...settings },
+          },
+        }
+      : { ...existing, ...settings };
+    await writeConfigFile(file, updated);
+  } finally {
+    ask.close();
+  }
+
+  console.log(`Wrote ${file}`);
+  if (file !== GLOBAL_CONFIG_FILE) {
+    console.log(
+      `It contains your API key - add ${PROJECT_CONFIG_FILE} to .gitignore`
+    );
+  }
+
+  const env: Record<string, string> = { BUILDABLE_CONFIG: file };
+  if (profile) {
+    env.BUILDABLE_PROFILE = profile;
+  }
+  console.log(
+    [
+      '',
+      'Add this to claude_desktop_config.json (Claude Desktop) or .cursor/mcp.json (Cursor):',
+      '',
+      JSON.stringify(
+        {
+          mcpServers: {
+            buildable: { command: 'npx', args: ['-y', '@bldbl/mcp'], env },
+          },
+        },
+        null,
+        2
+      ),
+      '',
+      'Then run `bldbl doctor` to check the setup.',
+    ].join('\n')
+  );
+}
+
+/**
+ * Prompt for missing values on a terminal; fail with the flag to use
+ * otherwise
+ */
+async function createAsker(): Promise<
+  ((question: string, flag: string) => Promise<string>) & { close(): void }
+> {
+  const interactive = process.stdin.isTTY && process.stdout.isTTY;
+  const rl = interactive
+    ? (await import('node:readline/promises')).createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      })
+    : null;
+
+  const ask = async (question: string, flag: string): Promise<string> => {
+    if (!rl) {
+      throw new Error(`${question} is required; pass it with ${flag}`);
+    }
+    const answer = (await rl.question(`${question}: `)).trim();
+    if (!answer) {
+      throw new Error(`${question} is required`);
+    }
+    return answer;
+  };
+  return Object.assign(ask, { close: () => rl?.close() });
+}
+
+/**
+ * `bldbl doctor` - check the config against the API and explain failures
+ */
+async function runDoctorCommand(args: string[]): Promise<boolean> {
+  let resolved: ResolvedConfig;
+  try {
+    resolved = await resolveConfig({ profile: getFlag(args, '--profile') });
+  } catch (error) {
+    console.log(`✗ Config: ${(error as Error).message}`);
+    return false;
+  }
+
+  const diagnostics = await runDiagnostics(resolved);
+  const icons = { pass: '✓', warn: '!', fail: '✗' };
+  for (const diagnostic of diagnostics) {
+    console.log(
+      `${icons[diagnostic.status]} ${diagnostic.check}: ${diagnostic.message}`
+    );
+    if (diagnostic.hint) {
+      console.log(`    → ${diagnostic.hint}`);
+    }
+  }
+
+  return !diagnostics.some((d) => d.status === 'fail');
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index !== -1) {
+    return args[index + 1];
+  }
+
+  const prefixed = args.find((arg) => arg.startsWith(`${name}=`));
+  return prefixed?.substring(name.length + 1);
+}
+
+let shutdownHandler: (() => Promise<void>) | null = null;
+let processLogger: Logger | null = null;
+
+function onShutdown(handler: () => Promise<void>): void {
+  shutdownHandler = handler;
+}
+
+async function shutdown(signal: string): Promise<void> {
+  processLogger?.info('Shutting down', { signal });
+
+  // Don't let a hung API call keep the process alive
+  const timeout = setTimeout(() => process.exit(0), 5000);
+  timeout.unref();
+
+  try {
+    await shutdownHandler?.();
+  } catch (error) {
+    processLogger?.error('Error during shutdown', { error });
+  }
+  process.exit(0);
 }
 
 async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'sync') {
+    try {
+      await runSyncCommand(args);
+      process.exit(0);
+    } catch (error) {
+      console.error('bldbl sync failed:', error);
+      process.exit(1);
+    }
+  }
+
+  if (command === 'graph') {
+    try {
+      await runGraphCommand(args);
+      process.exit(0);
+    } catch (error) {
+      console.error(`bldbl graph failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === 'mock-server') {
+    try {
+      await runMockServerCommand(args);
+      return;
+    } catch (error) {
+      console.error(`bldbl mock-server failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === 'init') {
+    try {
+      await runInitCommand(args);
+      process.exit(0);
+    } catch (error) {
+      console.error(`bldbl init failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  if (command === 'doctor') {
+    const healthy = await runDoctorCommand(args);
+    process.exit(healthy ? 0 : 1);
+  }
+
+  const allArgs = process.argv.slice(2);
+  const transport =
+    getFlag(allArgs, '--transport') ||
+    process.env.BUILDABLE_MCP_TRANSPORT ||
+    'stdio';
+
   try {
-    const server = new BuildableMCPServer();
-    await server.run();
+    const { config, options } = await resolveConfig({
+      profile: getFlag(allArgs, '--profile'),
+    });
+    processLogger = new Logger({
+      level: options.logLevel,
+      file: options.logFile ?? DEFAULT_LOG_FILE,
+      secrets: [config.apiKey],
+    });
+    processLogger.info('Starting Buildable MCP server', {
+      transport,
+      project_id: config.projectId,
+      log_file: processLogger.file,
+    });
+    const serverOptions = { ...options, logger: processLogger };
+
+    if (transport === 'http') {
+      await runHttpServer(allArgs, config, serverOptions);
+    } else if (transport === 'stdio') {
+      const server = new BuildableMCPServer();
+      await server.run(config, serverOptions);
+    } else {
+      throw new Error(
+        `Unknown transport "${transport}" (expected stdio or http)`
+      );
+    }
   } catch (error) {
+    processLogger?.error('Fatal error starting Buildable MCP server', {
+      error,
+    });
+    // stderr is the only place the MCP client shows a failed start
     console.error('Fatal error starting Buildable MCP server:', error);
     process.exit(1);
   }
@@ -329,16 +2128,15 @@ async function main(): Promise<void> {
 
 // Handle graceful shutdown
 process.on('SIGINT', () => {
-  console.error('Received SIGINT, shutting down gracefully...');
-  process.exit(0);
+  void shutdown('SIGINT');
 });
 
 process.on('SIGTERM', () => {
-  console.error('Received SIGTERM, shutting down gracefully...');
-  process.exit(0);
+  void shutdown('SIGTERM');
 });
 
 main().catch((error) => {
+  processLogger?.error('Unhandled error', { error });
   console.error('Unhandled error:', error);
   process.exit(1);
 });
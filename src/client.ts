@@ -1,21 +1,135 @@
 import axios, { type AxiosError, type AxiosInstance } from 'axios';
+import path from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
+import type { z } from 'zod';
+import type { BuildableBackend } from './backend';
+import { ResponseCache } from './cache';
+import { runTaskChecks } from './checks';
+import { mergeReportedFiles } from './git';
+import {
+  BuildableError,
+  ConflictError,
+  errorForStatus,
+  NetworkError,
+  NotFoundError,
+  ResponseValidationError,
+  TimeoutError,
+} from './errors';
+import {
+  BuildableEventStream,
+  type BuildableEventHandler,
+  type BuildableEventOf,
+  type BuildableEventType,
+} from './events';
+import { buildTaskGraph, type TaskGraph } from './graph';
+import { Logger } from './logger';
+import { DEFAULT_QUEUE_DIR, OfflineQueue } from './queue';
+import {
+  aiConnectionListSchema,
+  blockTaskRequestSchema,
+  completeTaskResponseSchema,
+  discussionListSchema,
+  discussionResponseSchema,
+  discussionSchema,
+  failTaskRequestSchema,
+  healthResponseSchema,
+  leaseResponseSchema,
+  newTaskSchema,
+  nextTaskResponseSchema,
+  progressResponseSchema,
+  projectContextSchema,
+  releaseTaskRequestSchema,
+  splitTaskResponseSchema,
+  startTaskResponseSchema,
+  taskFieldsSchema,
+  taskResponseSchema,
+  taskTransitionResponseSchema,
+} from './schemas';
+import {
+  applyTaskChanges,
+  buildTask,
+  checkDependencies,
+  hasNextTaskFilters,
+  parseSplitRequest,
+  parseTaskFields,
+  planSplit,
+  queryTasks,
+  recommendNextTasks,
+  withoutExecutionFields,
+} from './tasks';
 import type {
-  APIError,
   BuildableConfig,
+  BlockTaskRequest,
+  BuildableEvent,
+  CacheStats,
   ClientOptions,
   CompleteTaskRequest,
   CompleteTaskResponse,
   CreateDiscussionRequest,
+  CreateTaskRequest,
+  Discussion,
   DiscussionResponse,
+  FailTaskRequest,
+  FlushResult,
+  GetTaskOptions,
+  GitChanges,
+  LeaseResponse,
+  ListDiscussionsOptions,
+  ListTasksOptions,
   MCPResponse,
+  NextTaskOptions,
   NextTaskResponse,
   ProgressResponse,
   ProgressUpdate,
+  ProjectConfig,
   ProjectContext,
+  QueuedRequest,
+  ReleaseTaskRequest,
+  RunChecksOptions,
+  SplitTaskRequest,
+  SplitTaskResponse,
   StartTaskOptions,
   StartTaskResponse,
+  SyncStatus,
+  TaskHandoff,
+  TaskList,
+  TaskResponse,
+  TaskStatus,
+  TaskSummary,
+  TaskTimeSession,
+  TaskTransitionResponse,
+  UpdateTaskRequest,
+  VerificationReport,
+  WaitForDiscussionOptions,
+  WaitForDiscussionResult,
 } from './types';
+import { TaskWorkspace } from './workspace';
+
+interface RequestOptions {
+  idempotencyKey?: string;
+  retryAttempts?: number; // Overrides ClientOptions.retryAttempts
+  cache?: boolean; // Serve GETs from the response cache
+  forceRefresh?: boolean; // Skip fresh cache entries, still revalidate by ETag
+  invalidatesCache?: boolean; // Drop this project's cached responses after
+  schema?: z.ZodTypeAny; // Expected response shape, see responseValidation
+  timeout?: number; // ms, overrides ClientOptions.timeout
+}
+
+// How long disconnect() waits for task titles before writing handoffs
+// from the journal alone
+const HANDOFF_CONTEXT_TIMEOUT = 2000;
+
+// Network-level failures that are worth retrying
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ERR_NETWORK',
+]);
 
 interface ConnectionData {
   ai_assistant_id: string;
@@ -24,22 +138,55 @@ interface ConnectionData {
   last_activity_at: string;
 }
 
-export class BuildableMCPClient {
+export class BuildableMCPClient implements BuildableBackend {
   private axios: AxiosInstance;
   private config: BuildableConfig;
   private options: ClientOptions;
   private aiAssistantId: string;
+  private eventStream: BuildableEventStream;
+  private queue: OfflineQueue | null = null;
+  private queueTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<FlushResult> | null = null;
+  private lastSyncAt: string | undefined;
+  private lastSyncError: string | undefined;
+  private claims = new Set<string>(); // Started tasks whose lease we renew
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeating: Promise<void> | null = null;
+  private workspace: TaskWorkspace; // Git snapshots, time and journal
+  private projectClients = new Map<string, BuildableMCPClient>();
+  private logger: Logger;
+  private cache: ResponseCache | null = null;
+  private taskStatusListeners = new Set<
+    (taskId: string, status: TaskStatus) => void
+  >();
 
   constructor(config: BuildableConfig, options: ClientOptions = {}) {
     this.config = config;
     this.options = {
       retryAttempts: 3,
       retryDelay: 1000,
+      maxRetryDelay: 30000,
       enableRealTimeUpdates: false,
+      offlineQueue: false,
+      queueFlushInterval: 30000,
+      trackGitChanges: true,
+      trackTime: true,
+      keepJournal: true,
       logLevel: 'info',
+      cacheTtl: 30000,
+      leaseTtl: 300000,
       ...options,
     };
 
+    this.logger = (
+      options.logger ||
+      new Logger({ level: this.options.logLevel, file: this.options.logFile })
+    ).child({ project_id: config.projectId });
+    this.logger.addSecret(config.apiKey);
+    for (const project of config.projects || []) {
+      this.logger.addSecret(project.apiKey);
+    }
+
     // Generate or use provided AI assistant ID
     this.aiAssistantId =
       config.aiAssistantId || `ai_${uuidv4().substring(0, 8)}`;
@@ -59,12 +206,44 @@ export class BuildableMCPClient {
     // Setup response interceptor for error handling
     this.axios.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
-        this.log('error', 'API request failed:', error.message);
-        return Promise.reject(this.formatError(error));
+      (error: AxiosError) => Promise.reject(this.formatError(error))
+    );
+
+    this.eventStream = new BuildableEventStream(
+      this.axios,
+      `/projects/${config.projectId}/events`,
+      {
+        reconnectDelay: this.options.retryDelay,
+        maxReconnectDelay: this.options.maxRetryDelay,
+        log: (level, message, ...args) => this.log(level, message, ...args),
       }
     );
 
+    if (this.options.cacheTtl && this.options.cacheTtl > 0) {
+      this.cache = new ResponseCache(this.options.cacheTtl);
+      // Someone else changed the project; connection events don't matter
+      this.eventStream.on('*', (event) => {
+        if (event.type !== 'connection_status') {
+          this.invalidateCache();
+        }
+      });
+    }
+
+    if (this.options.offlineQueue) {
+      this.queue = new OfflineQueue(
+        path.join(
+          this.options.queueDirectory || DEFAULT_QUEUE_DIR,
+          config.projectId
+        )
+      );
+    }
+
+    this.workspace = new TaskWorkspace(
+      config.projectId,
+      this.options,
+      (level, message, ...args) => this.log(level, message, ...args)
+    );
+
     this.log(
       'info',
       `Buildable MCP Client initialized for project ${config.projectId}`
@@ -72,15 +251,93 @@ export class BuildableMCPClient {
   }
 
   /**
-   * Get complete project context including plan, tasks, and recent activity
+   * The project this client works on
+   */
+  get projectId(): string {
+    return this.config.projectId;
+  }
+
+  /**
+   * Every project this client can reach, its own project first
+   */
+  listProjects(): ProjectConfig[] {
+    const projects: ProjectConfig[] = [{ id: this.config.projectId }];
+    for (const project of this.config.projects || []) {
+      const existing = projects.find((p) => p.id === project.id);
+      if (existing) {
+        Object.assign(existing, project);
+      } else {
+        projects.push({ ...project });
+      }
+    }
+    return projects;
+  }
+
+  /**
+   * Get a client bound to another configured project, using that
+   * project's API key if it has one. Clients are created once and reused;
+   * call connect() on a new one before using it for task work.
+   */
+  forProject(projectId: string): BuildableMCPClient {
+    if (projectId === this.config.projectId) {
+      return this;
+    }
+
+    const projects = this.listProjects();
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) {
+      throw new Error(
+        `Unknown project ${projectId}. Configured projects: ${projects
+          .map((p) => p.id)
+          .join(', ')}`
+      );
+    }
+
+    let client = this.projectClients.get(projectId);
+    if (!client) {
+      client = new BuildableMCPClient(
+        {
+          ...this.config,
+          projectId,
+          apiKey: project.apiKey || this.config.apiKey,
+          projects: projects.map((p) =>
+            p.id === this.config.projectId
+              ? { ...p, apiKey: p.apiKey || this.config.apiKey }
+              : p
+          ),
+        },
+        { ...this.options, logger: this.logger }
+      );
+      this.projectClients.set(projectId, client);
+    }
+    return client;
+  }
+
+  /**
+   * Get complete project context including plan, tasks, and recent activity.
+   * Served from the cache while fresh (see `cacheTtl`); `forceRefresh`
+   * always asks the API, which can still answer 304 Not Modified.
    */
-  async getProjectContext(): Promise<ProjectContext> {
+  async getProjectContext(
+    projectId?: string,
+    options: { forceRefresh?: boolean } = {}
+  ): Promise<ProjectContext> {
+    if (projectId && projectId !== this.config.projectId) {
+      return this.forProject(projectId).getProjectContext(undefined, options);
+    }
+
     this.log('debug', 'Fetching project context...');
 
     try {
       const response = await this.makeRequest<ProjectContext>(
         'GET',
-        `/projects/${this.config.projectId}/context`
+        `/projects/${this.config.projectId}/context`,
+        undefined,
+        {
+          cache: true,
+          forceRefresh: options.forceRefresh,
+          schema: projectContextSchema,
+        }
       );
 
       this.log('info', 'Successfully retrieved project context');
@@ -92,24 +349,81 @@ export class BuildableMCPClient {
   }
 
   /**
-   * Get the next recommended task to work on
+   * Tasks matching the filters, one page at a time, read from the (cached)
+   * project context
+   */
+  async listTasks(options: ListTasksOptions = {}): Promise<TaskList> {
+    const context = await this.getProjectContext();
+    return queryTasks(context.tasks.summary, options);
+  }
+
+  /**
+   * A single task. Without `full`, reference_impl, commands and
+   * rollback_plan are left out.
+   */
+  async getTask(
+    taskId: string,
+    options: GetTaskOptions = {}
+  ): Promise<TaskSummary> {
+    const context = await this.getProjectContext();
+    const task = context.tasks.summary.find((t) => t.id === taskId);
+    if (!task) {
+      throw new NotFoundError(
+        `Task ${taskId} not found in project ${this.config.projectId}`
+      );
+    }
+    return options.full ? task : withoutExecutionFields(task);
+  }
+
+  /**
+   * The task dependency graph: cycles, dangling dependencies, ready and
+   * blocked tasks and the critical path
    */
-  async getNextTask(): Promise<NextTaskResponse> {
+  async getTaskGraph(): Promise<TaskGraph> {
+    const context = await this.getProjectContext();
+    return buildTaskGraph(context.tasks.summary);
+  }
+
+  /**
+   * Get the next recommended task to work on. With `options` the answer
+   * also lists the best few candidates and why each fits; when the API
+   * doesn't rank them, they are picked here from the project context.
+   */
+  async getNextTask(
+    projectId?: string,
+    options: NextTaskOptions = {}
+  ): Promise<NextTaskResponse> {
+    if (projectId && projectId !== this.config.projectId) {
+      return this.forProject(projectId).getNextTask(undefined, options);
+    }
+    const filtered = hasNextTaskFilters(options);
+
     this.log('debug', 'Getting next recommended task...');
 
     try {
       const response = await this.makeRequest<NextTaskResponse>(
         'GET',
-        `/projects/${this.config.projectId}/next-task`
+        `/projects/${this.config.projectId}/next-task${
+          filtered ? nextTaskQuery(options) : ''
+        }`,
+        undefined,
+        { schema: nextTaskResponseSchema }
       );
 
-      if (response.data?.task) {
-        this.log('info', `Next task: "${response.data.task.title}"`);
+      let next = response.data!;
+      if (filtered && !next.candidates) {
+        this.log('debug', 'Ranking next-task candidates locally');
+        const context = await this.getProjectContext();
+        next = recommendNextTasks(context.tasks.summary, options);
+      }
+
+      if (next.task) {
+        this.log('info', `Next task: "${next.task.title}"`);
       } else {
-        this.log('info', 'No tasks available:', response.data?.message);
+        this.log('info', 'No tasks available:', next.message);
       }
 
-      return response.data!;
+      return next;
     } catch (error) {
       this.log('error', 'Failed to get next task:', error);
       throw error;
@@ -117,7 +431,10 @@ export class BuildableMCPClient {
   }
 
   /**
-   * Start working on a specific task
+   * Start working on a specific task and claim it. The claim is a lease of
+   * `leaseTtl` that a background heartbeat renews until the task is
+   * completed, blocked, released or failed; anyone else starting the task
+   * meanwhile gets a TaskClaimedError naming this assistant.
    */
   async startTask(
     taskId: string,
@@ -125,6 +442,8 @@ export class BuildableMCPClient {
   ): Promise<StartTaskResponse> {
     this.log('debug', `Starting task ${taskId}...`);
 
+    const snapshot = await this.workspace.captureWorkspace();
+
     try {
       const response = await this.makeRequest<StartTaskResponse>(
         'POST',
@@ -134,10 +453,17 @@ export class BuildableMCPClient {
           estimated_time_minutes: options.estimated_duration,
           notes: options.notes,
           approach: options.approach,
-        }
+          lease_seconds: this.options.leaseTtl! / 1000,
+        },
+        { invalidatesCache: true, schema: startTaskResponseSchema }
       );
 
       this.log('info', `Successfully started task ${taskId}`);
+      this.notifyTaskStatusChange(taskId, 'in_progress');
+      this.claim(taskId);
+
+      this.workspace.keepSnapshot(taskId, snapshot);
+      await this.workspace.withTimeTracker((tracker) => tracker.start(taskId));
 
       // Update connection status to 'working'
       await this.updateConnectionStatus('working', taskId);
@@ -161,28 +487,59 @@ export class BuildableMCPClient {
       `Updating progress for task ${taskId}: ${progress.progress}%`
     );
 
+    const gitChanges = await this.workspace.detectGitChanges(taskId);
+    const files = mergeReportedFiles(progress.files_modified, gitChanges);
+    const timeSpent =
+      progress.time_spent ?? (await this.workspace.trackedMinutes(taskId));
+
     try {
-      const response = await this.makeRequest<ProgressResponse>(
-        'POST',
+      const result = await this.sendMutation<ProgressResponse>(
+        'update_progress',
+        taskId,
         `/tasks/${taskId}/progress`,
         {
           completion_percentage: progress.progress,
-          files_created: progress.files_modified,
-          files_modified: progress.files_modified,
+          files_created: files.created,
+          files_modified: files.modified,
+          files_deleted: files.deleted,
+          git_changes: gitChanges ?? undefined,
           notes: progress.notes,
           blockers: progress.challenges,
-          time_spent_minutes: progress.time_spent,
+          time_spent_minutes: timeSpent,
           current_step: progress.current_step,
           completed_steps: progress.completed_steps,
-        }
+        },
+        progressResponseSchema,
+        (message) => ({
+          success: true,
+          queued: true,
+          message,
+          updated_at: new Date().toISOString(),
+          overall_progress: progress.progress,
+        })
+      );
+
+      if (gitChanges) {
+        result.git_changes = gitChanges;
+      }
+      await this.workspace.withJournal((journal) =>
+        journal.record(taskId, progress, [
+          ...files.created,
+          ...files.modified,
+          ...files.deleted,
+        ])
       );
 
+      if (result.queued) {
+        return result;
+      }
+
       this.log('info', `Progress updated: ${progress.progress}% complete`);
 
       // Update connection activity
       await this.updateConnectionStatus('working', taskId);
 
-      return response.data!;
+      return result;
     } catch (error) {
       this.log('error', `Failed to update progress for task ${taskId}:`, error);
       throw error;
@@ -198,27 +555,80 @@ export class BuildableMCPClient {
   ): Promise<CompleteTaskResponse> {
     this.log('debug', `Completing task ${taskId}...`);
 
+    const verification = completion.verification;
+    if (
+      completion.require_passing_checks &&
+      verification &&
+      !verification.passed
+    ) {
+      throw new Error(
+        `Refusing to complete task ${taskId}: ${
+          verification.status === 'unverified'
+            ? 'nothing could be verified'
+            : 'verification failed'
+        } (${verification.summary})`
+      );
+    }
+
+    const gitChanges = await this.workspace.detectGitChanges(taskId);
+    const files = mergeReportedFiles(completion.files_modified, gitChanges);
+    const timeSpent =
+      completion.time_spent ??
+      (await this.workspace.trackedMinutes(taskId)) ??
+      0;
+
     try {
-      const response = await this.makeRequest<CompleteTaskResponse>(
-        'POST',
+      const result = await this.sendMutation<CompleteTaskResponse>(
+        'complete_task',
+        taskId,
         `/tasks/${taskId}/complete`,
         {
-          files_created: completion.files_modified,
-          files_modified: completion.files_modified,
+          files_created: files.created,
+          files_modified: files.modified,
+          files_deleted: files.deleted,
+          git_changes: gitChanges ?? undefined,
+          commit_shas: gitChanges?.commits.map((commit) => commit.sha),
           completion_notes: completion.completion_notes,
-          time_spent_minutes: completion.time_spent,
-          verification_evidence: completion.testing_completed
-            ? 'Tests passed'
-            : undefined,
-        }
+          time_spent_minutes: timeSpent,
+          verification_evidence:
+            verification ??
+            (completion.testing_completed ? 'Tests passed' : undefined),
+          verification_passed: verification?.passed,
+        },
+        completeTaskResponseSchema,
+        (message) => ({
+          success: true,
+          queued: true,
+          message,
+          completed_at: new Date().toISOString(),
+          task_summary: {
+            title: taskId,
+            time_spent: timeSpent,
+            files_modified: [...files.created, ...files.modified],
+            impact: '',
+          },
+        })
       );
 
+      this.workspace.dropSnapshot(taskId);
+      this.unclaim(taskId);
+      await this.workspace.withTimeTracker((tracker) => tracker.finish(taskId));
+      await this.workspace.withJournal((journal) => journal.forget(taskId));
+      if (gitChanges) {
+        result.git_changes = gitChanges;
+      }
+
+      if (result.queued) {
+        return result;
+      }
+      this.notifyTaskStatusChange(taskId, 'completed');
+
       this.log('info', `Successfully completed task ${taskId}`);
 
       // Update connection status back to 'connected'
       await this.updateConnectionStatus('connected');
 
-      return response.data!;
+      return result;
     } catch (error) {
       this.log('error', `Failed to complete task ${taskId}:`, error);
       throw error;
@@ -226,207 +636,1361 @@ export class BuildableMCPClient {
   }
 
   /**
-   * Create a discussion/question for human input
+   * Stop working on a task until something outside it is sorted out. The
+   * blocker is discussed in `request.discussion_id`, or in a discussion
+   * the API opens with the reason. Starting the task again unblocks it.
    */
-  async createDiscussion(
-    discussion: CreateDiscussionRequest
-  ): Promise<DiscussionResponse> {
-    this.log('debug', `Creating discussion: "${discussion.topic}"`);
+  async blockTask(
+    taskId: string,
+    request: BlockTaskRequest
+  ): Promise<TaskTransitionResponse> {
+    this.log('debug', `Blocking task ${taskId}...`);
+
+    const { reason, discussion_id, urgency } = parseTaskFields(
+      blockTaskRequestSchema,
+      request
+    );
 
     try {
-      const response = await this.makeRequest<DiscussionResponse>(
+      const response = await this.makeRequest<TaskTransitionResponse>(
         'POST',
-        `/projects/${this.config.projectId}/discuss`,
+        `/tasks/${taskId}/block`,
         {
-          type: 'question',
-          title: discussion.topic,
-          message: discussion.message,
-          context: {
-            task_id: discussion.context?.current_task_id,
-            relevant_files: discussion.context?.related_files,
-            specific_challenge: discussion.context?.specific_challenge,
-            urgency: discussion.context?.urgency || 'medium',
-          },
-          urgency: discussion.context?.urgency || 'medium',
-          requires_human_response: true,
-          created_by: this.aiAssistantId,
-        }
+          ai_assistant_id: this.aiAssistantId,
+          reason,
+          discussion_id,
+          urgency,
+        },
+        { invalidatesCache: true, schema: taskTransitionResponseSchema }
       );
 
-      this.log('info', `Discussion created: ${response.data?.discussion_id}`);
+      this.log('info', `Blocked task ${taskId}: ${reason}`);
+      this.notifyTaskStatusChange(taskId, 'blocked');
+      // The claim stays, renewed while this session waits for an answer
+      await this.workspace.withTimeTracker((tracker) => tracker.pause(taskId));
+      await this.updateConnectionStatus('connected');
+
       return response.data!;
     } catch (error) {
-      this.log('error', 'Failed to create discussion:', error);
+      this.log('error', `Failed to block task ${taskId}:`, error);
       throw error;
     }
   }
 
   /**
-   * Check health/connectivity with Buildable API
+   * Hand a started task back to the pool, with notes for whoever picks it
+   * up next
    */
-  async healthCheck(): Promise<{ status: string; timestamp: string }> {
+  async releaseTask(
+    taskId: string,
+    request: ReleaseTaskRequest
+  ): Promise<TaskTransitionResponse> {
+    this.log('debug', `Releasing task ${taskId}...`);
+
+    const { handoff_notes } = parseTaskFields(
+      releaseTaskRequestSchema,
+      request
+    );
+    const timeSpent =
+      request.time_spent ?? (await this.workspace.trackedMinutes(taskId));
+
     try {
-      const response = await this.makeRequest<{
-        status: string;
-        timestamp: string;
-      }>('GET', '/health');
+      const response = await this.makeRequest<TaskTransitionResponse>(
+        'POST',
+        `/tasks/${taskId}/release`,
+        {
+          ai_assistant_id: this.aiAssistantId,
+          handoff_notes,
+          time_spent_minutes: timeSpent,
+        },
+        { invalidatesCache: true, schema: taskTransitionResponseSchema }
+      );
+
+      this.log('info', `Released task ${taskId}`);
+      this.notifyTaskStatusChange(taskId, 'pending');
+      this.workspace.dropSnapshot(taskId);
+      this.unclaim(taskId);
+      await this.workspace.withTimeTracker((tracker) => tracker.finish(taskId));
+      await this.updateConnectionStatus('connected');
 
-      this.log('debug', 'Health check passed');
       return response.data!;
     } catch (error) {
-      this.log('error', 'Health check failed:', error);
+      this.log('error', `Failed to release task ${taskId}:`, error);
       throw error;
     }
   }
 
   /**
-   * Connect to Buildable (create AI connection record)
+   * Give up on a task and record what went wrong. The result carries the
+   * task's rollback plan and the changes made since it was started, so
+   * the attempt can be undone.
    */
-  async connect(): Promise<void> {
-    this.log('info', 'Connecting to Buildable...');
+  async failTask(
+    taskId: string,
+    request: FailTaskRequest
+  ): Promise<TaskTransitionResponse> {
+    this.log('debug', `Failing task ${taskId}...`);
+
+    const { reason, details } = parseTaskFields(failTaskRequestSchema, request);
+    const gitChanges = await this.workspace.detectGitChanges(taskId);
+    const files = mergeReportedFiles(request.files_modified, gitChanges);
+    const timeSpent =
+      request.time_spent ?? (await this.workspace.trackedMinutes(taskId));
 
     try {
+      const response = await this.makeRequest<TaskTransitionResponse>(
+        'POST',
+        `/tasks/${taskId}/fail`,
+        {
+          ai_assistant_id: this.aiAssistantId,
+          reason,
+          details,
+          files_created: files.created,
+          files_modified: files.modified,
+          files_deleted: files.deleted,
+          git_changes: gitChanges ?? undefined,
+          time_spent_minutes: timeSpent,
+        },
+        { invalidatesCache: true, schema: taskTransitionResponseSchema }
+      );
+
+      const result = response.data!;
+      if (!result.rollback_plan && result.task.rollback_plan) {
+        result.rollback_plan = result.task.rollback_plan;
+      }
+      if (gitChanges) {
+        result.git_changes = gitChanges;
+      }
+
+      this.log('warn', `Task ${taskId} failed: ${reason}`);
+      this.notifyTaskStatusChange(taskId, 'failed');
+      this.workspace.dropSnapshot(taskId);
+      this.unclaim(taskId);
+      await this.workspace.withTimeTracker((tracker) => tracker.finish(taskId));
       await this.updateConnectionStatus('connected');
-      this.log('info', 'Successfully connected');
+
+      return result;
     } catch (error) {
-      this.log('warn', 'Failed to update connection status:', error);
-      // Don't throw - connection status is non-critical
+      this.log('error', `Failed to fail task ${taskId}:`, error);
+      throw error;
     }
   }
 
   /**
-   * Disconnect from Buildable (cleanup)
+   * Pause time tracking for a task, e.g. while waiting on a human
    */
-  async disconnect(): Promise<void> {
-    this.log('info', 'Disconnecting from Buildable...');
-
-    try {
-      await this.updateConnectionStatus('disconnected');
-      this.log('info', 'Successfully disconnected');
-    } catch (error) {
-      this.log('warn', 'Failed to update disconnect status:', error);
-      // Don't throw - disconnection should always succeed
+  async pauseTask(taskId: string): Promise<TaskTimeSession> {
+    const tracker = this.workspace.requireTimeTracker();
+    const session = await tracker.pause(taskId, 'user');
+    if (!session) {
+      throw new Error(`No time tracking session for task ${taskId}`);
     }
+
+    this.log('info', `Paused task ${taskId} at ${session.elapsed_minutes}min`);
+    await this.updateConnectionStatus('connected');
+    return session;
   }
 
   /**
-   * Get current AI assistant connection status
+   * Resume time tracking for a task. Starts a new session if the task was
+   * started somewhere this client can't see.
    */
-  async getConnectionStatus(): Promise<{
-    status: string;
-    connected_at: string;
-    last_activity_at: string;
-  }> {
-    try {
-      const response = await this.axios.get(
-        `/projects/${this.config.projectId}/ai-connections`
-      );
-      const connections = (response.data.connections || []) as ConnectionData[];
-      const myConnection = connections.find(
-        (conn) => conn.ai_assistant_id === this.aiAssistantId
-      );
+  async resumeTask(taskId: string): Promise<TaskTimeSession> {
+    const tracker = this.workspace.requireTimeTracker();
+    const session =
+      (await tracker.resume(taskId)) || (await tracker.start(taskId));
 
-      return (
-        myConnection || {
-          status: 'disconnected',
-          connected_at: '',
-          last_activity_at: '',
-        }
-      );
-    } catch (error) {
-      this.log('warn', 'Failed to get connection status:', error);
-      return { status: 'unknown', connected_at: '', last_activity_at: '' };
-    }
+    this.log('info', `Resumed task ${taskId}`);
+    await this.updateConnectionStatus('working', taskId);
+    return session;
   }
 
-  // Private helper methods
+  /**
+   * Time tracked so far for a task, or null if it isn't being tracked
+   */
+  async getTaskTime(taskId: string): Promise<TaskTimeSession | null> {
+    return this.workspace.getTaskTime(taskId);
+  }
 
-  private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-    url: string,
-    data?: Record<string, unknown>
-  ): Promise<MCPResponse<T>> {
-    const startTime = Date.now();
+  /**
+   * What a fresh session needs to pick a task back up: the task, where
+   * the journal says it stands, the handoff the last session left and
+   * the task's open discussions
+   */
+  async getTaskHandoff(taskId: string): Promise<TaskHandoff> {
+    const task = await this.getTask(taskId);
+    const openDiscussions = await this.listDiscussions({ task_id: taskId });
 
-    try {
-      const response = await this.axios.request({
-        method,
-        url,
-        data,
-      });
+    return this.workspace.handoff(task, openDiscussions);
+  }
 
-      const duration = Date.now() - startTime;
-      this.log('debug', `${method} ${url} completed in ${duration}ms`);
+  /**
+   * Run a task's commands and success checks in the local workspace and
+   * return a pass/fail evidence report to attach to completeTask
+   */
+  async runTaskChecks(
+    taskId: string,
+    options: RunChecksOptions = {}
+  ): Promise<VerificationReport> {
+    this.log('debug', `Running checks for task ${taskId}...`);
 
-      return {
-        success: true,
-        data: response.data,
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      this.log('error', `${method} ${url} failed after ${duration}ms`);
-      throw error;
+    const context = await this.getProjectContext();
+    const task = context.tasks.summary.find((t) => t.id === taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found in project`);
     }
+
+    const report = await runTaskChecks(task, {
+      ...options,
+      workspace: options.workspace || this.options.workspaceDir,
+    });
+
+    this.log(
+      report.passed ? 'info' : 'warn',
+      `Checks for task ${taskId}: ${report.summary}`
+    );
+    return report;
   }
 
-  private async updateConnectionStatus(
-    status: 'connected' | 'working' | 'disconnected',
-    currentTaskId?: string
-  ): Promise<void> {
+  /**
+   * Add a task to the plan. Its dependencies must be tasks of the project.
+   * With `require_approval` it stays 'proposed', out of getNextTask's
+   * reach, until a human approves it in the discussion the API opens.
+   */
+  async createTask(request: CreateTaskRequest): Promise<TaskResponse> {
+    const { require_approval, reason, ...fields } = request;
+    const task = parseTaskFields(newTaskSchema, fields);
+    this.log('debug', `Creating task "${task.title}"...`);
+
+    // Checked here too so a bad id fails before anything is written
+    const context = await this.getProjectContext(undefined, {
+      forceRefresh: true,
+    });
+    const draft = buildTask(`new task "${task.title}"`, task, 'pending');
+    checkDependencies([...context.tasks.summary, draft], [draft.id]);
+
     try {
-      // This endpoint doesn't exist yet, but it's for internal connection tracking
-      await this.axios.post('/internal/ai-connections', {
-        ai_assistant_id: this.aiAssistantId,
-        status,
-        current_task_id: currentTaskId,
-        metadata: {
-          client_version: '1.0.0',
-          capabilities: ['task_management', 'progress_tracking', 'discussions'],
-          last_activity: new Date().toISOString(),
+      const response = await this.makeRequest<TaskResponse>(
+        'POST',
+        `/projects/${this.config.projectId}/tasks`,
+        {
+          ...task,
+          require_approval: require_approval || false,
+          reason,
+          created_by: this.aiAssistantId,
         },
-      });
-    } catch (error) {
-      // Connection status updates are non-critical
-      this.log(
-        'debug',
-        'Connection status update failed (non-critical):',
-        error
+        { invalidatesCache: true, schema: taskResponseSchema }
       );
+
+      const created = response.data!.task;
+      this.log('info', `Created task ${created.id} (${created.status})`);
+      this.notifyTaskStatusChange(created.id, created.status);
+      return response.data!;
+    } catch (error) {
+      this.log('error', `Failed to create task "${task.title}":`, error);
+      throw error;
     }
   }
 
-  private formatError(error: AxiosError): APIError {
-    const apiError: APIError = {
-      error: error.message || 'Unknown API error',
-      timestamp: new Date().toISOString(),
-    };
+  /**
+   * Change a task's fields. Status changes go through startTask and
+   * completeTask instead; completed tasks can't be edited.
+   */
+  async updateTask(
+    taskId: string,
+    changes: UpdateTaskRequest
+  ): Promise<TaskResponse> {
+    const fields = parseTaskFields(taskFieldsSchema.partial(), changes);
+    this.log('debug', `Updating task ${taskId}...`);
 
-    if (error.response?.data) {
-      const responseData = error.response.data as Record<string, unknown>;
-      apiError.error =
-        (responseData.error as string) ||
-        (responseData.message as string) ||
-        apiError.error;
-      apiError.code = responseData.code as string;
-      apiError.details = responseData.details as Record<string, unknown>;
+    if (fields.dependencies) {
+      const context = await this.getProjectContext(undefined, {
+        forceRefresh: true,
+      });
+      const tasks = context.tasks.summary.map((t) =>
+        t.id === taskId ? applyTaskChanges(t, fields) : t
+      );
+      if (!tasks.some((t) => t.id === taskId)) {
+        throw new NotFoundError(
+          `Task ${taskId} not found in project ${this.config.projectId}`
+        );
+      }
+      checkDependencies(tasks, [taskId]);
     }
 
-    return apiError;
-  }
+    try {
+      const response = await this.makeRequest<TaskResponse>(
+        'PATCH',
+        `/tasks/${taskId}`,
+        { ...fields, updated_by: this.aiAssistantId },
+        { invalidatesCache: true, schema: taskResponseSchema }
+      );
 
-  private log(
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _level: 'debug' | 'info' | 'warn' | 'error',
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _message: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    ..._args: unknown[]
-  ): void {
-    // Disable all console output in MCP mode to prevent JSON-RPC pollution
-    // MCP servers should not output to stdout/stderr as it interferes with the protocol
-    return;
+      this.log('info', `Updated task ${taskId}`);
+      return response.data!;
+    } catch (error) {
+      this.log('error', `Failed to update task ${taskId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Break a task into smaller ones. The subtasks wait on the task's own
+   * dependencies and the task waits on all of them, so it is finished
+   * last and nothing that depended on it starts early.
+   */
+  async splitTask(
+    taskId: string,
+    request: SplitTaskRequest
+  ): Promise<SplitTaskResponse> {
+    const subtasks = parseSplitRequest(request);
+    this.log('debug', `Splitting task ${taskId} into ${subtasks.length}...`);
+
+    const context = await this.getProjectContext(undefined, {
+      forceRefresh: true,
+    });
+    const parent = context.tasks.summary.find((t) => t.id === taskId);
+    if (!parent) {
+      throw new NotFoundError(
+        `Task ${taskId} not found in project ${this.config.projectId}`
+      );
+    }
+    const ids = subtasks.map((_, i) => `${taskId} subtask ${i + 1}`);
+    const plan = planSplit(
+      parent,
+      { subtasks, sequential: request.sequential },
+      ids,
+      'pending'
+    );
+    checkDependencies(
+      [
+        ...context.tasks.summary.map((t) =>
+          t.id === taskId ? plan.parent : t
+        ),
+        ...plan.subtasks,
+      ],
+      [taskId, ...ids]
+    );
+
+    try {
+      const response = await this.makeRequest<SplitTaskResponse>(
+        'POST',
+        `/tasks/${taskId}/split`,
+        {
+          subtasks,
+          sequential: request.sequential || false,
+          require_approval: request.require_approval || false,
+          reason: request.reason,
+          created_by: this.aiAssistantId,
+        },
+        { invalidatesCache: true, schema: splitTaskResponseSchema }
+      );
+
+      const result = response.data!;
+      this.log(
+        'info',
+        `Split task ${taskId} into ${result.subtasks
+          .map((t) => t.id)
+          .join(', ')}`
+      );
+      this.notifyTaskStatusChange(taskId, result.task.status);
+      return result;
+    } catch (error) {
+      this.log('error', `Failed to split task ${taskId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a discussion/question for human input
+   */
+  async createDiscussion(
+    discussion: CreateDiscussionRequest
+  ): Promise<DiscussionResponse> {
+    this.log('debug', `Creating discussion: "${discussion.topic}"`);
+
+    try {
+      const response = await this.makeRequest<DiscussionResponse>(
+        'POST',
+        `/projects/${this.config.projectId}/discuss`,
+        {
+          type: 'question',
+          title: discussion.topic,
+          message: discussion.message,
+          context: {
+            task_id: discussion.context?.current_task_id,
+            relevant_files: discussion.context?.related_files,
+            specific_challenge: discussion.context?.specific_challenge,
+            urgency: discussion.context?.urgency || 'medium',
+          },
+          urgency: discussion.context?.urgency || 'medium',
+          requires_human_response: true,
+          created_by: this.aiAssistantId,
+        },
+        { schema: discussionResponseSchema }
+      );
+
+      this.log('info', `Discussion created: ${response.data?.discussion_id}`);
+      return response.data!;
+    } catch (error) {
+      this.log('error', 'Failed to create discussion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a discussion by id, including the human's response and any follow-ups
+   */
+  async getDiscussion(discussionId: string): Promise<Discussion> {
+    this.log('debug', `Fetching discussion ${discussionId}...`);
+
+    try {
+      const response = await this.makeRequest<Discussion>(
+        'GET',
+        `/projects/${this.config.projectId}/discussions/${discussionId}`,
+        undefined,
+        { schema: discussionSchema }
+      );
+
+      return response.data!;
+    } catch (error) {
+      this.log('error', `Failed to get discussion ${discussionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List discussions for the project, optionally narrowed to a task.
+   * Defaults to discussions that are not yet resolved.
+   */
+  async listDiscussions(
+    options: ListDiscussionsOptions = {}
+  ): Promise<Discussion[]> {
+    this.log('debug', 'Listing discussions...');
+
+    const params = new URLSearchParams({ status: options.status || 'open' });
+    if (options.task_id) {
+      params.set('task_id', options.task_id);
+    }
+
+    try {
+      const response = await this.makeRequest<{ discussions: Discussion[] }>(
+        'GET',
+        `/projects/${this.config.projectId}/discussions?${params}`,
+        undefined,
+        { schema: discussionListSchema }
+      );
+
+      return response.data?.discussions || [];
+    } catch (error) {
+      this.log('error', 'Failed to list discussions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait until a human responds to a discussion or the timeout elapses.
+   * Polls the API and, when real-time updates are running, wakes up early
+   * on a matching discussion_response event.
+   */
+  async waitForDiscussionResponse(
+    discussionId: string,
+    options: WaitForDiscussionOptions = {}
+  ): Promise<WaitForDiscussionResult> {
+    const timeout = options.timeout ?? 60000;
+    const pollInterval = options.pollInterval ?? 5000;
+    const deadline = Date.now() + timeout;
+
+    this.log(
+      'debug',
+      `Waiting up to ${timeout}ms for a response to discussion ${discussionId}`
+    );
+
+    let wake: (() => void) | null = null;
+    const off = this.eventStream.on('discussion_response', (event) => {
+      if (event.discussion_id === discussionId) {
+        wake?.();
+      }
+    });
+
+    try {
+      while (true) {
+        const discussion = await this.getDiscussion(discussionId);
+        if (discussion.status !== 'pending') {
+          return { discussion, timed_out: false };
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          return { discussion, timed_out: true };
+        }
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, Math.min(pollInterval, remaining));
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = null;
+      }
+    } finally {
+      off();
+    }
+  }
+
+  /**
+   * Post a follow-up message to an existing discussion
+   */
+  async replyToDiscussion(
+    discussionId: string,
+    message: string
+  ): Promise<Discussion> {
+    this.log('debug', `Replying to discussion ${discussionId}...`);
+
+    try {
+      const response = await this.makeRequest<Discussion>(
+        'POST',
+        `/projects/${this.config.projectId}/discussions/${discussionId}/messages`,
+        {
+          message,
+          author: this.aiAssistantId,
+          requires_human_response: true,
+        },
+        { schema: discussionSchema }
+      );
+
+      this.log('info', `Replied to discussion ${discussionId}`);
+      return response.data!;
+    } catch (error) {
+      this.log('error', `Failed to reply to discussion ${discussionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a discussion as resolved, optionally recording how it was resolved
+   */
+  async resolveDiscussion(
+    discussionId: string,
+    resolution?: string
+  ): Promise<Discussion> {
+    this.log('debug', `Resolving discussion ${discussionId}...`);
+
+    try {
+      const response = await this.makeRequest<Discussion>(
+        'POST',
+        `/projects/${this.config.projectId}/discussions/${discussionId}/resolve`,
+        {
+          resolution,
+          resolved_by: this.aiAssistantId,
+        },
+        { schema: discussionSchema }
+      );
+
+      this.log('info', `Discussion ${discussionId} resolved`);
+      return response.data!;
+    } catch (error) {
+      this.log('error', `Failed to resolve discussion ${discussionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check health/connectivity with Buildable API
+   */
+  async healthCheck(): Promise<{ status: string; timestamp: string }> {
+    try {
+      const response = await this.makeRequest<{
+        status: string;
+        timestamp: string;
+      }>('GET', '/health', undefined, { schema: healthResponseSchema });
+
+      this.log('debug', 'Health check passed');
+      return response.data!;
+    } catch (error) {
+      this.log('error', 'Health check failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Connect to Buildable (create AI connection record)
+   */
+  async connect(): Promise<void> {
+    this.log('info', 'Connecting to Buildable...');
+
+    try {
+      await this.updateConnectionStatus('connected');
+      this.log('info', 'Successfully connected');
+    } catch (error) {
+      this.log('warn', 'Failed to update connection status:', error);
+      // Don't throw - connection status is non-critical
+    }
+
+    if (this.options.enableRealTimeUpdates) {
+      this.eventStream.start();
+    }
+
+    if (this.queue && !this.queueTimer) {
+      this.queueTimer = setInterval(() => {
+        void this.flushQueue().catch(() => undefined);
+      }, this.options.queueFlushInterval);
+      this.queueTimer.unref();
+      void this.flushQueue().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Disconnect from Buildable (cleanup)
+   */
+  async disconnect(): Promise<void> {
+    this.log('info', 'Disconnecting from Buildable...');
+
+    for (const client of this.projectClients.values()) {
+      await client.disconnect();
+    }
+
+    this.eventStream.stop();
+
+    if (this.queueTimer) {
+      clearInterval(this.queueTimer);
+      this.queueTimer = null;
+    }
+
+    // Local bookkeeping first: the API may be why we are going away, and
+    // the process may not get to finish the calls below
+    await this.workspace.withTimeTracker((tracker) =>
+      tracker.pauseAll('disconnect')
+    );
+    await this.writeHandoffs();
+
+    // Let other assistants take over our tasks without waiting for the
+    // leases to run out
+    await this.releaseClaims();
+
+    try {
+      await this.updateConnectionStatus('disconnected');
+      this.log('info', 'Successfully disconnected');
+    } catch (error) {
+      this.log('warn', 'Failed to update disconnect status:', error);
+      // Don't throw - disconnection should always succeed
+    }
+  }
+
+  /**
+   * Subscribe to real-time events of one type, or all events with '*'.
+   * Events are only delivered while real-time updates are enabled and
+   * the client is connected. Returns a function that removes the handler.
+   */
+  on<K extends BuildableEventType>(
+    eventType: K,
+    handler: BuildableEventHandler<K>
+  ): () => void;
+  on(eventType: '*', handler: (event: BuildableEvent) => void): () => void;
+  on(
+    eventType: BuildableEventType | '*',
+    handler: (event: never) => void
+  ): () => void {
+    return this.eventStream.on(
+      eventType as '*',
+      handler as (event: BuildableEvent) => void
+    );
+  }
+
+  /**
+   * Async iterator over real-time events, ending on disconnect()
+   *
+   * @example
+   * ```typescript
+   * for await (const event of client.events('discussion_response')) {
+   *   console.log(event.response);
+   * }
+   * ```
+   */
+  events<K extends BuildableEventType>(
+    eventType?: K
+  ): AsyncGenerator<BuildableEventOf<K>> {
+    return this.eventStream.iterate(eventType);
+  }
+
+  /**
+   * Hit/miss counters of the response cache, null if caching is disabled
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null;
+  }
+
+  /**
+   * Drop every cached response so the next read goes to the API
+   */
+  invalidateCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Inspect the offline queue: pending and rejected entries, last replay
+   */
+  async getSyncStatus(): Promise<SyncStatus> {
+    if (!this.queue) {
+      return { enabled: false, pending: [], failed: [] };
+    }
+
+    return {
+      enabled: true,
+      directory: this.queue.path,
+      pending: await this.queue.list(),
+      failed: await this.queue.listFailed(),
+      last_sync_at: this.lastSyncAt,
+      last_error: this.lastSyncError,
+    };
+  }
+
+  /**
+   * Replay queued calls in order. Stops at the first entry that still
+   * can't reach the API; entries the API rejects are set aside as failed.
+   */
+  async flushQueue(): Promise<FlushResult> {
+    if (!this.queue) {
+      return { delivered: 0, failed: 0, remaining: 0 };
+    }
+
+    // Concurrent callers share one replay so entries are never sent twice
+    if (!this.flushing) {
+      this.flushing = this.replayQueue(this.queue).finally(() => {
+        this.flushing = null;
+      });
+    }
+
+    return this.flushing;
+  }
+
+  /**
+   * Register a listener for task status changes made through this client.
+   * Returns a function that removes the listener.
+   */
+  onTaskStatusChange(
+    listener: (taskId: string, status: TaskStatus) => void
+  ): () => void {
+    this.taskStatusListeners.add(listener);
+    return () => {
+      this.taskStatusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get current AI assistant connection status
+   */
+  async getConnectionStatus(): Promise<{
+    status: string;
+    connected_at: string;
+    last_activity_at: string;
+  }> {
+    try {
+      const url = `/projects/${this.config.projectId}/ai-connections`;
+      const response = await this.axios.get(url);
+      this.validateResponse(aiConnectionListSchema, 'GET', url, response.data);
+      const connections = (response.data.connections || []) as ConnectionData[];
+      const myConnection = connections.find(
+        (conn) => conn.ai_assistant_id === this.aiAssistantId
+      );
+
+      return (
+        myConnection || {
+          status: 'disconnected',
+          connected_at: '',
+          last_activity_at: '',
+        }
+      );
+    } catch (error) {
+      this.log('warn', 'Failed to get connection status:', error);
+      return { status: 'unknown', connected_at: '', last_activity_at: '' };
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Renew the lease on a started task every `heartbeatInterval` until it
+   * is completed, released or failed (a blocked task keeps it)
+   */
+  private claim(taskId: string): void {
+    this.claims.add(taskId);
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        if (!this.heartbeating) {
+          this.heartbeating = this.sendHeartbeats().finally(() => {
+            this.heartbeating = null;
+          });
+        }
+      }, this.options.heartbeatInterval || this.options.leaseTtl! / 3);
+      this.heartbeatTimer.unref();
+    }
+  }
+
+  private unclaim(taskId: string): void {
+    this.claims.delete(taskId);
+    if (this.claims.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async sendHeartbeats(): Promise<void> {
+    for (const taskId of this.claims) {
+      try {
+        await this.makeRequest<LeaseResponse>(
+          'POST',
+          `/tasks/${taskId}/heartbeat`,
+          {
+            ai_assistant_id: this.aiAssistantId,
+            lease_seconds: this.options.leaseTtl! / 1000,
+          },
+          { retryAttempts: 0, schema: leaseResponseSchema }
+        );
+      } catch (error) {
+        if (error instanceof ConflictError || error instanceof NotFoundError) {
+          // Taken over after the lease ran out, or no longer in progress
+          this.log('warn', `Lost the claim on task ${taskId}:`, error);
+          this.unclaim(taskId);
+        } else {
+          // Transient; the lease may still be renewed on the next beat
+          this.log('debug', `Heartbeat for task ${taskId} failed:`, error);
+        }
+      }
+    }
+  }
+
+  private async releaseClaims(): Promise<void> {
+    // Stop renewing first: a heartbeat that lands after the release would
+    // claim the task again
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    await this.heartbeating;
+
+    for (const taskId of [...this.claims]) {
+      try {
+        await this.makeRequest<LeaseResponse>(
+          'DELETE',
+          `/tasks/${taskId}/claim`,
+          undefined,
+          { retryAttempts: 0, schema: leaseResponseSchema }
+        );
+      } catch (error) {
+        this.log(
+          'warn',
+          `Failed to release the claim on task ${taskId}:`,
+          error
+        );
+      }
+      this.unclaim(taskId);
+    }
+  }
+
+  /**
+   * Leave a Markdown handoff for every task this session journaled.
+   * Titles come from the project context when it can still be read.
+   */
+  private async writeHandoffs(): Promise<void> {
+    if (!this.options.keepJournal) {
+      return;
+    }
+
+    // Titles and status, if the API answers straight away
+    const tasks = await this.makeRequest<ProjectContext>(
+      'GET',
+      `/projects/${this.config.projectId}/context`,
+      undefined,
+      {
+        cache: true,
+        retryAttempts: 0,
+        timeout: HANDOFF_CONTEXT_TIMEOUT,
+        schema: projectContextSchema,
+      }
+    ).then(
+      (response) => response.data!.tasks.summary,
+      () => []
+    );
+    await this.workspace.writeHandoffs(tasks);
+  }
+
+  private notifyTaskStatusChange(taskId: string, status: TaskStatus): void {
+    for (const listener of this.taskStatusListeners) {
+      try {
+        listener(taskId, status);
+      } catch (error) {
+        this.log('error', 'Task status listener threw:', error);
+      }
+    }
+  }
+
+  /**
+   * Send a progress/completion call, falling back to the offline queue
+   * when the API is unreachable. While older entries are still queued,
+   * new calls are queued behind them so the API sees them in order.
+   */
+  private async sendMutation<T>(
+    operation: QueuedRequest['operation'],
+    taskId: string,
+    url: string,
+    data: Record<string, unknown>,
+    schema: z.ZodTypeAny,
+    queuedResponse: (message: string) => T
+  ): Promise<T> {
+    if (!this.queue) {
+      const response = await this.makeRequest<T>('POST', url, data, {
+        invalidatesCache: true,
+        schema,
+      });
+      return response.data!;
+    }
+
+    const entry: QueuedRequest = {
+      id: uuidv4(),
+      operation,
+      task_id: taskId,
+      method: 'POST',
+      url,
+      data,
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+    };
+    const enqueue = async (): Promise<T> => {
+      await this.queue!.enqueue(entry);
+      this.log('warn', `Queued ${operation} for task ${taskId} (${entry.id})`);
+      return queuedResponse(
+        `Buildable API unreachable: ${operation} queued as ${entry.id} and will be delivered when connectivity returns`
+      );
+    };
+
+    if ((await this.queue.size()) > 0) {
+      const { remaining } = await this.flushQueue();
+      if (remaining > 0) {
+        return enqueue();
+      }
+    }
+
+    try {
+      const response = await this.makeRequest<T>('POST', url, data, {
+        idempotencyKey: entry.id,
+        invalidatesCache: true,
+        schema,
+      });
+      return response.data!;
+    } catch (error) {
+      if (!this.isRetryable(error)) {
+        throw error;
+      }
+
+      entry.attempts = (this.options.retryAttempts ?? 0) + 1;
+      entry.last_error = (error as Error).message;
+      this.lastSyncError = entry.last_error;
+      return enqueue();
+    }
+  }
+
+  private async replayQueue(queue: OfflineQueue): Promise<FlushResult> {
+    const entries = await queue.list();
+    let delivered = 0;
+    let failed = 0;
+
+    for (const entry of entries) {
+      try {
+        await this.makeRequest(entry.method, entry.url, entry.data, {
+          idempotencyKey: entry.id,
+          retryAttempts: 0,
+          invalidatesCache: true,
+        });
+        await queue.remove(entry.id);
+        delivered++;
+        this.log('info', `Replayed queued ${entry.operation} (${entry.id})`);
+        if (entry.operation === 'complete_task') {
+          this.notifyTaskStatusChange(entry.task_id, 'completed');
+        }
+      } catch (error) {
+        entry.attempts++;
+        entry.last_error = (error as Error).message;
+        this.lastSyncError = entry.last_error;
+
+        if (this.isRetryable(error)) {
+          await queue.update(entry);
+          this.log('debug', 'Buildable API still unreachable, replay paused');
+          break;
+        }
+
+        await queue.markFailed(entry);
+        failed++;
+        this.log(
+          'error',
+          `Queued ${entry.operation} (${entry.id}) rejected by API:`,
+          entry.last_error
+        );
+      }
+    }
+
+    const remaining = await queue.size();
+    if (remaining === 0) {
+      this.lastSyncAt = new Date().toISOString();
+      this.lastSyncError = undefined;
+    }
+
+    return { delivered, failed, remaining };
+  }
+
+  private async makeRequest<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    url: string,
+    data?: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<MCPResponse<T>> {
+    const startTime = Date.now();
+    const maxAttempts =
+      (options.retryAttempts ?? this.options.retryAttempts ?? 0) + 1;
+
+    const cacheKey =
+      method === 'GET' && options.cache && this.cache ? url : null;
+    if (cacheKey && !options.forceRefresh) {
+      const cached = this.cache!.getFresh<T>(cacheKey);
+      if (cached !== undefined) {
+        this.logger.debug('Served from cache', { method, url });
+        return {
+          success: true,
+          data: cached,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    }
+    const cacheVersion = this.cache?.version();
+
+    // One key per logical request, reused across retries so the API can
+    // recognise and drop duplicates of a mutation that already applied
+    const headers: Record<string, string> = {};
+    if (method === 'POST') {
+      headers['Idempotency-Key'] = options.idempotencyKey || uuidv4();
+    }
+
+    const etag = cacheKey ? this.cache!.getEtag(cacheKey) : undefined;
+    if (etag) {
+      headers['If-None-Match'] = etag;
+    }
+
+    // Sent to the API too, so a log line can be matched to its server side
+    const requestId = uuidv4();
+    headers['X-Request-ID'] = requestId;
+    const log = this.logger.child({ request_id: requestId, method, url });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const response = await this.axios.request({
+            method,
+            url,
+            data,
+            headers,
+            ...(options.timeout && { timeout: options.timeout }),
+            ...(etag && {
+              validateStatus: (status: number) =>
+                (status >= 200 && status < 300) || status === 304,
+            }),
+          });
+
+          log.debug('API request completed', {
+            status: response.status,
+            duration_ms: Date.now() - startTime,
+            attempts: attempt,
+          });
+
+          if (response.status !== 304) {
+            this.validateResponse(
+              options.schema,
+              method,
+              url,
+              response.data,
+              requestId
+            );
+          }
+
+          if (cacheKey && response.status === 304) {
+            const cached = this.cache!.revalidate<T>(cacheKey);
+            if (cached !== undefined) {
+              return {
+                success: true,
+                data: cached,
+                timestamp: new Date().toISOString(),
+              };
+            }
+            // Invalidated while the request was in flight
+            return this.makeRequest<T>(method, url, data, {
+              ...options,
+              forceRefresh: true,
+            });
+          }
+          if (cacheKey) {
+            this.cache!.set(
+              cacheKey,
+              response.data,
+              response.headers.etag as string | undefined,
+              cacheVersion
+            );
+          }
+
+          return {
+            success: true,
+            data: response.data,
+            timestamp: new Date().toISOString(),
+          };
+        } catch (error) {
+          if (error instanceof ResponseValidationError) {
+            throw error;
+          }
+          const apiError = error as BuildableError;
+
+          if (attempt < maxAttempts && this.isRetryable(apiError)) {
+            const delay = this.getRetryDelay(attempt, apiError);
+            log.warn('API request failed, retrying', {
+              status: apiError.status,
+              code: apiError.code,
+              error: apiError.message,
+              attempt,
+              max_attempts: maxAttempts,
+              retry_in_ms: delay,
+            });
+            await sleep(delay);
+            continue;
+          }
+
+          log.error('API request failed', {
+            status: apiError.status,
+            code: apiError.code,
+            error: apiError.message,
+            duration_ms: Date.now() - startTime,
+            attempts: attempt,
+          });
+          throw error;
+        }
+      }
+    } finally {
+      // Whether or not it applied, cached data may now be out of date
+      if (options.invalidatesCache) {
+        this.invalidateCache();
+      }
+    }
+  }
+
+  /**
+   * Check a response body against its schema. 'strict' throws a
+   * ResponseValidationError, 'lenient' logs the mismatch and carries on.
+   * Either way the body is returned unchanged, unknown fields included.
+   */
+  private validateResponse(
+    schema: z.ZodTypeAny | undefined,
+    method: string,
+    url: string,
+    data: unknown,
+    requestId?: string
+  ): void {
+    const mode = this.options.responseValidation || 'strict';
+    if (!schema || mode === 'off') {
+      return;
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return;
+    }
+
+    const error = new ResponseValidationError(
+      method,
+      url,
+      result.error.issues,
+      requestId
+    );
+    if (mode === 'strict') {
+      this.logger.error('Response failed validation', {
+        method,
+        url,
+        issues: error.issues,
+      });
+      throw error;
+    }
+    this.logger.warn('Response failed validation, using it anyway', {
+      method,
+      url,
+      issues: error.issues,
+    });
+  }
+
+  /**
+   * Only network errors, 5xx responses and rate limiting are retried.
+   * Any other 4xx means the request itself is wrong and would fail again.
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!(error instanceof BuildableError)) {
+      return false;
+    }
+    if (error.status === undefined) {
+      return (
+        error.code !== undefined && RETRYABLE_NETWORK_CODES.has(error.code)
+      );
+    }
+
+    return error.status === 429 || error.status >= 500;
+  }
+
+  /**
+   * Exponential backoff with full jitter, unless the server told us how long
+   * to wait via Retry-After.
+   */
+  private getRetryDelay(attempt: number, error: BuildableError): number {
+    const maxDelay = this.options.maxRetryDelay ?? 30000;
+
+    if (error.retryAfter !== undefined) {
+      return Math.min(error.retryAfter, maxDelay);
+    }
+
+    const base = this.options.retryDelay ?? 1000;
+    const ceiling = Math.min(base * 2 ** (attempt - 1), maxDelay);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  private async updateConnectionStatus(
+    status: 'connected' | 'working' | 'disconnected',
+    currentTaskId?: string
+  ): Promise<void> {
+    try {
+      // This endpoint doesn't exist yet, but it's for internal connection tracking
+      await this.makeRequest(
+        'POST',
+        '/internal/ai-connections',
+        {
+          ai_assistant_id: this.aiAssistantId,
+          status,
+          current_task_id: currentTaskId,
+          metadata: {
+            client_version: '1.0.0',
+            capabilities: [
+              'task_management',
+              'progress_tracking',
+              'discussions',
+            ],
+            last_activity: new Date().toISOString(),
+          },
+        },
+        { retryAttempts: 0 }
+      );
+    } catch (error) {
+      // Connection status updates are non-critical
+      this.log(
+        'debug',
+        'Connection status update failed (non-critical):',
+        error
+      );
+    }
+  }
+
+  private formatError(error: AxiosError): BuildableError {
+    const requestId =
+      (error.response?.headers?.['x-request-id'] as string | undefined) ||
+      (error.config?.headers?.['X-Request-ID'] as string | undefined);
+
+    if (!error.response) {
+      const options = { code: error.code, requestId };
+      const url = `${this.config.apiUrl}${error.config?.url ?? ''}`;
+      if (
+        error.code === 'ETIMEDOUT' ||
+        (error.code === 'ECONNABORTED' && /timeout/i.test(error.message))
+      ) {
+        return new TimeoutError(
+          `Request to ${url} timed out after ${error.config?.timeout ?? 0}ms`,
+          options
+        );
+      }
+      return new NetworkError(
+        `Could not reach ${url}: ${error.message || error.code}`,
+        options
+      );
+    }
+
+    const responseData = (error.response.data || {}) as Record<string, unknown>;
+    return errorForStatus(
+      error.response.status,
+      (responseData.error as string) ||
+        (responseData.message as string) ||
+        error.message ||
+        'Unknown API error',
+      {
+        code: (responseData.code as string) || error.code,
+        requestId,
+        retryAfter: parseRetryAfter(error.response.headers?.['retry-after']),
+        details: responseData.details as Record<string, unknown>,
+      }
+    );
+  }
+
+  private log(
+    level: 'debug' | 'info' | 'warn' | 'error',
+    message: string,
+    ...args: unknown[]
+  ): void {
+    // Never the console: stdout and stderr belong to the MCP transport
+    this.logger.log(
+      level,
+      message,
+      args.length === 0
+        ? undefined
+        : { detail: args.length === 1 ? args[0] : args }
+    );
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Next-task options as query parameters, for APIs that rank candidates
+ */
+function nextTaskQuery(options: NextTaskOptions): string {
+  const params = new URLSearchParams();
+  if (options.skills?.length) {
+    params.set('skills', options.skills.join(','));
+  }
+  if (options.max_difficulty) {
+    params.set('max_difficulty', options.max_difficulty);
+  }
+  if (options.token_budget !== undefined) {
+    params.set('token_budget', String(options.token_budget));
+  }
+  if (options.exclude_task_ids?.length) {
+    params.set('exclude', options.exclude_task_ids.join(','));
+  }
+  if (options.limit !== undefined) {
+    params.set('limit', String(options.limit));
   }
+  return `?${params}`;
 }
 
 // Export default instance creator
@@ -0,0 +1,406 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import type { BuildableConfig, ClientOptions } from './types';
+
+export const PROJECT_CONFIG_FILE = '.bldblrc.json';
+export const GLOBAL_CONFIG_FILE = path.join(
+  os.homedir(),
+  '.config',
+  'bldbl',
+  'config.json'
+);
+export const DEFAULT_API_URL = 'https://bldbl.dev/api';
+export const DEFAULT_AI_ASSISTANT_ID = 'cursor-ide';
+
+const logLevelSchema = z.enum(['debug', 'info', 'warn', 'error']);
+
+/**
+ * Settings a config file, a profile or the environment can provide. Every
+ * field is optional; later layers override earlier ones.
+ */
+export const profileSchema = z
+  .object({
+    apiUrl: z.string().url().optional(),
+    apiKey: z.string().min(1).optional(),
+    projectId: z.string().min(1).optional(),
+    aiAssistantId: z.string().min(1).optional(),
+    timeout: z.number().int().positive().optional(),
+    projects: z
+      .array(
+        z
+          .object({
+            id: z.string().min(1),
+            apiKey: z.string().min(1).optional(),
+            name: z.string().optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    logLevel: logLevelSchema.optional(),
+    logFile: z.union([z.string().min(1), z.literal(false)]).optional(),
+    realTime: z.boolean().optional(),
+    offlineQueue: z.boolean().optional(),
+    queueDir: z.string().optional(),
+    workspace: z.string().optional(),
+    sessionDir: z.string().optional(),
+    cacheTtl: z.number().int().nonnegative().optional(),
+    leaseTtl: z.number().int().positive().optional(),
+    responseValidation: z.enum(['strict', 'lenient', 'off']).optional(),
+    backend: z.enum(['api', 'local']).optional(),
+    localDir: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * `.bldblrc.json` / `~/.config/bldbl/config.json`: top-level settings apply
+ * to every profile, `profiles` holds named overrides
+ */
+export const configFileSchema = profileSchema
+  .extend({
+    $schema: z.string().optional(),
+    defaultProfile: z.string().optional(),
+    profiles: z.record(profileSchema).optional(),
+  })
+  .strict();
+
+export type ProfileSettings = z.infer<typeof profileSchema>;
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+export interface ResolveConfigOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  profile?: string; // Overrides BUILDABLE_PROFILE and defaultProfile
+}
+
+export interface ResolvedConfig {
+  config: BuildableConfig;
+  options: ClientOptions;
+  profile?: string;
+  sources: string[]; // Where settings came from, lowest precedence first
+}
+
+/**
+ * Look for `.bldblrc.json` in `cwd` and its parents
+ */
+export async function findProjectConfigFile(
+  cwd: string
+): Promise<string | null> {
+  let dir = path.resolve(cwd);
+
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Keep walking up
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a config file; null if it doesn't exist
+ */
+export async function readConfigFile(file: string): Promise<ConfigFile | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const parsed = configFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid config in ${file}:\n${formatIssues(parsed.error)}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Write a config file readable only by the current user, since it usually
+ * holds an API key
+ */
+export async function writeConfigFile(
+  file: string,
+  config: ConfigFile
+): Promise<void> {
+  const data = configFileSchema.parse(config);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`, {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+}
+
+/**
+ * Settings from BUILDABLE_* environment variables
+ */
+export function settingsFromEnv(env: NodeJS.ProcessEnv): ProfileSettings {
+  const settings: Record<string, unknown> = {
+    apiUrl: env.BUILDABLE_API_URL,
+    apiKey: env.BUILDABLE_API_KEY,
+    projectId: env.BUILDABLE_PROJECT_ID,
+    aiAssistantId: env.BUILDABLE_AI_ASSISTANT_ID,
+    logLevel: env.BUILDABLE_LOG_LEVEL,
+    logFile:
+      env.BUILDABLE_LOG_FILE && /^(false|off)$/i.test(env.BUILDABLE_LOG_FILE)
+        ? false
+        : env.BUILDABLE_LOG_FILE,
+    realTime: parseBoolean(env.BUILDABLE_REAL_TIME),
+    offlineQueue: parseBoolean(env.BUILDABLE_OFFLINE_QUEUE),
+    queueDir: env.BUILDABLE_QUEUE_DIR,
+    workspace: env.BUILDABLE_WORKSPACE,
+    sessionDir: env.BUILDABLE_SESSION_DIR,
+    cacheTtl: parseNumber(env.BUILDABLE_CACHE_TTL),
+    leaseTtl: parseNumber(env.BUILDABLE_LEASE_TTL),
+    responseValidation: env.BUILDABLE_RESPONSE_VALIDATION,
+    backend: env.BUILDABLE_BACKEND,
+    localDir: env.BUILDABLE_LOCAL_DIR,
+  };
+
+  // Extra projects: comma-separated `id` or `id=apiKey` entries
+  if (env.BUILDABLE_PROJECTS) {
+    settings.projects = env.BUILDABLE_PROJECTS.split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [id, apiKey] = entry.split('=');
+        return { id: id.trim(), apiKey: apiKey?.trim() || undefined };
+      });
+  }
+
+  // Empty variables count as unset
+  for (const key of Object.keys(settings)) {
+    if (settings[key] === undefined || settings[key] === '') {
+      delete settings[key];
+    }
+  }
+
+  const parsed = profileSchema.safeParse(settings);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid environment variables:\n${formatIssues(parsed.error, ENV_NAMES)}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Work out the client config from, lowest precedence first: the global
+ * config file, the project's `.bldblrc.json` (or BUILDABLE_CONFIG), the
+ * selected profile of each, and BUILDABLE_* environment variables.
+ */
+export async function resolveConfig(
+  options: ResolveConfigOptions = {}
+): Promise<ResolvedConfig> {
+  const env = options.env || process.env;
+  const cwd = options.cwd || process.cwd();
+
+  const files: { file: string; config: ConfigFile }[] = [];
+  const projectFile = env.BUILDABLE_CONFIG
+    ? path.resolve(cwd, env.BUILDABLE_CONFIG)
+    : await findProjectConfigFile(cwd);
+
+  for (const file of [GLOBAL_CONFIG_FILE, projectFile]) {
+    if (!file) {
+      continue;
+    }
+    const config = await readConfigFile(file);
+    if (config) {
+      files.push({ file, config });
+    } else if (file === projectFile && env.BUILDABLE_CONFIG) {
+      throw new Error(
+        `BUILDABLE_CONFIG points to ${file}, which doesn't exist`
+      );
+    }
+  }
+
+  // Explicit choice first, then the most specific file's default
+  const profile =
+    options.profile ||
+    env.BUILDABLE_PROFILE ||
+    [...files].reverse().find((f) => f.config.defaultProfile)?.config
+      .defaultProfile;
+
+  if (profile && !files.some((f) => f.config.profiles?.[profile])) {
+    const available = [
+      ...new Set(files.flatMap((f) => Object.keys(f.config.profiles || {}))),
+    ];
+    throw new Error(
+      `Profile "${profile}" is not defined in ${
+        files.map((f) => f.file).join(' or ') || 'any config file'
+      }${available.length > 0 ? `. Available: ${available.join(', ')}` : ''}`
+    );
+  }
+
+  let settings: ProfileSettings = {};
+  const sources: string[] = [];
+  for (const { file, config } of files) {
+    settings = {
+      ...settings,
+      ...resolvePaths(withoutFileKeys(config), path.dirname(file)),
+    };
+    const selected = profile ? config.profiles?.[profile] : undefined;
+    if (selected) {
+      settings = {
+        ...settings,
+        ...resolvePaths(selected, path.dirname(file)),
+      };
+    }
+    sources.push(selected ? `${file} (profile "${profile}")` : file);
+  }
+
+  const fromEnv = settingsFromEnv(env);
+  if (Object.keys(fromEnv).length > 0) {
+    settings = { ...settings, ...fromEnv };
+    sources.push('environment');
+  }
+
+  // The local backend reads files, so it needs neither key nor project
+  const local = settings.backend === 'local';
+  if (!settings.apiKey && !local) {
+    throw new Error(
+      'No API key configured. Set BUILDABLE_API_KEY or run `bldbl init`'
+    );
+  }
+  if (!settings.projectId && !local) {
+    throw new Error(
+      'No project configured. Set BUILDABLE_PROJECT_ID or run `bldbl init`'
+    );
+  }
+
+  return {
+    config: {
+      apiUrl: settings.apiUrl || DEFAULT_API_URL,
+      apiKey: settings.apiKey || '',
+      projectId: settings.projectId || path.basename(settings.workspace || cwd),
+      projects: settings.projects,
+      aiAssistantId: settings.aiAssistantId || DEFAULT_AI_ASSISTANT_ID,
+      timeout: settings.timeout,
+    },
+    options: {
+      logLevel: settings.logLevel || 'info',
+      logFile: settings.logFile,
+      enableRealTimeUpdates: settings.realTime ?? false,
+      offlineQueue: settings.offlineQueue ?? false,
+      queueDirectory: settings.queueDir,
+      workspaceDir: settings.workspace,
+      sessionDirectory: settings.sessionDir,
+      cacheTtl: settings.cacheTtl,
+      leaseTtl: settings.leaseTtl,
+      responseValidation: settings.responseValidation,
+      backend: settings.backend,
+      localDirectory: settings.localDir,
+    },
+    profile,
+    sources,
+  };
+}
+
+const ENV_NAMES: Record<string, string> = {
+  apiUrl: 'BUILDABLE_API_URL',
+  apiKey: 'BUILDABLE_API_KEY',
+  projectId: 'BUILDABLE_PROJECT_ID',
+  aiAssistantId: 'BUILDABLE_AI_ASSISTANT_ID',
+  logLevel: 'BUILDABLE_LOG_LEVEL',
+  logFile: 'BUILDABLE_LOG_FILE',
+  realTime: 'BUILDABLE_REAL_TIME',
+  offlineQueue: 'BUILDABLE_OFFLINE_QUEUE',
+  queueDir: 'BUILDABLE_QUEUE_DIR',
+  workspace: 'BUILDABLE_WORKSPACE',
+  sessionDir: 'BUILDABLE_SESSION_DIR',
+  projects: 'BUILDABLE_PROJECTS',
+  cacheTtl: 'BUILDABLE_CACHE_TTL',
+  leaseTtl: 'BUILDABLE_LEASE_TTL',
+  responseValidation: 'BUILDABLE_RESPONSE_VALIDATION',
+  backend: 'BUILDABLE_BACKEND',
+  localDir: 'BUILDABLE_LOCAL_DIR',
+};
+
+function formatIssues(
+  error: z.ZodError,
+  names: Record<string, string> = {}
+): string {
+  return error.issues
+    .map((issue) => {
+      const [first, ...rest] = issue.path.map(String);
+      const field = [names[first] || first, ...rest].join('.');
+      return `  - ${field || '(root)'}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+function parseBoolean(value: string | undefined): boolean | string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (/^(true|1|yes)$/i.test(value)) {
+    return true;
+  }
+  if (/^(false|0|no)$/i.test(value)) {
+    return false;
+  }
+  // Left as a string so validation reports it
+  return value;
+}
+
+function parseNumber(value: string | undefined): number | string | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+function withoutFileKeys(config: ConfigFile): ProfileSettings {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { $schema, defaultProfile, profiles, ...settings } = config;
+  return settings;
+}
+
+/**
+ * Directories in a config file are relative to the file, not to wherever
+ * the server happens to be started from
+ */
+function resolvePaths(
+  settings: ProfileSettings,
+  baseDir: string
+): ProfileSettings {
+  const resolved = { ...settings };
+  for (const key of [
+    'queueDir',
+    'workspace',
+    'sessionDir',
+    'logFile',
+    'localDir',
+  ] as const) {
+    const value = resolved[key];
+    if (typeof value === 'string') {
+      resolved[key] = path.resolve(
+        baseDir,
+        value.replace(/^~(?=$|\/)/, os.homedir())
+      );
+    }
+  }
+  return resolved;
+}
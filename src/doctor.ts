@@ -0,0 +1,226 @@
+import { BuildableMCPClient } from './client';
+import type { ResolvedConfig } from './config';
+import {
+  AuthenticationError,
+  BuildableError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+} from './errors';
+import { LocalBackend } from './local-backend';
+
+export interface Diagnostic {
+  check: string;
+  status: 'pass' | 'warn' | 'fail';
+  message: string;
+  hint?: string; // What to do about a warning or failure
+}
+
+const API_KEY_PATTERN = /^bp_[A-Za-z0-9_-]+$/;
+const CLOCK_SKEW_WARN_MS = 30 * 1000;
+const CLOCK_SKEW_FAIL_MS = 5 * 60 * 1000;
+
+/**
+ * Check a resolved config end to end: key format, API reachability, clock
+ * skew against the server and access to every configured project.
+ * Read-only - no connection record is created.
+ */
+export async function runDiagnostics(
+  resolved: ResolvedConfig
+): Promise<Diagnostic[]> {
+  const { config } = resolved;
+  const loaded: Diagnostic = {
+    check: 'Config',
+    status: 'pass',
+    message: `Loaded from ${resolved.sources.join(', ') || 'defaults'}`,
+  };
+  if (resolved.options.backend === 'local') {
+    return [loaded, await checkLocalStore(resolved)];
+  }
+
+  const diagnostics: Diagnostic[] = [
+    loaded,
+    checkApiKey('API key', config.apiKey),
+  ];
+
+  for (const project of config.projects || []) {
+    if (project.apiKey) {
+      diagnostics.push(checkApiKey(`API key (${project.id})`, project.apiKey));
+    }
+  }
+
+  // Fail fast: one attempt per call, nothing persisted locally
+  const client = new BuildableMCPClient(config, {
+    retryAttempts: 0,
+    offlineQueue: false,
+    trackGitChanges: false,
+    trackTime: false,
+    keepJournal: false,
+  });
+
+  const health = await checkHealth(client, config.apiUrl);
+  diagnostics.push(...health);
+  if (health.some((d) => d.status === 'fail')) {
+    return diagnostics;
+  }
+
+  for (const project of client.listProjects()) {
+    diagnostics.push(await checkProject(client, project.id));
+  }
+
+  return diagnostics;
+}
+
+function checkApiKey(check: string, apiKey: string): Diagnostic {
+  if (apiKey !== apiKey.trim()) {
+    return {
+      check,
+      status: 'fail',
+      message: 'Contains leading or trailing whitespace',
+      hint: 'Remove the spaces or newline around the key',
+    };
+  }
+  if (!API_KEY_PATTERN.test(apiKey)) {
+    return {
+      check,
+      status: 'fail',
+      message: 'Does not look like a Buildable API key',
+      hint: 'Keys start with "bp_". Generate one under Project Settings → AI Assistants on bldbl.dev',
+    };
+  }
+  return {
+    check,
+    status: 'pass',
+    message: `${apiKey.substring(0, 6)}… (${apiKey.length} characters)`,
+  };
+}
+
+async function checkHealth(
+  client: BuildableMCPClient,
+  apiUrl: string
+): Promise<Diagnostic[]> {
+  const sentAt = Date.now();
+  let health: { status: string; timestamp: string };
+  try {
+    health = await client.healthCheck();
+  } catch (error) {
+    return [
+      {
+        check: 'API',
+        status: 'fail',
+        message: `${apiUrl}/health failed: ${describeError(error)}`,
+        hint:
+          error instanceof NetworkError
+            ? 'Check the network connection and BUILDABLE_API_URL'
+            : 'The Buildable API is having trouble; try again shortly',
+      },
+    ];
+  }
+  const receivedAt = Date.now();
+
+  const diagnostics: Diagnostic[] = [
+    {
+      check: 'API',
+      status: 'pass',
+      message: `${apiUrl} is ${health.status} (${receivedAt - sentAt}ms)`,
+    },
+  ];
+
+  const serverTime = Date.parse(health.timestamp);
+  if (Number.isNaN(serverTime)) {
+    diagnostics.push({
+      check: 'Clock',
+      status: 'warn',
+      message: 'The server did not report its time',
+    });
+    return diagnostics;
+  }
+
+  // Compare against the middle of the round trip
+  const skew = serverTime - (sentAt + receivedAt) / 2;
+  const seconds = Math.round(Math.abs(skew) / 1000);
+  const direction = skew > 0 ? 'behind' : 'ahead of';
+  const clock: Diagnostic = {
+    check: 'Clock',
+    status: 'pass',
+    message: `Within ${Math.max(seconds, 1)}s of the server`,
+  };
+  if (Math.abs(skew) > CLOCK_SKEW_FAIL_MS) {
+    clock.status = 'fail';
+  } else if (Math.abs(skew) > CLOCK_SKEW_WARN_MS) {
+    clock.status = 'warn';
+  }
+  if (clock.status !== 'pass') {
+    clock.message = `Local clock is ${seconds}s ${direction} the server`;
+    clock.hint =
+      'Enable automatic time sync; skewed clocks distort time tracking and timestamps';
+  }
+  diagnostics.push(clock);
+
+  return diagnostics;
+}
+
+async function checkProject(
+  client: BuildableMCPClient,
+  projectId: string
+): Promise<Diagnostic> {
+  const check = `Project ${projectId}`;
+  try {
+    const context = await client.getProjectContext(projectId);
+    return {
+      check,
+      status: 'pass',
+      message: `"${context.project.title}" - ${context.tasks.completed}/${context.tasks.total} tasks completed`,
+    };
+  } catch (error) {
+    let hint: string | undefined;
+    if (error instanceof AuthenticationError) {
+      hint =
+        'The API key was rejected; generate a new one and update your config';
+    } else if (error instanceof ForbiddenError) {
+      hint =
+        'This key has no access to the project; use a key generated for it';
+    } else if (error instanceof NotFoundError) {
+      hint =
+        'No project with this ID; copy the ID from the project URL on bldbl.dev';
+    }
+    return { check, status: 'fail', message: describeError(error), hint };
+  }
+}
+
+/**
+ * The local backend has no API to reach; check that its files load
+ */
+async function checkLocalStore(resolved: ResolvedConfig): Promise<Diagnostic> {
+  const backend = new LocalBackend(resolved.config, {
+    ...resolved.options,
+    logFile: false,
+    trackGitChanges: false,
+    trackTime: false,
+    keepJournal: false,
+  });
+  const check = 'Task files';
+  try {
+    await backend.healthCheck();
+    const context = await backend.getProjectContext();
+    return {
+      check,
+      status: 'pass',
+      message: `"${context.project.title}" in ${backend.directory} - ${context.tasks.completed}/${context.tasks.total} tasks completed`,
+    };
+  } catch (error) {
+    return {
+      check,
+      status: 'fail',
+      message: describeError(error),
+      hint: 'Fix the file named above, or point BUILDABLE_LOCAL_DIR at the task directory',
+    };
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof BuildableError && error.status) {
+    return `${error.status} ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,166 @@
+import type { ZodIssue } from 'zod';
+import type { APIError } from './types';
+
+export interface BuildableErrorOptions {
+  status?: number; // HTTP status, absent when no response arrived
+  code?: string; // API error code, or the network error code
+  requestId?: string; // X-Request-ID of the failed request
+  retryAfter?: number; // ms, parsed from the Retry-After header
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class for everything the client throws about a request. Catch a
+ * subclass to handle one kind of failure, or this to handle them all.
+ */
+export class BuildableError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly retryAfter?: number;
+  readonly details?: Record<string, unknown>;
+  readonly timestamp: string;
+
+  constructor(message: string, options: BuildableErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.retryAfter = options.retryAfter;
+    this.details = options.details;
+    this.timestamp = new Date().toISOString();
+  }
+
+  toJSON(): APIError {
+    return {
+      error: this.message,
+      code: this.code,
+      status: this.status,
+      request_id: this.requestId,
+      retry_after: this.retryAfter,
+      details: this.details,
+      timestamp: this.timestamp,
+    };
+  }
+}
+
+/** 401: the API key is missing, malformed, revoked or expired */
+export class AuthenticationError extends BuildableError {}
+
+/** 403: the API key is valid but not for this project or action */
+export class ForbiddenError extends BuildableError {}
+
+/** 404: the project, task or discussion doesn't exist */
+export class NotFoundError extends BuildableError {}
+
+/** 409: the request conflicts with the current state, e.g. a task already started */
+export class ConflictError extends BuildableError {}
+
+/**
+ * 409 TASK_CLAIMED: another assistant holds the task's lease. It can be
+ * taken over once the lease expires without a heartbeat.
+ */
+export class TaskClaimedError extends ConflictError {
+  readonly claimedBy?: string; // The holder's aiAssistantId
+  readonly leaseExpiresAt?: string;
+
+  constructor(message: string, options: BuildableErrorOptions = {}) {
+    super(message, options);
+    this.claimedBy = options.details?.claimed_by as string | undefined;
+    this.leaseExpiresAt = options.details?.lease_expires_at as
+      | string
+      | undefined;
+  }
+}
+
+/** 429: too many requests; `retryAfter` says how long to wait, if the API did */
+export class RateLimitError extends BuildableError {}
+
+/** 400/422: the API rejected the request body or parameters */
+export class ValidationError extends BuildableError {}
+
+/** No response: DNS failure, refused or dropped connection */
+export class NetworkError extends BuildableError {}
+
+/** The request timed out before the API answered */
+export class TimeoutError extends NetworkError {}
+
+/**
+ * The error class matching an HTTP status
+ */
+export function errorForStatus(
+  status: number,
+  message: string,
+  options: Omit<BuildableErrorOptions, 'status'> = {}
+): BuildableError {
+  const withStatus = { ...options, status };
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, withStatus);
+    case 401:
+      return new AuthenticationError(message, withStatus);
+    case 403:
+      return new ForbiddenError(message, withStatus);
+    case 404:
+      return new NotFoundError(message, withStatus);
+    case 408:
+      return new TimeoutError(message, withStatus);
+    case 409:
+      return options.code === 'TASK_CLAIMED'
+        ? new TaskClaimedError(message, withStatus)
+        : new ConflictError(message, withStatus);
+    case 429:
+      return new RateLimitError(message, withStatus);
+    default:
+      return new BuildableError(message, withStatus);
+  }
+}
+
+/**
+ * The API answered, but not in the shape this client expects. Raised in
+ * 'strict' response validation mode; the message names the first
+ * offending field so the drift is obvious from the agent transcript.
+ */
+export class ResponseValidationError extends BuildableError {
+  readonly method: string;
+  readonly url: string;
+  readonly issues: { path: string; message: string }[];
+
+  constructor(
+    method: string,
+    url: string,
+    issues: ZodIssue[],
+    requestId?: string
+  ) {
+    const described = issues.map((issue) => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    }));
+    const [first] = described;
+    const more = described.length > 1 ? ` (+${described.length - 1} more)` : '';
+
+    super(
+      `Unexpected response from ${method} ${url}: ${first.path}: ${first.message}${more}`,
+      { requestId }
+    );
+    this.method = method;
+    this.url = url;
+    this.issues = described;
+  }
+}
+
+/**
+ * `['tasks', 'summary', 3, 'status']` -> `tasks.summary[3].status`
+ */
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) {
+    return '(response)';
+  }
+  return path
+    .map((part, index) =>
+      typeof part === 'number' ? `[${part}]` : index === 0 ? part : `.${part}`
+    )
+    .join('');
+}
@@ -0,0 +1,318 @@
+import type { AxiosInstance } from 'axios';
+import type { Readable } from 'node:stream';
+import type { BuildableEvent } from './types';
+
+export type BuildableEventType = BuildableEvent['type'];
+
+export type BuildableEventOf<K extends BuildableEventType> = Extract<
+  BuildableEvent,
+  { type: K }
+>;
+
+export type BuildableEventHandler<K extends BuildableEventType> = (
+  event: BuildableEventOf<K>
+) => void;
+
+type Logger = (
+  level: 'debug' | 'info' | 'warn' | 'error',
+  message: string,
+  ...args: unknown[]
+) => void;
+
+export interface EventStreamOptions {
+  reconnectDelay?: number; // initial delay in ms, doubled per failed attempt
+  maxReconnectDelay?: number;
+  log?: Logger;
+}
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<BuildableEventType>([
+  'task_progress',
+  'connection_status',
+  'discussion_response',
+]);
+
+/**
+ * Server-sent events subscription to a Buildable project.
+ *
+ * Reconnects automatically and resumes from the last received event id
+ * using the standard Last-Event-ID header.
+ */
+export class BuildableEventStream {
+  private handlers = new Map<
+    BuildableEventType | '*',
+    Set<(event: BuildableEvent) => void>
+  >();
+  private closeListeners = new Set<() => void>();
+  private abortController: AbortController | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastEventId: string | undefined;
+  private reconnectDelay: number;
+  private failedAttempts = 0;
+  private running = false;
+  private options: Required<Omit<EventStreamOptions, 'log'>>;
+  private log: Logger;
+
+  constructor(
+    private axios: AxiosInstance,
+    private path: string,
+    options: EventStreamOptions = {}
+  ) {
+    this.options = {
+      reconnectDelay: 1000,
+      maxReconnectDelay: 30000,
+      ...options,
+    };
+    this.reconnectDelay = this.options.reconnectDelay;
+    this.log = options.log || (() => undefined);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Open the subscription. Safe to call more than once.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    void this.open();
+  }
+
+  /**
+   * Close the subscription and end every pending async iterator.
+   */
+  stop(): void {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.abortController?.abort();
+    this.abortController = null;
+
+    for (const end of this.closeListeners) {
+      end();
+    }
+    this.closeListeners.clear();
+  }
+
+  /**
+   * Subscribe to one event type, or to every event with '*'.
+   * Returns a function that removes the handler.
+   */
+  on<K extends BuildableEventType>(
+    eventType: K,
+    handler: BuildableEventHandler<K>
+  ): () => void;
+  on(eventType: '*', handler: (event: BuildableEvent) => void): () => void;
+  on(
+    eventType: BuildableEventType | '*',
+    handler: (event: never) => void
+  ): () => void {
+    const listener = handler as (event: BuildableEvent) => void;
+    let set = this.handlers.get(eventType);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(eventType, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set!.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over incoming events until the stream is stopped or the
+   * consumer breaks out of the loop.
+   */
+  async *iterate<K extends BuildableEventType>(
+    eventType?: K
+  ): AsyncGenerator<BuildableEventOf<K>> {
+    const buffer: BuildableEvent[] = [];
+    let wake: (() => void) | null = null;
+    let closed = false;
+
+    const off = this.on('*', (event) => {
+      if (!eventType || event.type === eventType) {
+        buffer.push(event);
+        wake?.();
+      }
+    });
+    const onClose = () => {
+      closed = true;
+      wake?.();
+    };
+    this.closeListeners.add(onClose);
+
+    try {
+      while (true) {
+        if (buffer.length > 0) {
+          yield buffer.shift() as BuildableEventOf<K>;
+          continue;
+        }
+        if (closed) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    } finally {
+      off();
+      this.closeListeners.delete(onClose);
+    }
+  }
+
+  private async open(): Promise<void> {
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    };
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    try {
+      const response = await this.axios.get<Readable>(this.path, {
+        headers,
+        responseType: 'stream',
+        signal: controller.signal,
+        // The default request timeout would cut idle streams
+        timeout: 0,
+      });
+
+      this.log('info', 'Real-time event stream connected');
+      this.failedAttempts = 0;
+      this.reconnectDelay = this.options.reconnectDelay;
+
+      await this.consume(response.data);
+      this.log('warn', 'Real-time event stream closed by server');
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      this.failedAttempts++;
+      this.log('warn', 'Real-time event stream failed:', error);
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const base = Math.min(
+      this.reconnectDelay * 2 ** Math.max(0, this.failedAttempts - 1),
+      this.options.maxReconnectDelay
+    );
+    const delay = Math.round(base / 2 + Math.random() * (base / 2));
+
+    this.log('debug', `Reconnecting event stream in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        void this.open();
+      }
+    }, delay);
+  }
+
+  private async consume(stream: Readable): Promise<void> {
+    let pending = '';
+    let eventName = '';
+    let dataLines: string[] = [];
+
+    const dispatch = () => {
+      if (dataLines.length > 0) {
+        this.handleMessage(eventName, dataLines.join('\n'));
+      }
+      eventName = '';
+      dataLines = [];
+    };
+
+    stream.setEncoding('utf8');
+    for await (const chunk of stream as AsyncIterable<string>) {
+      pending += chunk;
+
+      const lines = pending.split(/\r?\n/);
+      pending = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          dispatch();
+          continue;
+        }
+        if (line.startsWith(':')) {
+          continue; // comment / keep-alive
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) {
+          value = value.slice(1);
+        }
+
+        switch (field) {
+          case 'event':
+            eventName = value;
+            break;
+          case 'data':
+            dataLines.push(value);
+            break;
+          case 'id':
+            if (!value.includes('\0')) {
+              this.lastEventId = value;
+            }
+            break;
+          case 'retry': {
+            const retry = Number(value);
+            if (Number.isInteger(retry) && retry >= 0) {
+              this.reconnectDelay = retry;
+            }
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  private handleMessage(eventName: string, data: string): void {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(data) as Record<string, unknown>;
+    } catch {
+      this.log('debug', 'Ignoring non-JSON event payload');
+      return;
+    }
+
+    const type = (payload.type as string) || eventName;
+    if (!EVENT_TYPES.has(type)) {
+      this.log('debug', `Ignoring unknown event type "${type}"`);
+      return;
+    }
+
+    const event = { ...payload, type } as BuildableEvent;
+    for (const key of [event.type, '*'] as const) {
+      for (const handler of this.handlers.get(key) || []) {
+        try {
+          handler(event);
+        } catch (error) {
+          this.log('error', `Event handler for ${key} threw:`, error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,265 @@
+// The subset of YAML the local task store reads and writes: a flat mapping
+// of scalars, lists of scalars (block or `[a, b]` flow style) and `|` / `>`
+// block strings. Enough for hand-edited task files without a YAML
+// dependency; nested mappings are rejected with the line they're on.
+
+export type YamlValue = string | number | boolean | null | YamlValue[];
+
+export interface FrontmatterDocument {
+  data: Record<string, YamlValue>;
+  body: string;
+}
+
+const FRONTMATTER_PATTERN =
+  /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a Markdown file into its frontmatter and body. A file without
+ * frontmatter is all body.
+ */
+export function parseFrontmatter(text: string): FrontmatterDocument {
+  const match = FRONTMATTER_PATTERN.exec(text);
+  if (!match) {
+    return { data: {}, body: text.trim() };
+  }
+  return {
+    data: parseYaml(match[1]),
+    body: text.slice(match[0].length).trim(),
+  };
+}
+
+export function stringifyFrontmatter(
+  data: Record<string, unknown>,
+  body: string
+): string {
+  const yaml = stringifyYaml(data);
+  return `---\n${yaml}---\n${body.trim() ? `\n${body.trim()}\n` : ''}`;
+}
+
+export function parseYaml(text: string): Record<string, YamlValue> {
+  const lines = text.split(/\r?\n/);
+  const data: Record<string, YamlValue> = {};
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (isBlankOrComment(line)) {
+      continue;
+    }
+
+    const entry = /^([A-Za-z0-9_$-]+)[ \t]*:(?:[ \t]+(.*))?$/.exec(line);
+    if (!entry) {
+      throw new Error(
+        /^\s/.test(line)
+          ? `Line ${
+              i + 1
+            }: unexpected indentation (nested mappings are not supported)`
+          : `Line ${i + 1}: expected "key: value"`
+      );
+    }
+
+    const [, key, rawValue] = entry;
+    const value = stripComment(rawValue ?? '');
+
+    if (/^[|>][+-]?$/.test(value)) {
+      const block = readIndentedBlock(lines, i + 1);
+      data[key] = blockScalar(block.lines, value);
+      i = block.end - 1;
+    } else if (value === '') {
+      const block = readIndentedBlock(lines, i + 1);
+      data[key] = block.lines.length > 0 ? blockList(block.lines, i + 2) : null;
+      i = block.end - 1;
+    } else if (value.startsWith('[')) {
+      data[key] = flowList(value, i + 1);
+    } else {
+      data[key] = scalar(value, i + 1);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Serialize a flat mapping; undefined values are left out
+ */
+export function stringifyYaml(data: Record<string, unknown>): string {
+  let yaml = '';
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      yaml +=
+        value.length === 0
+          ? `${key}: []\n`
+          : `${key}:\n${value
+              .map((item) => `  - ${formatScalar(item)}\n`)
+              .join('')}`;
+    } else if (typeof value === 'string' && value.includes('\n')) {
+      const chomp = value.endsWith('\n') ? '' : '-';
+      const lines = value.replace(/\n$/, '').split('\n');
+      yaml += `${key}: |${chomp}\n${lines
+        .map((line) => (line ? `  ${line}\n` : '\n'))
+        .join('')}`;
+    } else {
+      yaml += `${key}: ${formatScalar(value)}\n`;
+    }
+  }
+  return yaml;
+}
+
+function isBlankOrComment(line: string): boolean {
+  return /^\s*(#.*)?$/.test(line);
+}
+
+/**
+ * The lines after a `key:` that belong to it: indented ones, plus blank
+ * lines between them
+ */
+function readIndentedBlock(
+  lines: string[],
+  start: number
+): { lines: string[]; end: number } {
+  let end = start;
+  let last = start;
+  while (end < lines.length && (/^\s/.test(lines[end]) || !lines[end])) {
+    if (lines[end].trim()) {
+      last = end + 1;
+    }
+    end++;
+  }
+  return { lines: lines.slice(start, last), end: last };
+}
+
+function blockScalar(lines: string[], indicator: string): string {
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => /^\s*/.exec(line)![0].length)
+  );
+  const content = lines.map((line) => line.slice(indent));
+
+  let text =
+    indicator[0] === '>'
+      ? content
+          .join('\n')
+          .replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+          .replace(/\n\n/g, '\n')
+      : content.join('\n');
+  if (!indicator.endsWith('-') && text) {
+    text += '\n';
+  }
+  return text;
+}
+
+function blockList(lines: string[], firstLine: number): YamlValue[] {
+  const items: YamlValue[] = [];
+  lines.forEach((line, i) => {
+    if (isBlankOrComment(line)) {
+      return;
+    }
+    const item = /^\s+-(?:[ \t]+(.*))?$/.exec(line);
+    if (!item) {
+      throw new Error(
+        `Line ${
+          firstLine + i
+        }: expected a "- item" list entry (nested mappings are not supported)`
+      );
+    }
+    items.push(scalar(stripComment(item[1] ?? ''), firstLine + i));
+  });
+  return items;
+}
+
+function flowList(value: string, line: number): YamlValue[] {
+  if (!value.endsWith(']')) {
+    throw new Error(`Line ${line}: unterminated [ list`);
+  }
+
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of value.slice(1, -1)) {
+    if (quote) {
+      current += char;
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    items.push(current.trim());
+  }
+  return items.map((item) => scalar(item, line));
+}
+
+function scalar(value: string, line: number): YamlValue {
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      throw new Error(`Line ${line}: invalid double-quoted string`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new Error(`Line ${line}: invalid single-quoted string`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === '' || value === '~' || value === 'null') {
+    return null;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Drop a trailing ` # comment` outside of quotes
+ */
+function stripComment(value: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i).trim();
+    }
+  }
+  return value.trim();
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  const text = String(value);
+  // Plain only when it reads back as the same string
+  const plain =
+    /^[^\s\-?:,[\]{}#&*!|>'"%@`][^\n]*$/.test(text) &&
+    !/:(\s|$)|\s#|\s$/.test(text) &&
+    typeof scalar(text, 0) === 'string';
+  return plain ? text : JSON.stringify(text);
+}
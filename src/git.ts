@@ -0,0 +1,261 @@
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import type { GitChanges, GitSnapshot } from './types';
+
+const GIT_TIMEOUT = 15000;
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, timeout: GIT_TIMEOUT, maxBuffer: GIT_MAX_BUFFER },
+      (error, stdout) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+function lines(output: string): string[] {
+  return output.split('\n').filter((line) => line.length > 0);
+}
+
+/**
+ * Paths with uncommitted changes (tracked or untracked), relative to the
+ * repository root
+ */
+async function dirtyPaths(root: string): Promise<string[]> {
+  const output = await git(root, [
+    'status',
+    '--porcelain=v1',
+    '-z',
+    '--untracked-files=all',
+  ]);
+
+  const paths: string[] = [];
+  const entries = output.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) {
+      continue;
+    }
+    paths.push(entry.slice(3));
+    // Renames and copies are followed by the original path
+    if (entry[0] === 'R' || entry[0] === 'C') {
+      i++;
+    }
+  }
+  return paths;
+}
+
+/**
+ * Content hash of each path as it is in the working tree, null if missing
+ */
+async function hashPaths(
+  root: string,
+  paths: string[]
+): Promise<Record<string, string | null>> {
+  const hashes: Record<string, string | null> = {};
+
+  for (const file of paths) {
+    try {
+      hashes[file] = (await git(root, ['hash-object', '--', file])).trim();
+    } catch {
+      hashes[file] = null;
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * Record HEAD and the state of every uncommitted file, so changes made
+ * afterwards can be told apart from work that was already in progress.
+ * Returns null when the directory is not inside a git repository.
+ */
+export async function captureGitSnapshot(
+  cwd: string
+): Promise<GitSnapshot | null> {
+  let root: string;
+  try {
+    root = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    return null;
+  }
+
+  let head: string | null = null;
+  try {
+    head = (await git(root, ['rev-parse', 'HEAD'])).trim();
+  } catch {
+    // Repository without commits yet
+  }
+
+  let branch: string | undefined;
+  try {
+    branch = (await git(root, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+  } catch {
+    branch = undefined;
+  }
+
+  return {
+    root,
+    head,
+    branch,
+    taken_at: new Date().toISOString(),
+    dirty: await hashPaths(root, await dirtyPaths(root)),
+  };
+}
+
+/**
+ * Work out what changed in the repository since the snapshot: commits made
+ * on top of it, and files created, modified or deleted (committed or not).
+ * Files that were already dirty at snapshot time only count if their
+ * content changed since.
+ */
+export async function collectGitChanges(
+  snapshot: GitSnapshot
+): Promise<GitChanges> {
+  const { root } = snapshot;
+  const head = (await git(root, ['rev-parse', 'HEAD']).catch(() => '')).trim();
+
+  const created = new Set<string>();
+  const modified = new Set<string>();
+  const deleted = new Set<string>();
+  const lineStats = new Map<string, [number, number]>();
+
+  const commits: GitChanges['commits'] = [];
+  if (snapshot.head && head && head !== snapshot.head) {
+    const log = await git(root, [
+      'log',
+      '--reverse',
+      '--format=%H%x09%s',
+      `${snapshot.head}..HEAD`,
+    ]).catch(() => '');
+    for (const line of lines(log)) {
+      const [sha, ...subject] = line.split('\t');
+      commits.push({ sha, subject: subject.join('\t') });
+    }
+  }
+
+  // Tracked changes between the starting commit and the working tree; if
+  // the repository had no commits yet, everything is compared to nothing
+  const base = snapshot.head || (head ? EMPTY_TREE_SHA : null);
+  if (base) {
+    const nameStatus = await git(root, [
+      'diff',
+      '--name-status',
+      '--no-renames',
+      base,
+    ]);
+    for (const line of lines(nameStatus)) {
+      const [status, file] = line.split('\t');
+      if (status === 'A') {
+        created.add(file);
+      } else if (status === 'D') {
+        deleted.add(file);
+      } else {
+        modified.add(file);
+      }
+    }
+
+    const numstat = await git(root, [
+      'diff',
+      '--numstat',
+      '--no-renames',
+      base,
+    ]);
+    for (const line of lines(numstat)) {
+      const [added, removed, file] = line.split('\t');
+      // Binary files report '-'
+      lineStats.set(file, [Number(added) || 0, Number(removed) || 0]);
+    }
+  }
+
+  // Untracked files are new unless they already existed at snapshot time
+  const untracked = lines(
+    await git(root, ['ls-files', '--others', '--exclude-standard'])
+  );
+  for (const file of untracked) {
+    if (!(file in snapshot.dirty)) {
+      created.add(file);
+    } else {
+      modified.add(file);
+    }
+  }
+
+  // Drop files whose pre-existing uncommitted state is unchanged
+  const alreadyDirty = [...created, ...modified, ...deleted].filter(
+    (file) => file in snapshot.dirty
+  );
+  const current = await hashPaths(root, alreadyDirty);
+  for (const file of alreadyDirty) {
+    if (current[file] === snapshot.dirty[file]) {
+      created.delete(file);
+      modified.delete(file);
+      deleted.delete(file);
+    }
+  }
+
+  let insertions = 0;
+  let deletions = 0;
+  for (const file of [...created, ...modified, ...deleted]) {
+    const [added, removed] = lineStats.get(file) || [0, 0];
+    insertions += added;
+    deletions += removed;
+  }
+
+  const byName = (a: string, b: string) => a.localeCompare(b);
+
+  return {
+    repository: path.basename(root),
+    branch: snapshot.branch,
+    base_sha: snapshot.head,
+    head_sha: head || null,
+    commits,
+    files_created: [...created].sort(byName),
+    files_modified: [...modified].sort(byName),
+    files_deleted: [...deleted].sort(byName),
+    stats: {
+      files_changed: created.size + modified.size + deleted.size,
+      insertions,
+      deletions,
+    },
+  };
+}
+
+/**
+ * Combine what the agent reported with what git observed. A file the
+ * agent calls modified but git saw created or deleted keeps git's verdict.
+ */
+export function mergeReportedFiles(
+  reported: string[] | undefined,
+  changes: GitChanges | null
+): { created: string[]; modified: string[]; deleted: string[] } {
+  if (!changes) {
+    return { created: [], modified: [...new Set(reported || [])], deleted: [] };
+  }
+
+  const created = new Set(changes.files_created);
+  const deleted = new Set(changes.files_deleted);
+  const modified = new Set(changes.files_modified);
+
+  for (const file of reported || []) {
+    const normalized = file.replace(/^\.\//, '');
+    if (!created.has(normalized) && !deleted.has(normalized)) {
+      modified.add(normalized);
+    }
+  }
+
+  return {
+    created: [...created],
+    modified: [...modified],
+    deleted: [...deleted],
+  };
+}
@@ -0,0 +1,381 @@
+import type { TaskStatus, TaskSummary } from './types';
+
+// Dependency graph over the task summaries: an edge runs from a dependency
+// to the task waiting on it. Pure functions, like tasks.ts.
+
+export interface TaskGraphNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  estimated_hours: number;
+  dependencies: string[]; // Only those that exist; see `dangling`
+  dependents: string[];
+}
+
+export interface BlockedTask {
+  task_id: string;
+  waiting_on: string[]; // Dependencies not completed yet
+  missing: string[]; // Dependencies that aren't tasks in this project
+  in_cycle: boolean; // Can never start until the cycle is broken
+}
+
+export interface TaskGraph {
+  nodes: TaskGraphNode[];
+  edges: { from: string; to: string }[];
+  cycles: string[][]; // Groups of tasks that depend on each other
+  dangling: { task_id: string; dependency: string }[];
+  ready: string[]; // Pending, with every dependency completed
+  blocked: BlockedTask[]; // Pending, but waiting on something
+  critical_path: {
+    tasks: string[];
+    estimated_hours: number; // Remaining work along the path
+  };
+}
+
+export type GraphFormat = 'mermaid' | 'dot';
+
+/**
+ * Build the graph and analyse it: cycles, dangling dependencies, what can
+ * start now, what is blocked and the longest chain of unfinished work
+ */
+export function buildTaskGraph(tasks: TaskSummary[]): TaskGraph {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const dependents = new Map<string, string[]>(
+    tasks.map((task) => [task.id, []])
+  );
+  const edges: TaskGraph['edges'] = [];
+  const dangling: TaskGraph['dangling'] = [];
+
+  for (const task of tasks) {
+    for (const dependency of new Set(task.dependencies)) {
+      if (byId.has(dependency)) {
+        edges.push({ from: dependency, to: task.id });
+        dependents.get(dependency)!.push(task.id);
+      } else {
+        dangling.push({ task_id: task.id, dependency });
+      }
+    }
+  }
+
+  const nodes: TaskGraphNode[] = tasks.map((task) => ({
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    estimated_hours: task.estimated_hours,
+    dependencies: [...new Set(task.dependencies)].filter((id) => byId.has(id)),
+    dependents: dependents.get(task.id)!,
+  }));
+
+  const cycles = findCycles(nodes);
+  const inCycle = new Set(cycles.flat());
+
+  const ready: string[] = [];
+  const blocked: BlockedTask[] = [];
+  for (const node of nodes) {
+    if (node.status !== 'pending') {
+      continue;
+    }
+
+    const waitingOn = node.dependencies.filter(
+      (id) => byId.get(id)!.status !== 'completed'
+    );
+    const missing = dangling
+      .filter((entry) => entry.task_id === node.id)
+      .map((entry) => entry.dependency);
+
+    if (waitingOn.length === 0 && missing.length === 0) {
+      ready.push(node.id);
+    } else {
+      blocked.push({
+        task_id: node.id,
+        waiting_on: waitingOn,
+        missing,
+        in_cycle: inCycle.has(node.id),
+      });
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    cycles,
+    dangling,
+    ready,
+    blocked,
+    critical_path: criticalPath(nodes, inCycle),
+  };
+}
+
+/**
+ * Strongly connected components with more than one task (or a task that
+ * depends on itself), via Tarjan's algorithm. Iterative, so a long chain
+ * of tasks can't overflow the stack.
+ */
+function findCycles(nodes: TaskGraphNode[]): string[][] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root.id)) {
+      continue;
+    }
+
+    const work: { id: string; next: number }[] = [{ id: root.id, next: 0 }];
+    index.set(root.id, counter);
+    lowLink.set(root.id, counter++);
+    stack.push(root.id);
+    onStack.add(root.id);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const node = byId.get(frame.id)!;
+
+      if (frame.next < node.dependencies.length) {
+        const next = node.dependencies[frame.next++];
+        if (!index.has(next)) {
+          index.set(next, counter);
+          lowLink.set(next, counter++);
+          stack.push(next);
+          onStack.add(next);
+          work.push({ id: next, next: 0 });
+        } else if (onStack.has(next)) {
+          lowLink.set(
+            frame.id,
+            Math.min(lowLink.get(frame.id)!, index.get(next)!)
+          );
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowLink.set(
+          parent,
+          Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!)
+        );
+      }
+
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let id: string;
+        do {
+          id = stack.pop()!;
+          onStack.delete(id);
+          component.push(id);
+        } while (id !== frame.id);
+
+        if (component.length > 1 || node.dependencies.includes(node.id)) {
+          cycles.push(component.reverse());
+        }
+      }
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Longest path through unfinished tasks, weighted by estimated_hours.
+ * Completed tasks add nothing and tasks in a cycle are left out, since
+ * their order is undefined.
+ */
+function criticalPath(
+  nodes: TaskGraphNode[],
+  inCycle: Set<string>
+): TaskGraph['critical_path'] {
+  const remaining = nodes.filter(
+    (node) => node.status !== 'completed' && !inCycle.has(node.id)
+  );
+  const included = new Set(remaining.map((node) => node.id));
+  const byId = new Map(remaining.map((node) => [node.id, node]));
+
+  // Kahn's algorithm for a topological order of the remaining tasks
+  const pending = new Map(
+    remaining.map((node) => [
+      node.id,
+      node.dependencies.filter((id) => included.has(id)).length,
+    ])
+  );
+  const queue = remaining
+    .filter((node) => pending.get(node.id) === 0)
+    .map((node) => node.id);
+  const hours = new Map<string, number>();
+  const previous = new Map<string, string>();
+
+  for (let i = 0; i < queue.length; i++) {
+    const node = byId.get(queue[i])!;
+    let best = 0;
+    for (const dependency of node.dependencies) {
+      const candidate = hours.get(dependency);
+      if (candidate !== undefined && candidate > best) {
+        best = candidate;
+        previous.set(node.id, dependency);
+      }
+    }
+    hours.set(node.id, best + Math.max(0, node.estimated_hours));
+
+    for (const dependent of node.dependents) {
+      if (!included.has(dependent)) {
+        continue;
+      }
+      const left = pending.get(dependent)! - 1;
+      pending.set(dependent, left);
+      if (left === 0) {
+        queue.push(dependent);
+      }
+    }
+  }
+
+  let end: string | undefined;
+  for (const [id, total] of hours) {
+    if (end === undefined || total > hours.get(end)!) {
+      end = id;
+    }
+  }
+  if (end === undefined) {
+    return { tasks: [], estimated_hours: 0 };
+  }
+
+  const path = [end];
+  for (let id = previous.get(end); id; id = previous.get(id)) {
+    path.unshift(id);
+  }
+  return { tasks: path, estimated_hours: hours.get(end)! };
+}
+
+/**
+ * Render the graph as a Mermaid flowchart or a Graphviz digraph. Nodes are
+ * styled by status, critical path edges drawn bold, cycle edges red.
+ */
+export function renderTaskGraph(graph: TaskGraph, format: GraphFormat): string {
+  return format === 'dot' ? renderDot(graph) : renderMermaid(graph);
+}
+
+/**
+ * Edges to highlight: along the critical path, and within a cycle
+ */
+function classifyEdges(graph: TaskGraph): {
+  critical: (edge: { from: string; to: string }) => boolean;
+  cyclic: (edge: { from: string; to: string }) => boolean;
+} {
+  const path = graph.critical_path.tasks;
+  const next = new Map(path.slice(0, -1).map((id, i) => [id, path[i + 1]]));
+  const cycleOf = new Map(
+    graph.cycles.flatMap((cycle, i) => cycle.map((id) => [id, i]))
+  );
+
+  return {
+    critical: (edge) => next.get(edge.from) === edge.to,
+    cyclic: (edge) =>
+      cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to),
+  };
+}
+
+function renderMermaid(graph: TaskGraph): string {
+  // Task ids may contain anything; Mermaid ids must be plain words
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `t${i}`]));
+  const { critical, cyclic } = classifyEdges(graph);
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    const label = `${node.title} (${node.estimated_hours}h)`.replace(
+      /"/g,
+      '#quot;'
+    );
+    lines.push(`  ${ids.get(node.id)}["${label}"]:::${node.status}`);
+  }
+
+  const styles: string[] = [];
+  graph.edges.forEach((edge, i) => {
+    const arrow = critical(edge) ? '==>' : '-->';
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+    if (cyclic(edge)) {
+      styles.push(`  linkStyle ${i} stroke:#d32f2f`);
+    }
+  });
+
+  graph.dangling.forEach(({ task_id, dependency }, i) => {
+    const missing = `missing${i}`;
+    lines.push(
+      `  ${missing}["missing: ${dependency.replace(/"/g, '#quot;')}"]:::missing`
+    );
+    lines.push(`  ${missing} -.-> ${ids.get(task_id)}`);
+  });
+
+  lines.push(
+    ...styles,
+    '  classDef completed fill:#c8e6c9,stroke:#2e7d32',
+    '  classDef in_progress fill:#fff3c4,stroke:#f9a825',
+    '  classDef blocked fill:#ffe0b2,stroke:#ef6c00',
+    '  classDef failed fill:#ffcdd2,stroke:#c62828',
+    '  classDef pending fill:#eceff1,stroke:#607d8b',
+    '  classDef proposed fill:#fff,stroke:#607d8b,stroke-dasharray:4',
+    '  classDef missing fill:#ffcdd2,stroke:#d32f2f,stroke-dasharray:4'
+  );
+  return lines.join('\n');
+}
+
+const DOT_FILL: Record<TaskStatus, string> = {
+  completed: '#c8e6c9',
+  in_progress: '#fff3c4',
+  blocked: '#ffe0b2',
+  failed: '#ffcdd2',
+  pending: '#eceff1',
+  proposed: '#ffffff',
+};
+
+function renderDot(graph: TaskGraph): string {
+  const quote = (value: string) =>
+    `"${value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')}"`;
+  const { critical, cyclic } = classifyEdges(graph);
+  const lines = [
+    'digraph tasks {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(
+      `  ${quote(node.id)} [label=${quote(
+        `${node.title}\n${node.estimated_hours}h · ${node.status}`
+      )}, fillcolor=${quote(DOT_FILL[node.status])}];`
+    );
+  }
+
+  for (const edge of graph.edges) {
+    const attributes: string[] = [];
+    if (critical(edge)) {
+      attributes.push('penwidth=3');
+    }
+    if (cyclic(edge)) {
+      attributes.push('color="#d32f2f"');
+    }
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)}${
+        attributes.length ? ` [${attributes.join(', ')}]` : ''
+      };`
+    );
+  }
+
+  for (const { task_id, dependency } of graph.dangling) {
+    const missing = quote(`missing:${dependency}`);
+    lines.push(
+      `  ${missing} [label=${quote(
+        `missing: ${dependency}`
+      )}, style="dashed", color="#d32f2f"];`,
+      `  ${missing} -> ${quote(task_id)} [style=dashed];`
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
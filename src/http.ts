@@ -0,0 +1,243 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string; // Bearer token incoming MCP clients must present
+  path?: string; // MCP endpoint, default /mcp
+  maxBodyBytes?: number;
+  /**
+   * Create the MCP server and Buildable client backing one session.
+   * Receives the headers of the initialize request.
+   */
+  createSession(
+    sessionId: string,
+    headers: IncomingMessage['headers']
+  ): Promise<HttpSession>;
+}
+
+export interface RunningHttpServer {
+  server: http.Server;
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+/**
+ * Serve MCP over the Streamable HTTP transport.
+ *
+ * Every client session gets its own transport and its own session object
+ * (and with it its own BuildableMCPClient), identified by the
+ * Mcp-Session-Id header the transport hands out on initialize.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<RunningHttpServer> {
+  const mcpPath = options.path || '/mcp';
+  const maxBodyBytes = options.maxBodyBytes ?? 4 * 1024 * 1024;
+
+  if (!options.authToken && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(
+      `An auth token is required when listening on ${options.host}; set BUILDABLE_MCP_AUTH_TOKEN or bind to 127.0.0.1`
+    );
+  }
+
+  const sessions = new Map<
+    string,
+    { transport: StreamableHTTPServerTransport; session: HttpSession }
+  >();
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const entry = sessions.get(sessionId);
+    if (!entry) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await entry.session.close().catch(() => undefined);
+  };
+
+  const handleMcp = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Missing or unknown Mcp-Session-Id');
+        return;
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req, maxBodyBytes);
+    } catch (error) {
+      sendJsonRpcError(res, 400, (error as Error).message, -32700);
+      return;
+    }
+
+    if (existing) {
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || !containsInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Missing or unknown Mcp-Session-Id');
+      return;
+    }
+
+    const newSessionId = randomUUID();
+    const session = await options.createSession(newSessionId, req.headers);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, session });
+      },
+    });
+    await session.connect(transport);
+    // After connect, which replaces onclose with the MCP server's own
+    const serverOnClose = transport.onclose;
+    transport.onclose = () => {
+      serverOnClose?.();
+      void closeSession(newSessionId);
+    };
+    await transport.handleRequest(req, res, body);
+
+    // A rejected initialize never registers the session
+    if (!sessions.has(newSessionId)) {
+      await session.close().catch(() => undefined);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: sessions.size,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (url.pathname !== mcpPath) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    handleMcp(req, res).catch((error: unknown) => {
+      if (!res.headersSent) {
+        sendJsonRpcError(
+          res,
+          500,
+          error instanceof Error ? error.message : 'Internal server error',
+          -32603
+        );
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const port =
+    typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    server,
+    url: `http://${options.host}:${port}${mcpPath}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function containsInitializeRequest(body: unknown): boolean {
+  return Array.isArray(body)
+    ? body.some((message) => isInitializeRequest(message))
+    : isInitializeRequest(body);
+}
+
+async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new Error('Parse error: invalid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code = -32000
+): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
@@ -33,13 +33,78 @@ import { createBuildableClient } from './client';
 export { BuildableMCPClient } from './client';
 
 // Export types for TypeScript users
+export type { BuildableBackend } from './backend';
 export type {
+  BlockTaskRequest,
   BuildableConfig,
+  BuildableEvent,
+  ClientOptions,
+  ConnectionEvent,
+  CreateTaskRequest,
+  Discussion,
+  DiscussionEvent,
+  DiscussionMessage,
+  FailTaskRequest,
+  GetTaskOptions,
+  JournalEntry,
+  ListTasksOptions,
+  NextTaskOptions,
   ProjectContext,
+  ReleaseTaskRequest,
+  SplitTaskRequest,
+  SplitTaskResponse,
+  TaskCandidate,
+  TaskHandoff,
+  TaskList,
+  TaskListItem,
+  TaskProgressEvent,
+  TaskResponse,
+  TaskSummary,
+  TaskTransitionResponse,
+  TaskWorkingState,
+  UpdateTaskRequest,
 } from './types';
+export type { BuildableEventHandler, BuildableEventType } from './events';
+export type { ConfigFile, ProfileSettings, ResolvedConfig } from './config';
+export type { BuildableErrorOptions } from './errors';
+export type {
+  BlockedTask,
+  GraphFormat,
+  TaskGraph,
+  TaskGraphNode,
+} from './graph';
+export type { LogEntry, LoggerOptions, LogLevel, LogSink } from './logger';
+export type { MockProjectSeed, MockTaskSeed } from './mock-fixtures';
+export type { MockRequest, MockServerOptions } from './mock-server';
 
 // Export utilities
+export { createBackend } from './backend';
 export { createBuildableClient } from './client';
+export { resolveConfig } from './config';
+export {
+  AuthenticationError,
+  BuildableError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ResponseValidationError,
+  TaskClaimedError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
+export { buildTaskGraph, renderTaskGraph } from './graph';
+export { LocalBackend } from './local-backend';
+export { Logger } from './logger';
+export { DEMO_PROJECT, parseMockFixture } from './mock-fixtures';
+export { MockBuildableServer, startMockServer } from './mock-server';
+export {
+  discussionSchema,
+  nextTaskResponseSchema,
+  projectContextSchema,
+  taskSummarySchema,
+} from './schemas';
 
 // Package metadata
 export const version = '1.6.0';
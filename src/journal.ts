@@ -0,0 +1,154 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { JsonRecordStore } from './json-store';
+import { renderHandoffNotes } from './prompts';
+import type {
+  JournalEntry,
+  ProgressUpdate,
+  TaskSummary,
+  TaskWorkingState,
+} from './types';
+
+const MAX_ENTRIES = 50;
+const RECENT_UPDATES = 5;
+
+interface StoredJournal {
+  task_id: string;
+  entries: JournalEntry[];
+}
+
+/**
+ * A working journal per task, built from progress updates and persisted
+ * next to the time sessions so it survives the session that wrote it.
+ *
+ * `writeHandoffs` turns the journals this session recorded into Markdown
+ * summaries for the next session; completing a task forgets both. Like
+ * the time sessions, the file is shared and every change is applied to it
+ * as it is on disk.
+ */
+export class TaskJournal {
+  private store: JsonRecordStore<StoredJournal>;
+  private recorded = new Set<string>();
+
+  constructor(file: string, private handoffDirectory: string) {
+    this.store = new JsonRecordStore(file);
+  }
+
+  async record(
+    taskId: string,
+    update: ProgressUpdate,
+    files: string[] = []
+  ): Promise<TaskWorkingState> {
+    const journal = await this.store.update((journals) => {
+      const current = journals.get(taskId) || { task_id: taskId, entries: [] };
+      current.entries.push({
+        at: new Date().toISOString(),
+        progress: update.progress,
+        status_update: update.status_update,
+        current_step: update.current_step,
+        completed_steps: update.completed_steps,
+        challenges: update.challenges,
+        files: files.length > 0 ? files : update.files_modified,
+        notes: update.notes,
+      });
+      // Keep the journal bounded: a long task drops its oldest updates
+      current.entries = current.entries.slice(-MAX_ENTRIES);
+      journals.set(taskId, current);
+      return current;
+    });
+
+    this.recorded.add(taskId);
+    return describe(journal);
+  }
+
+  async get(taskId: string): Promise<TaskWorkingState | null> {
+    const journal = await this.store.get(taskId);
+    return journal ? describe(journal) : null;
+  }
+
+  /**
+   * Drop a task's journal and handoff notes, e.g. once it is completed
+   */
+  async forget(taskId: string): Promise<void> {
+    this.recorded.delete(taskId);
+    await this.store.update((journals) => journals.delete(taskId));
+    await fs.rm(this.handoffFile(taskId), { force: true });
+  }
+
+  /**
+   * Write a Markdown handoff for every task this session journaled that
+   * isn't completed; tasks other sessions work on are left to them.
+   * `tasks` supply titles and status; tasks missing from it still get one.
+   * Returns the files written.
+   */
+  async writeHandoffs(tasks: TaskSummary[] = []): Promise<string[]> {
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+    const journals = await this.store.read();
+    const written: string[] = [];
+
+    for (const taskId of this.recorded) {
+      const journal = journals.get(taskId);
+      const task = byId.get(taskId);
+      if (!journal || task?.status === 'completed') {
+        continue;
+      }
+
+      const file = this.handoffFile(journal.task_id);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(
+        file,
+        renderHandoffNotes(describe(journal), task),
+        'utf8'
+      );
+      written.push(file);
+    }
+    return written;
+  }
+
+  /**
+   * The handoff the last session wrote for a task, if any
+   */
+  async readHandoff(taskId: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.handoffFile(taskId), 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  handoffFile(taskId: string): string {
+    return path.join(
+      this.handoffDirectory,
+      `${taskId.replace(/[^\w.-]/g, '_')}.md`
+    );
+  }
+}
+
+function describe(journal: StoredJournal): TaskWorkingState {
+  const { entries } = journal;
+  const latest = entries[entries.length - 1];
+  const notes = [...entries].reverse().find((entry) => entry.notes)?.notes;
+
+  return {
+    task_id: journal.task_id,
+    progress: latest.progress,
+    status_update: latest.status_update,
+    current_step: latest.current_step,
+    completed_steps: [
+      ...new Set(entries.flatMap((entry) => entry.completed_steps || [])),
+    ],
+    challenges: latest.challenges || [],
+    files_touched: [...new Set(entries.flatMap((entry) => entry.files || []))],
+    notes,
+    updates: entries.length,
+    started_at: entries[0].at,
+    updated_at: latest.at,
+    recent_updates: entries
+      .slice(-RECENT_UPDATES)
+      .map(({ at, progress, status_update }) => ({
+        at,
+        progress,
+        status_update,
+      })),
+  };
+}
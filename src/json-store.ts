@@ -0,0 +1,137 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+const LOCK_TIMEOUT = 10 * 1000;
+const LOCK_RETRY_DELAY = 20;
+// A lock older than this was left by a process that died holding it
+const STALE_LOCK_AGE = 30 * 1000;
+
+// One write chain per file, shared by every store in this process that
+// points at it (HTTP mode runs a client per session on the same files)
+const writeChains = new Map<string, Promise<unknown>>();
+
+/**
+ * A JSON file holding an array of records keyed by task ID, shared by
+ * every client and process that uses the same session directory.
+ *
+ * Nothing is cached: reads go to the file, and `update` re-reads it and
+ * applies the change on top, so a writer only ever replaces the records
+ * it changed and never writes back a stale copy of someone else's.
+ * Updates queue behind each other within a process and hold a
+ * `<file>.lock` file across processes.
+ */
+export class JsonRecordStore<T extends { task_id: string }> {
+  constructor(private file: string) {}
+
+  async read(): Promise<Map<string, T>> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    // Writes are atomic, so a file that doesn't parse was damaged by
+    // something else: fail rather than let the next update overwrite it
+    let stored: T[];
+    try {
+      stored = JSON.parse(raw) as T[];
+    } catch {
+      throw new Error(`${this.file} is not valid JSON`);
+    }
+    return new Map(stored.map((record) => [record.task_id, record]));
+  }
+
+  async get(taskId: string): Promise<T | undefined> {
+    return (await this.read()).get(taskId);
+  }
+
+  /**
+   * Change the records as they are on disk now and write them back.
+   * Returns what `change` returns; the file is left alone when it returns
+   * false.
+   */
+  async update<R>(change: (records: Map<string, T>) => R): Promise<R> {
+    const previous = writeChains.get(this.file) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() =>
+        this.withLock(async () => {
+          const records = await this.read();
+          const result = change(records);
+          if (result !== false) {
+            await this.write([...records.values()]);
+          }
+          return result;
+        })
+      );
+
+    writeChains.set(this.file, next);
+    try {
+      return await next;
+    } finally {
+      if (writeChains.get(this.file) === next) {
+        writeChains.delete(this.file);
+      }
+    }
+  }
+
+  /**
+   * Run `fn` holding the lock file, created with O_EXCL so only one
+   * process at a time can
+   */
+  private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    const lock = `${this.file}.lock`;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    for (;;) {
+      try {
+        const handle = await fs.open(lock, 'wx');
+        await handle.writeFile(String(process.pid), 'utf8');
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await isStale(lock)) {
+        await fs.rm(lock, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lock}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_DELAY));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lock, { force: true });
+    }
+  }
+
+  private async write(records: T[]): Promise<void> {
+    // Write then rename so a crash never leaves a half-written file; the
+    // tmp name is per process so two servers never rename each other's
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(records, null, 2), 'utf8');
+    await fs.rename(tmp, this.file);
+  }
+}
+
+async function isStale(lock: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(lock);
+    return Date.now() - stat.mtimeMs > STALE_LOCK_AGE;
+  } catch {
+    // Released in the meantime: try again
+    return false;
+  }
+}
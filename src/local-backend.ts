@@ -0,0 +1,1425 @@
+import path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import type { BuildableBackend } from './backend';
+import { runTaskChecks } from './checks';
+import {
+  ConflictError,
+  NotFoundError,
+  TaskClaimedError,
+  ValidationError,
+} from './errors';
+import { mergeReportedFiles } from './git';
+import { buildTaskGraph, type TaskGraph } from './graph';
+import {
+  type ActivityEntry,
+  DEFAULT_LOCAL_DIR,
+  type LocalTask,
+  type LocalTaskState,
+  LocalTaskStore,
+} from './local-store';
+import { Logger } from './logger';
+import {
+  blockTaskRequestSchema,
+  failTaskRequestSchema,
+  newTaskSchema,
+  releaseTaskRequestSchema,
+  taskFieldsSchema,
+} from './schemas';
+import {
+  applyTaskChanges,
+  type ApprovalDecision,
+  approvalDecision,
+  approvalRequest,
+  buildTask,
+  checkDependencies,
+  decideProposal,
+  handoffConsiderations,
+  hasNextTaskFilters,
+  newTaskId,
+  parseSplitRequest,
+  parseTaskFields,
+  planSplit,
+  queryTasks,
+  recommendNextTasks,
+  subtaskIds,
+  withoutExecutionFields,
+} from './tasks';
+import type {
+  BlockTaskRequest,
+  BuildableConfig,
+  CacheStats,
+  ClientOptions,
+  CompleteTaskRequest,
+  CompleteTaskResponse,
+  CreateDiscussionRequest,
+  CreateTaskRequest,
+  Discussion,
+  DiscussionResponse,
+  FailTaskRequest,
+  FlushResult,
+  GetTaskOptions,
+  GitChanges,
+  ListDiscussionsOptions,
+  ListTasksOptions,
+  NextTaskOptions,
+  NextTaskResponse,
+  ProgressResponse,
+  ProgressUpdate,
+  ProjectConfig,
+  ProjectContext,
+  ReleaseTaskRequest,
+  RunChecksOptions,
+  SplitTaskRequest,
+  SplitTaskResponse,
+  StartTaskOptions,
+  StartTaskResponse,
+  SyncStatus,
+  TaskHandoff,
+  TaskList,
+  TaskResponse,
+  TaskStatus,
+  TaskSummary,
+  TaskTimeSession,
+  TaskTransitionResponse,
+  UpdateTaskRequest,
+  VerificationReport,
+  WaitForDiscussionOptions,
+  WaitForDiscussionResult,
+} from './types';
+import { TaskWorkspace } from './workspace';
+
+const RECENT_ACTIVITY = 10;
+
+/**
+ * A backend for repositories that keep their plan in-tree: tasks,
+ * discussions and progress are read from and written to the files of a
+ * LocalTaskStore instead of the Buildable API. Follows the API's rules -
+ * dependencies must be completed before a task starts, only a started
+ * task can report progress or complete - and raises the same errors.
+ *
+ * Discussions are answered by editing their file; see LocalTaskStore.
+ */
+export class LocalBackend implements BuildableBackend {
+  private config: BuildableConfig;
+  private options: ClientOptions;
+  private aiAssistantId: string;
+  private store: LocalTaskStore;
+  private claims = new Set<string>(); // Started tasks whose lease we renew
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeating: Promise<void> | null = null;
+  private workspace: TaskWorkspace; // Git snapshots, time and journal
+  private logger: Logger;
+  private taskStatusListeners = new Set<
+    (taskId: string, status: TaskStatus) => void
+  >();
+
+  constructor(config: BuildableConfig, options: ClientOptions = {}) {
+    this.config = config;
+    this.options = {
+      trackGitChanges: true,
+      trackTime: true,
+      keepJournal: true,
+      logLevel: 'info',
+      leaseTtl: 300000,
+      ...options,
+    };
+
+    this.logger = (
+      options.logger ||
+      new Logger({ level: this.options.logLevel, file: this.options.logFile })
+    ).child({ project_id: config.projectId });
+    this.aiAssistantId =
+      config.aiAssistantId || `ai_${uuidv4().substring(0, 8)}`;
+
+    this.store = new LocalTaskStore(
+      this.options.localDirectory ||
+        path.join(this.options.workspaceDir || process.cwd(), DEFAULT_LOCAL_DIR)
+    );
+
+    this.workspace = new TaskWorkspace(
+      config.projectId,
+      this.options,
+      (level, message, ...args) => this.log(level, message, ...args)
+    );
+
+    this.log(
+      'info',
+      `Local backend initialized for project ${config.projectId} in ${this.store.directory}`
+    );
+  }
+
+  get projectId(): string {
+    return this.config.projectId;
+  }
+
+  /**
+   * Where the task files live
+   */
+  get directory(): string {
+    return this.store.directory;
+  }
+
+  listProjects(): ProjectConfig[] {
+    return [{ id: this.config.projectId }];
+  }
+
+  /**
+   * A task store holds one project, so only this one
+   */
+  forProject(projectId: string): LocalBackend {
+    if (projectId !== this.config.projectId) {
+      throw new NotFoundError(
+        `Unknown project ${projectId}. The local backend only has ${this.config.projectId}`
+      );
+    }
+    return this;
+  }
+
+  async connect(): Promise<void> {
+    await this.store.check();
+    this.log('info', `Using local task store ${this.store.directory}`);
+  }
+
+  async disconnect(): Promise<void> {
+    // Stop the clock until the next session picks the task back up, and
+    // leave the handoff before anything else can go wrong
+    await this.workspace.withTimeTracker((tracker) =>
+      tracker.pauseAll('disconnect')
+    );
+
+    const tasks = await this.readTasks().then(
+      (locals) => locals.map((local) => local.task),
+      () => []
+    );
+    await this.workspace.writeHandoffs(tasks);
+
+    // Let other assistants take over our tasks without waiting for the
+    // leases to run out
+    await this.releaseClaims();
+  }
+
+  async healthCheck(): Promise<{ status: string; timestamp: string }> {
+    await this.store.check();
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }
+
+  onTaskStatusChange(
+    listener: (taskId: string, status: TaskStatus) => void
+  ): () => void {
+    this.taskStatusListeners.add(listener);
+    return () => {
+      this.taskStatusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * The project as the API would describe it, built from the task files
+   * on every call so edits made by hand show up straight away
+   */
+  async getProjectContext(projectId?: string): Promise<ProjectContext> {
+    if (projectId) {
+      this.forProject(projectId);
+    }
+
+    const [{ project, plan }, locals, activity] = await Promise.all([
+      this.store.readProject(),
+      this.readTasks(),
+      this.store.readActivity(RECENT_ACTIVITY),
+    ]);
+    const tasks = locals.map((local) => local.task);
+    const count = (status: TaskStatus) =>
+      tasks.filter((task) => task.status === status).length;
+    const current =
+      tasks.find((task) => task.status === 'in_progress') ||
+      nextReadyTask(tasks);
+
+    return {
+      project: {
+        ...project,
+        id: this.config.projectId,
+        updated_at: activity[0]?.timestamp || project.updated_at,
+      },
+      plan,
+      tasks: {
+        total: tasks.length,
+        completed: count('completed'),
+        in_progress: count('in_progress'),
+        pending: count('pending'),
+        summary: tasks,
+      },
+      context: {
+        recent_activity: activity.map((entry) => entry.message),
+        current_phase: current?.phase || 'Done',
+        next_priorities: tasks
+          .filter((task) => task.status === 'pending' && isReady(tasks, task))
+          .slice(0, 3)
+          .map((task) => task.title),
+      },
+    };
+  }
+
+  async listTasks(options: ListTasksOptions = {}): Promise<TaskList> {
+    const context = await this.getProjectContext();
+    return queryTasks(context.tasks.summary, options);
+  }
+
+  async getTask(
+    taskId: string,
+    options: GetTaskOptions = {}
+  ): Promise<TaskSummary> {
+    const { task } = await this.findTask(taskId);
+    return options.full ? task : withoutExecutionFields(task);
+  }
+
+  async getTaskGraph(): Promise<TaskGraph> {
+    const context = await this.getProjectContext();
+    return buildTaskGraph(context.tasks.summary);
+  }
+
+  async getNextTask(
+    projectId?: string,
+    options: NextTaskOptions = {}
+  ): Promise<NextTaskResponse> {
+    if (projectId) {
+      this.forProject(projectId);
+    }
+
+    const tasks = (await this.readTasks()).map((local) => local.task);
+    if (hasNextTaskFilters(options)) {
+      return recommendNextTasks(tasks, options);
+    }
+
+    const task = nextReadyTask(tasks);
+    if (!task) {
+      return {
+        success: true,
+        message: tasks.every((t) => t.status === 'completed')
+          ? 'All tasks are completed'
+          : 'No task is ready; the remaining tasks are in progress or waiting on dependencies',
+      };
+    }
+
+    return {
+      success: true,
+      task,
+      message: `Next up: ${task.title}`,
+      context: {
+        phase: task.phase,
+        dependencies_met: true,
+        recommended_approach: task.context_summary || task.description,
+        related_files: task.files_to_modify,
+      },
+    };
+  }
+
+  /**
+   * Add a task file. Numbered task files (`01-setup.md`) get the next
+   * number so the new task comes last in plan order.
+   */
+  async createTask(request: CreateTaskRequest): Promise<TaskResponse> {
+    const { require_approval, reason, ...fields } = request;
+    const parsed = parseTaskFields(newTaskSchema, fields);
+    const tasks = await this.readTasks();
+
+    const task = buildTask(
+      newTaskId(parsed.title, taskIds(tasks), nextFilePrefix(tasks)),
+      parsed,
+      require_approval ? 'proposed' : 'pending'
+    );
+    checkDependencies([...tasks.map((t) => t.task), task], [task.id]);
+
+    const discussionId = require_approval
+      ? await this.requestApproval([task], reason)
+      : undefined;
+    await this.store.saveTask({ task, state: {}, file: '' });
+    await this.record('create', `added "${task.title}"`, task.id, {
+      reason,
+      approval_discussion_id: discussionId,
+    });
+    this.notifyTaskStatusChange(task.id, task.status);
+    this.log('info', `Created task ${task.id} (${task.status})`);
+
+    return {
+      success: true,
+      message: discussionId
+        ? `Proposed ${task.title}; waiting for approval`
+        : `Added ${task.title}`,
+      task,
+      approval_discussion_id: discussionId,
+    };
+  }
+
+  async updateTask(
+    taskId: string,
+    changes: UpdateTaskRequest
+  ): Promise<TaskResponse> {
+    const fields = parseTaskFields(taskFieldsSchema.partial(), changes);
+    const tasks = await this.readTasks();
+    const local = requireTask(tasks, taskId, this.config.projectId);
+    if (local.task.status === 'completed') {
+      throw new ConflictError(`Task ${taskId} is already completed`, {
+        code: 'TASK_ALREADY_COMPLETED',
+      });
+    }
+
+    const task = applyTaskChanges(local.task, fields);
+    checkDependencies(
+      tasks.map((t) => (t === local ? task : t.task)),
+      [taskId]
+    );
+
+    await this.store.saveTask({ ...local, task });
+    await this.record('edit', `edited "${task.title}"`, taskId, {
+      fields: Object.keys(fields),
+    });
+    this.log('info', `Updated task ${taskId}`);
+
+    return { success: true, message: `Updated ${task.title}`, task };
+  }
+
+  /**
+   * Write the subtasks as `<task>-1`, `<task>-2`, ... next to the task,
+   * which then waits on them
+   */
+  async splitTask(
+    taskId: string,
+    request: SplitTaskRequest
+  ): Promise<SplitTaskResponse> {
+    const subtasks = parseSplitRequest(request);
+    const tasks = await this.readTasks();
+    const local = requireTask(tasks, taskId, this.config.projectId);
+    if (local.task.status === 'completed') {
+      throw new ConflictError(`Task ${taskId} is already completed`, {
+        code: 'TASK_ALREADY_COMPLETED',
+      });
+    }
+    // Splitting a started task sends it back to pending, ending the claim
+    requireHolder(local, this.aiAssistantId);
+
+    const ids = subtaskIds(taskId, subtasks.length, taskIds(tasks));
+    const plan = planSplit(
+      local.task,
+      { subtasks, sequential: request.sequential },
+      ids,
+      request.require_approval ? 'proposed' : 'pending'
+    );
+    checkDependencies(
+      [
+        ...tasks.map((t) => (t === local ? plan.parent : t.task)),
+        ...plan.subtasks,
+      ],
+      [taskId, ...ids]
+    );
+
+    const discussionId = request.require_approval
+      ? await this.requestApproval(plan.subtasks, request.reason)
+      : undefined;
+    for (const subtask of plan.subtasks) {
+      await this.store.saveTask({ task: subtask, state: {}, file: '' });
+    }
+    const wasStarted = local.task.status !== plan.parent.status;
+    await this.store.saveTask({
+      ...local,
+      task: plan.parent,
+      state: wasStarted ? {} : local.state,
+    });
+    await this.record(
+      'split',
+      `split "${local.task.title}" into ${ids.join(', ')}`,
+      taskId,
+      { reason: request.reason, approval_discussion_id: discussionId }
+    );
+    if (wasStarted) {
+      this.unclaim(taskId);
+      this.notifyTaskStatusChange(taskId, plan.parent.status);
+    }
+    this.log('info', `Split task ${taskId} into ${ids.join(', ')}`);
+
+    return {
+      success: true,
+      message: `Split ${local.task.title} into ${ids.join(', ')}${
+        discussionId ? '; waiting for approval' : ''
+      }`,
+      task: plan.parent,
+      subtasks: plan.subtasks,
+      approval_discussion_id: discussionId,
+    };
+  }
+
+  async startTask(
+    taskId: string,
+    options: StartTaskOptions = {}
+  ): Promise<StartTaskResponse> {
+    const tasks = await this.readTasks();
+    const local = requireTask(tasks, taskId, this.config.projectId);
+    const { task, state } = local;
+
+    if (task.status === 'proposed') {
+      throw new ConflictError(
+        `Task ${taskId} is waiting for approval in discussion ${task.approval_discussion_id}`,
+        { code: 'TASK_NOT_APPROVED' }
+      );
+    }
+    if (task.status === 'completed') {
+      throw new ConflictError(`Task ${taskId} is already completed`, {
+        code: 'TASK_ALREADY_COMPLETED',
+      });
+    }
+
+    const held = task.status === 'in_progress' || task.status === 'blocked';
+    const holder = held ? state.started_by : undefined;
+    const takenFrom =
+      holder && holder !== this.aiAssistantId ? holder : undefined;
+    // A blocked task can be taken over too, once its holder is gone or
+    // the question that blocked it is resolved
+    if (takenFrom && leaseIsLive(state)) {
+      if (task.status !== 'blocked') {
+        throw claimedError(local);
+      }
+      if (!(await this.blockIsResolved(task))) {
+        throw new ConflictError(
+          `Task ${taskId} is blocked (${task.blocked_reason}) and held by ${holder}`,
+          { code: 'TASK_BLOCKED' }
+        );
+      }
+    }
+
+    state.lease_expires_at = new Date(
+      Date.now() + this.options.leaseTtl!
+    ).toISOString();
+    if (task.status === 'blocked') {
+      task.status = 'in_progress';
+      task.blocked_reason = undefined;
+      task.blocked_discussion_id = undefined;
+      state.started_by = this.aiAssistantId;
+      await this.store.saveTask(local);
+      await this.record(
+        'unblock',
+        takenFrom
+          ? `unblocked "${task.title}", taking it over from ${takenFrom}`
+          : `unblocked "${task.title}"`,
+        taskId,
+        takenFrom ? { previous_holder: takenFrom } : {}
+      );
+      this.notifyTaskStatusChange(taskId, 'in_progress');
+    } else if (held) {
+      state.started_by = this.aiAssistantId;
+      await this.store.saveTask(local);
+      if (takenFrom) {
+        await this.record(
+          'takeover',
+          `took over "${task.title}" from ${takenFrom}`,
+          taskId,
+          { previous_holder: takenFrom }
+        );
+      }
+    } else {
+      const unmet = task.dependencies.filter(
+        (id) => tasks.find((t) => t.task.id === id)?.task.status !== 'completed'
+      );
+      if (unmet.length > 0) {
+        throw new ConflictError(
+          `Task ${taskId} is waiting on ${unmet.join(', ')}`,
+          {
+            code: 'DEPENDENCIES_NOT_MET',
+            details: { unmet_dependencies: unmet },
+          }
+        );
+      }
+
+      this.workspace.keepSnapshot(
+        taskId,
+        await this.workspace.captureWorkspace()
+      );
+
+      task.status = 'in_progress';
+      state.started_by = this.aiAssistantId;
+      state.started_at = new Date().toISOString();
+      state.progress = 0;
+      await this.store.saveTask(local);
+      await this.record('start', `started "${task.title}"`, taskId, {
+        approach: options.approach,
+        estimated_minutes: options.estimated_duration,
+        notes: options.notes,
+      });
+      this.notifyTaskStatusChange(taskId, 'in_progress');
+    }
+
+    this.claim(taskId);
+    await this.workspace.withTimeTracker((tracker) => tracker.start(taskId));
+    this.log('info', `Started task ${taskId}`);
+
+    return {
+      success: true,
+      task_id: taskId,
+      message: `Started ${task.title}`,
+      started_at: state.started_at || new Date().toISOString(),
+      lease_expires_at: state.lease_expires_at,
+      guidance: {
+        step_by_step: [
+          `Review ${task.files_to_modify.join(', ') || 'the codebase'}`,
+          ...task.acceptance_criteria.map((c) => `Make sure: ${c}`),
+        ],
+        key_considerations: [
+          task.context_summary || task.description,
+          ...task.technologies.map((t) => `Uses ${t}`),
+          ...handoffConsiderations(task),
+        ].filter(Boolean),
+        testing_requirements: task.success_checks || task.commands || [],
+        documentation_needs: [],
+      },
+    };
+  }
+
+  async updateProgress(
+    taskId: string,
+    progress: ProgressUpdate
+  ): Promise<ProgressResponse> {
+    if (progress.progress < 0 || progress.progress > 100) {
+      throw new ValidationError('progress must be a number from 0 to 100', {
+        code: 'VALIDATION_ERROR',
+        details: { field: 'progress' },
+      });
+    }
+
+    const tasks = await this.readTasks();
+    const local = requireInProgress(tasks, taskId, this.config.projectId);
+    requireHolder(local, this.aiAssistantId);
+
+    const gitChanges = await this.workspace.detectGitChanges(taskId);
+    const files = mergeReportedFiles(progress.files_modified, gitChanges);
+    const timeSpent =
+      progress.time_spent ?? (await this.workspace.trackedMinutes(taskId));
+
+    local.state.progress = progress.progress;
+    await this.store.saveTask(local);
+    await this.workspace.withJournal((journal) =>
+      journal.record(taskId, progress, [
+        ...files.created,
+        ...files.modified,
+        ...files.deleted,
+      ])
+    );
+    await this.record(
+      'progress',
+      `"${local.task.title}": ${progress.status_update} (${progress.progress}%)`,
+      taskId,
+      {
+        progress: progress.progress,
+        status_update: progress.status_update,
+        current_step: progress.current_step,
+        completed_steps: progress.completed_steps,
+        blockers: progress.challenges,
+        files_created: files.created,
+        files_modified: files.modified,
+        files_deleted: files.deleted,
+        time_spent_minutes: timeSpent,
+        notes: progress.notes,
+      }
+    );
+    this.log('info', `Progress updated: ${progress.progress}% complete`);
+
+    const now = new Date().toISOString();
+    return {
+      success: true,
+      message: `Progress recorded for ${local.task.title}`,
+      updated_at: now,
+      overall_progress: overallProgress(tasks.map((t) => t.task)),
+      next_suggestions:
+        progress.progress >= 100
+          ? ['Run the checks and complete the task']
+          : local.task.acceptance_criteria,
+      ...(gitChanges ? { git_changes: gitChanges } : {}),
+    };
+  }
+
+  async completeTask(
+    taskId: string,
+    completion: CompleteTaskRequest
+  ): Promise<CompleteTaskResponse> {
+    const verification = completion.verification;
+    if (
+      completion.require_passing_checks &&
+      verification &&
+      !verification.passed
+    ) {
+      throw new Error(
+        `Refusing to complete task ${taskId}: ${
+          verification.status === 'unverified'
+            ? 'nothing could be verified'
+            : 'verification failed'
+        } (${verification.summary})`
+      );
+    }
+
+    const tasks = await this.readTasks();
+    const local = requireInProgress(tasks, taskId, this.config.projectId);
+    requireHolder(local, this.aiAssistantId);
+
+    const gitChanges = await this.workspace.detectGitChanges(taskId);
+    const files = mergeReportedFiles(completion.files_modified, gitChanges);
+    const timeSpent =
+      completion.time_spent ??
+      (await this.workspace.trackedMinutes(taskId)) ??
+      0;
+    const now = new Date().toISOString();
+
+    local.task.status = 'completed';
+    local.state.progress = 100;
+    local.state.completed_at = now;
+    local.state.lease_expires_at = undefined;
+    await this.store.saveTask(local);
+    await this.record('complete', `completed "${local.task.title}"`, taskId, {
+      completion_notes: completion.completion_notes,
+      files_created: files.created,
+      files_modified: files.modified,
+      files_deleted: files.deleted,
+      commit_shas: gitChanges?.commits.map((commit) => commit.sha),
+      time_spent_minutes: timeSpent,
+      testing_completed: completion.testing_completed,
+      documentation_updated: completion.documentation_updated,
+      challenges_faced: completion.challenges_faced,
+      lessons_learned: completion.lessons_learned,
+      next_recommendations: completion.next_recommendations,
+      verification,
+    });
+
+    this.workspace.dropSnapshot(taskId);
+    this.unclaim(taskId);
+    await this.workspace.withTimeTracker((tracker) => tracker.finish(taskId));
+    await this.workspace.withJournal((journal) => journal.forget(taskId));
+    this.notifyTaskStatusChange(taskId, 'completed');
+    this.log('info', `Completed task ${taskId}`);
+
+    const remaining = tasks.map((t) => t.task);
+    const next = nextReadyTask(remaining);
+    return {
+      success: true,
+      message: `Completed ${local.task.title}`,
+      completed_at: now,
+      task_summary: {
+        title: local.task.title,
+        time_spent: timeSpent,
+        files_modified: [...files.created, ...files.modified],
+        impact: `${overallProgress(remaining)}% of the project is done`,
+      },
+      next_task_suggestion: next && {
+        id: next.id,
+        title: next.title,
+        reason: 'All of its dependencies are now completed',
+      },
+      ...(gitChanges ? { git_changes: gitChanges } : {}),
+    };
+  }
+
+  async blockTask(
+    taskId: string,
+    request: BlockTaskRequest
+  ): Promise<TaskTransitionResponse> {
+    const { reason, discussion_id, urgency } = parseTaskFields(
+      blockTaskRequestSchema,
+      request
+    );
+    const tasks = await this.readTasks();
+    const local = requireInProgress(tasks, taskId, this.config.projectId);
+    requireHolder(local, this.aiAssistantId);
+
+    const discussionId = discussion_id
+      ? (await this.getDiscussion(discussion_id)).id
+      : (
+          await this.createDiscussion({
+            topic: `Blocked: ${local.task.title}`,
+            message: reason,
+            context: { current_task_id: taskId, urgency },
+          })
+        ).discussion_id;
+
+    local.task.status = 'blocked';
+    local.task.blocked_reason = reason;
+    local.task.blocked_discussion_id = discussionId;
+    await this.store.saveTask(local);
+    await this.record(
+      'block',
+      `blocked "${local.task.title}": ${reason}`,
+      taskId,
+      { reason, discussion_id: discussionId }
+    );
+
+    // The claim stays, renewed while this session waits for an answer
+    await this.workspace.withTimeTracker((tracker) => tracker.pause(taskId));
+    this.notifyTaskStatusChange(taskId, 'blocked');
+    this.log('info', `Blocked task ${taskId}: ${reason}`);
+
+    return {
+      success: true,
+      message: `Blocked ${local.task.title}`,
+      task: local.task,
+      discussion_id: discussionId,
+    };
+  }
+
+  async releaseTask(
+    taskId: string,
+    request: ReleaseTaskRequest
+  ): Promise<TaskTransitionResponse> {
+    const { handoff_notes } = parseTaskFields(
+      releaseTaskRequestSchema,
+      request
+    );
+    const tasks = await this.readTasks();
+    const local = requireTask(tasks, taskId, this.config.projectId);
+    if (local.task.status !== 'failed') {
+      requireStarted(tasks, taskId, this.config.projectId);
+      requireHolder(local, this.aiAssistantId);
+    }
+    const timeSpent =
+      request.time_spent ?? (await this.workspace.trackedMinutes(taskId));
+
+    local.task.status = 'pending';
+    local.task.handoff_notes = handoff_notes;
+    local.task.blocked_reason = undefined;
+    local.task.blocked_discussion_id = undefined;
+    local.state = {};
+    await this.store.saveTask(local);
+    await this.record('release', `released "${local.task.title}"`, taskId, {
+      handoff_notes,
+      time_spent_minutes: timeSpent,
+    });
+
+    this.workspace.dropSnapshot(taskId);
+    this.unclaim(taskId);
+    await this.workspace.withTimeTracker((tracker) => tracker.finish(taskId));
+    this.notifyTaskStatusChange(taskId, 'pending');
+    this.log('info', `Released task ${taskId}`);
+
+    return {
+      success: true,
+      message: `Released ${local.task.title}`,
+      task: local.task,
+    };
+  }
+
+  async failTask(
+    taskId: string,
+    request: FailTaskRequest
+  ): Promise<TaskTransitionResponse> {
+    const { reason, details } = parseTaskFields(failTaskRequestSchema, request);
+    const tasks = await this.readTasks();
+    const local = requireStarted(tasks, taskId, this.config.projectId);
+    requireHolder(local, this.aiAssistantId);
+
+    const gitChanges = await this.workspace.detectGitChanges(taskId);
+    const files = mergeReportedFiles(request.files_modified, gitChanges);
+    const timeSpent =
+      request.time_spent ?? (await this.workspace.trackedMinutes(taskId));
+
+    local.task.status = 'failed';
+    local.task.failure_reason = reason;
+    local.task.blocked_reason = undefined;
+    local.task.blocked_discussion_id = undefined;
+    local.state = {};
+    await this.store.saveTask(local);
+    await this.record(
+      'fail',
+      `failed "${local.task.title}": ${reason}`,
+      taskId,
+      {
+        reason,
+        details,
+        files_created: files.created,
+        files_modified: files.modified,
+        files_deleted: files.deleted,
+        commit_shas: gitChanges?.commits.map((commit) => commit.sha),
+        time_spent_minutes: timeSpent,
+      }
+    );
+
+    this.workspace.dropSnapshot(taskId);
+    this.unclaim(taskId);
+    await this.workspace.withTimeTracker((tracker) => tracker.finish(taskId));
+    this.notifyTaskStatusChange(taskId, 'failed');
+    this.log('warn', `Task ${taskId} failed: ${reason}`);
+
+    return {
+      success: true,
+      message: `Marked ${local.task.title} as failed`,
+      task: local.task,
+      rollback_plan: local.task.rollback_plan,
+      ...(gitChanges ? { git_changes: gitChanges } : {}),
+    };
+  }
+
+  async pauseTask(taskId: string): Promise<TaskTimeSession> {
+    const session = await this.workspace
+      .requireTimeTracker()
+      .pause(taskId, 'user');
+    if (!session) {
+      throw new Error(`No time tracking session for task ${taskId}`);
+    }
+    this.log('info', `Paused task ${taskId} at ${session.elapsed_minutes}min`);
+    return session;
+  }
+
+  async resumeTask(taskId: string): Promise<TaskTimeSession> {
+    const tracker = this.workspace.requireTimeTracker();
+    const session =
+      (await tracker.resume(taskId)) || (await tracker.start(taskId));
+    this.log('info', `Resumed task ${taskId}`);
+    return session;
+  }
+
+  async getTaskTime(taskId: string): Promise<TaskTimeSession | null> {
+    return this.workspace.getTaskTime(taskId);
+  }
+
+  async getTaskHandoff(taskId: string): Promise<TaskHandoff> {
+    const task = await this.getTask(taskId);
+    const openDiscussions = await this.listDiscussions({ task_id: taskId });
+    return this.workspace.handoff(task, openDiscussions);
+  }
+
+  async runTaskChecks(
+    taskId: string,
+    options: RunChecksOptions = {}
+  ): Promise<VerificationReport> {
+    const { task } = await this.findTask(taskId);
+    const report = await runTaskChecks(task, {
+      ...options,
+      workspace: options.workspace || this.options.workspaceDir,
+    });
+
+    this.log(
+      report.passed ? 'info' : 'warn',
+      `Checks for task ${taskId}: ${report.summary}`
+    );
+    return report;
+  }
+
+  async createDiscussion(
+    discussion: CreateDiscussionRequest
+  ): Promise<DiscussionResponse> {
+    const now = new Date().toISOString();
+    const slug = discussion.topic
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 40);
+    const id = `${slug || 'discussion'}-${uuidv4().substring(0, 8)}`;
+
+    await this.store.saveDiscussion({
+      id,
+      topic: discussion.topic,
+      message: discussion.message,
+      status: 'pending',
+      urgency: discussion.context?.urgency || 'medium',
+      task_id: discussion.context?.current_task_id,
+      created_by: this.aiAssistantId,
+      created_at: now,
+      updated_at: now,
+      messages: [
+        {
+          id: `${id}-1`,
+          author: this.aiAssistantId,
+          author_type: 'ai',
+          message: discussionMessage(discussion),
+          created_at: now,
+        },
+      ],
+    });
+    await this.record(
+      'discuss',
+      `asked "${discussion.topic}"`,
+      discussion.context?.current_task_id,
+      { discussion_id: id }
+    );
+    this.log('info', `Discussion created: ${id}`);
+
+    return {
+      success: true,
+      discussion_id: id,
+      status: 'pending',
+      created_at: now,
+      estimated_response_time: `Answer in ${path.join(
+        this.store.directory,
+        'discussions',
+        `${id}.md`
+      )}`,
+    };
+  }
+
+  async getDiscussion(discussionId: string): Promise<Discussion> {
+    const discussion = await this.store.readDiscussion(discussionId);
+    if (!discussion) {
+      throw new NotFoundError(`Discussion ${discussionId} not found`);
+    }
+    return discussion;
+  }
+
+  async listDiscussions(
+    options: ListDiscussionsOptions = {}
+  ): Promise<Discussion[]> {
+    const status = options.status || 'open';
+    return (await this.store.readDiscussions()).filter(
+      (d) =>
+        (status === 'all' ||
+          (status === 'open'
+            ? d.status !== 'resolved'
+            : d.status === status)) &&
+        (!options.task_id || d.task_id === options.task_id)
+    );
+  }
+
+  /**
+   * Poll the discussion file until someone answers in it or the timeout
+   * elapses
+   */
+  async waitForDiscussionResponse(
+    discussionId: string,
+    options: WaitForDiscussionOptions = {}
+  ): Promise<WaitForDiscussionResult> {
+    const timeout = options.timeout ?? 60000;
+    const pollInterval = options.pollInterval ?? 5000;
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      const discussion = await this.getDiscussion(discussionId);
+      if (discussion.status !== 'pending') {
+        return { discussion, timed_out: false };
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return { discussion, timed_out: true };
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(pollInterval, remaining))
+      );
+    }
+  }
+
+  async replyToDiscussion(
+    discussionId: string,
+    message: string
+  ): Promise<Discussion> {
+    const discussion = await this.getDiscussion(discussionId);
+    const now = new Date().toISOString();
+
+    discussion.messages.push({
+      id: `${discussionId}-${discussion.messages.length + 1}`,
+      author: this.aiAssistantId,
+      author_type: 'ai',
+      message,
+      created_at: now,
+    });
+    discussion.status = 'pending';
+    discussion.updated_at = now;
+    await this.store.saveDiscussion(discussion);
+
+    this.log('info', `Replied to discussion ${discussionId}`);
+    return discussion;
+  }
+
+  async resolveDiscussion(
+    discussionId: string,
+    resolution?: string
+  ): Promise<Discussion> {
+    const discussion = await this.getDiscussion(discussionId);
+    const now = new Date().toISOString();
+
+    discussion.status = 'resolved';
+    discussion.resolution = resolution;
+    discussion.resolved_at = now;
+    discussion.updated_at = now;
+    await this.store.saveDiscussion(discussion);
+    await this.record(
+      'resolve',
+      `resolved "${discussion.topic}"`,
+      discussion.task_id,
+      { discussion_id: discussionId, resolution }
+    );
+
+    this.log('info', `Discussion ${discussionId} resolved`);
+    return discussion;
+  }
+
+  /**
+   * Files are written directly; there is never anything queued
+   */
+  async getSyncStatus(): Promise<SyncStatus> {
+    return { enabled: false, pending: [], failed: [] };
+  }
+
+  async flushQueue(): Promise<FlushResult> {
+    return { delivered: 0, failed: 0, remaining: 0 };
+  }
+
+  getCacheStats(): CacheStats | null {
+    return null;
+  }
+
+  // Private helper methods
+
+  /**
+   * Every task, once any approval a human wrote into a discussion file
+   * since the last read has been applied
+   */
+  private async readTasks(): Promise<LocalTask[]> {
+    let tasks = await this.store.readTasks();
+    const waiting = new Set(
+      tasks
+        .filter((t) => t.task.status === 'proposed')
+        .map((t) => t.task.approval_discussion_id)
+    );
+
+    for (const discussionId of waiting) {
+      const discussion =
+        discussionId && (await this.store.readDiscussion(discussionId));
+      const decision =
+        discussion && discussion.status === 'responded'
+          ? approvalDecision(discussion.response)
+          : null;
+      if (discussion && decision) {
+        tasks = await this.applyDecision(tasks, discussion, decision);
+      }
+    }
+    return tasks;
+  }
+
+  private async applyDecision(
+    tasks: LocalTask[],
+    discussion: Discussion,
+    decision: ApprovalDecision
+  ): Promise<LocalTask[]> {
+    const result = decideProposal(
+      tasks.map((t) => t.task),
+      discussion.id,
+      decision
+    );
+    const decided = new Map(result.tasks.map((task) => [task.id, task]));
+
+    const remaining: LocalTask[] = [];
+    for (const local of tasks) {
+      if (result.removed.includes(local.task.id)) {
+        await this.store.deleteTask(local);
+        continue;
+      }
+      const updated = { ...local, task: decided.get(local.task.id)! };
+      if (result.changed.includes(local.task.id)) {
+        await this.store.saveTask(updated);
+      }
+      remaining.push(updated);
+    }
+
+    const now = new Date().toISOString();
+    await this.store.saveDiscussion({
+      ...discussion,
+      status: 'resolved',
+      resolution: decision,
+      resolved_at: now,
+      updated_at: now,
+    });
+    const approver = discussion.messages[discussion.messages.length - 1];
+    await this.record(
+      'approval',
+      `${decision} "${discussion.topic}"`,
+      discussion.task_id,
+      {
+        discussion_id: discussion.id,
+        tasks: result.changed,
+        removed: result.removed,
+      },
+      approver?.author
+    );
+    this.log('info', `Proposed tasks ${decision} in ${discussion.id}`);
+    return remaining;
+  }
+
+  /**
+   * Open the discussion in which a human approves proposed tasks
+   */
+  private async requestApproval(
+    tasks: TaskSummary[],
+    reason?: string
+  ): Promise<string> {
+    const { topic, message } = approvalRequest(tasks, reason);
+    const { discussion_id } = await this.createDiscussion({
+      topic,
+      message,
+      context: { current_task_id: tasks[0].id },
+    });
+    for (const task of tasks) {
+      task.approval_discussion_id = discussion_id;
+    }
+    return discussion_id;
+  }
+
+  private async findTask(taskId: string): Promise<LocalTask> {
+    return requireTask(await this.readTasks(), taskId, this.config.projectId);
+  }
+
+  private async record(
+    action: string,
+    message: string,
+    taskId: string | undefined,
+    details: Record<string, unknown>,
+    actor = this.aiAssistantId
+  ): Promise<void> {
+    const entry: ActivityEntry = {
+      timestamp: new Date().toISOString(),
+      actor,
+      action,
+      task_id: taskId,
+      message: `${actor} ${message}`,
+      details,
+    };
+    await this.store.appendActivity(entry);
+  }
+
+  /**
+   * Renew the lease in a started task's file every `heartbeatInterval`
+   * until it is completed, released or failed (a blocked task keeps it)
+   */
+  private claim(taskId: string): void {
+    this.claims.add(taskId);
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        if (!this.heartbeating) {
+          this.heartbeating = this.renewLeases().finally(() => {
+            this.heartbeating = null;
+          });
+        }
+      }, this.options.heartbeatInterval || this.options.leaseTtl! / 3);
+      this.heartbeatTimer.unref();
+    }
+  }
+
+  private unclaim(taskId: string): void {
+    this.claims.delete(taskId);
+    if (this.claims.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async blockIsResolved(task: TaskSummary): Promise<boolean> {
+    const discussion = task.blocked_discussion_id
+      ? await this.store.readDiscussion(task.blocked_discussion_id)
+      : null;
+    return discussion?.status === 'resolved';
+  }
+
+  private async renewLeases(): Promise<void> {
+    try {
+      const tasks = await this.readTasks();
+      for (const taskId of this.claims) {
+        const local = tasks.find((t) => t.task.id === taskId);
+        if (
+          !local ||
+          (local.task.status !== 'in_progress' &&
+            local.task.status !== 'blocked') ||
+          local.state.started_by !== this.aiAssistantId
+        ) {
+          // Taken over after the lease ran out, or finished by hand
+          this.log('warn', `Lost the claim on task ${taskId}`);
+          this.unclaim(taskId);
+          continue;
+        }
+        local.state.lease_expires_at = new Date(
+          Date.now() + this.options.leaseTtl!
+        ).toISOString();
+        await this.store.saveTask(local);
+      }
+    } catch (error) {
+      // The files may be mid-edit; the lease is renewed on the next beat
+      this.log('debug', 'Renewing leases failed:', error);
+    }
+  }
+
+  private async releaseClaims(): Promise<void> {
+    // Stop renewing first: a renewal that lands after the release would
+    // claim the task again
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    await this.heartbeating;
+
+    const claims = [...this.claims];
+    this.claims.clear();
+    if (claims.length === 0) {
+      return;
+    }
+
+    try {
+      for (const local of await this.readTasks()) {
+        if (
+          claims.includes(local.task.id) &&
+          local.state.started_by === this.aiAssistantId &&
+          local.state.lease_expires_at
+        ) {
+          // The task stays in progress; whoever starts it next takes it over
+          local.state.lease_expires_at = undefined;
+          await this.store.saveTask(local);
+        }
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to release task claims:', error);
+    }
+  }
+
+  private notifyTaskStatusChange(taskId: string, status: TaskStatus): void {
+    for (const listener of this.taskStatusListeners) {
+      try {
+        listener(taskId, status);
+      } catch (error) {
+        this.log('error', 'Task status listener threw:', error);
+      }
+    }
+  }
+
+  private log(
+    level: 'debug' | 'info' | 'warn' | 'error',
+    message: string,
+    ...args: unknown[]
+  ): void {
+    this.logger.log(
+      level,
+      message,
+      args.length === 0
+        ? undefined
+        : { detail: args.length === 1 ? args[0] : args }
+    );
+  }
+}
+
+function requireTask(
+  tasks: LocalTask[],
+  taskId: string,
+  projectId: string
+): LocalTask {
+  const local = tasks.find((t) => t.task.id === taskId);
+  if (!local) {
+    throw new NotFoundError(`Task ${taskId} not found in project ${projectId}`);
+  }
+  return local;
+}
+
+function requireInProgress(
+  tasks: LocalTask[],
+  taskId: string,
+  projectId: string
+): LocalTask {
+  const local = requireStarted(tasks, taskId, projectId);
+  if (local.task.status === 'blocked') {
+    throw new ConflictError(
+      `Task ${taskId} is blocked (${local.task.blocked_reason}); start it again once that is resolved`,
+      { code: 'TASK_BLOCKED' }
+    );
+  }
+  return local;
+}
+
+/**
+ * In progress or blocked: started and not finished
+ */
+function requireStarted(
+  tasks: LocalTask[],
+  taskId: string,
+  projectId: string
+): LocalTask {
+  const local = requireTask(tasks, taskId, projectId);
+  if (local.task.status === 'completed') {
+    throw new ConflictError(`Task ${taskId} is already completed`, {
+      code: 'TASK_ALREADY_COMPLETED',
+    });
+  }
+  if (local.task.status !== 'in_progress' && local.task.status !== 'blocked') {
+    throw new ConflictError(`Task ${taskId} has not been started`, {
+      code: 'TASK_NOT_STARTED',
+    });
+  }
+  return local;
+}
+
+/**
+ * Only the assistant holding a task may move it along; anyone else has
+ * to start it first, which takes it over once the lease has run out
+ */
+function requireHolder(local: LocalTask, aiAssistantId: string): void {
+  if (local.state.started_by && local.state.started_by !== aiAssistantId) {
+    throw claimedError(local);
+  }
+}
+
+function leaseIsLive(state: LocalTaskState): boolean {
+  return (
+    !!state.lease_expires_at && Date.parse(state.lease_expires_at) > Date.now()
+  );
+}
+
+function claimedError(local: LocalTask): TaskClaimedError {
+  const { started_by, lease_expires_at } = local.state;
+  return new TaskClaimedError(
+    `Task ${local.task.id} is claimed by ${started_by}${
+      leaseIsLive(local.state) ? ` until ${lease_expires_at}` : ''
+    }`,
+    {
+      code: 'TASK_CLAIMED',
+      details: { claimed_by: started_by, lease_expires_at },
+    }
+  );
+}
+
+function taskIds(tasks: LocalTask[]): Set<string> {
+  return new Set(tasks.map((t) => t.task.id));
+}
+
+/**
+ * `03-` when the task files are numbered up to `02-...`, else nothing
+ */
+function nextFilePrefix(tasks: LocalTask[]): string {
+  const numbers = tasks
+    .map((t) => /^(\d+)-/.exec(path.basename(t.file))?.[1])
+    .filter((n): n is string => n !== undefined);
+  if (numbers.length === 0) {
+    return '';
+  }
+  const width = Math.max(...numbers.map((n) => n.length));
+  const next = Math.max(...numbers.map(Number)) + 1;
+  return `${String(next).padStart(width, '0')}-`;
+}
+
+function isReady(tasks: TaskSummary[], task: TaskSummary): boolean {
+  return task.dependencies.every(
+    (id) => tasks.find((t) => t.id === id)?.status === 'completed'
+  );
+}
+
+function nextReadyTask(tasks: TaskSummary[]): TaskSummary | undefined {
+  return tasks.find(
+    (task) => task.status === 'pending' && isReady(tasks, task)
+  );
+}
+
+function overallProgress(tasks: TaskSummary[]): number {
+  if (tasks.length === 0) {
+    return 100;
+  }
+  const done = tasks.filter((t) => t.status === 'completed').length;
+  return Math.round((done / tasks.length) * 100);
+}
+
+/**
+ * The question as posted, with the context the API would store alongside
+ */
+function discussionMessage(discussion: CreateDiscussionRequest): string {
+  const context = discussion.context;
+  const lines = [discussion.message];
+  if (context?.specific_challenge) {
+    lines.push('', `Challenge: ${context.specific_challenge}`);
+  }
+  if (context?.related_files?.length) {
+    lines.push('', `Files: ${context.related_files.join(', ')}`);
+  }
+  return lines.join('\n');
+}
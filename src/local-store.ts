@@ -0,0 +1,529 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+  parseFrontmatter,
+  parseYaml,
+  stringifyFrontmatter,
+  stringifyYaml,
+  type YamlValue,
+} from './frontmatter';
+import {
+  discussionStatusSchema,
+  projectContextSchema,
+  taskSummarySchema,
+  urgencySchema,
+} from './schemas';
+import type { Discussion, ProjectContext, TaskSummary } from './types';
+
+export const DEFAULT_LOCAL_DIR = '.buildable';
+
+const DOCUMENT_EXTENSIONS = ['.md', '.yaml', '.yml'];
+const NUMBER_FIELDS = new Set([
+  'estimated_hours',
+  'estimated_tokens',
+  'progress',
+]);
+
+/**
+ * Lifecycle fields the local backend writes next to a task's own fields
+ */
+export interface LocalTaskState {
+  started_by?: string;
+  started_at?: string;
+  lease_expires_at?: string; // started_by's claim, renewed while it works
+  progress?: number;
+  completed_at?: string;
+}
+
+export interface LocalTask {
+  task: TaskSummary;
+  state: LocalTaskState;
+  file: string;
+}
+
+export interface LocalProject {
+  project: Omit<ProjectContext['project'], 'id'>;
+  plan: ProjectContext['plan'];
+}
+
+export interface ActivityEntry {
+  timestamp: string;
+  actor: string;
+  action: string; // e.g. start, progress, complete, discuss
+  task_id?: string;
+  message: string; // One line for recent_activity
+  details?: Record<string, unknown>;
+}
+
+interface Document {
+  data: Record<string, YamlValue>;
+  body: string;
+}
+
+const projectFileSchema = projectContextSchema.shape.project
+  .omit({ id: true })
+  .extend(projectContextSchema.shape.plan.shape);
+
+const DISCUSSION_HINT =
+  '<!-- To answer, add a heading like "### your-name" at the end and write your reply under it. -->';
+const MESSAGE_HEADING =
+  /^###[ \t]+(.+?)(?:[ \t]+\((ai|human)\))?(?:[ \t]+·[ \t]+(\S+))?[ \t]*$/;
+
+/**
+ * A project kept in the repository, under `.buildable/` by default:
+ *
+ * - `project.md`: project and plan fields as frontmatter, the plan
+ *   overview as body
+ * - `tasks/*.md`: one task per file, fields as frontmatter, the
+ *   description as body; plan order is file name order
+ * - `discussions/*.md`: one thread per file, answered by adding a
+ *   `### name` section
+ * - `activity.jsonl`: what happened, newest last
+ *
+ * `.yaml` / `.yml` files work too, with every field (overview,
+ * description) in the mapping.
+ */
+export class LocalTaskStore {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Fail unless the store directory exists
+   */
+  async check(): Promise<void> {
+    try {
+      const stat = await fs.stat(this.directory);
+      if (!stat.isDirectory()) {
+        throw new Error(`${this.directory} is not a directory`);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(
+          `No local task store at ${this.directory}; create it with a tasks/ directory`
+        );
+      }
+      throw error;
+    }
+  }
+
+  async readProject(): Promise<LocalProject> {
+    const file = await this.findDocument('project');
+    const document = file ? await this.readDocument(file) : null;
+    const data = withoutNulls(document?.data || {});
+    const created = await this.createdAt();
+
+    const parsed = projectFileSchema.safeParse({
+      title: path.basename(path.dirname(path.resolve(this.directory))),
+      description: '',
+      status: 'in_progress',
+      created_at: created,
+      updated_at: created,
+      overview: '',
+      technology_stack: [],
+      architecture: '',
+      timeline: '',
+      requirements: [],
+      technical_specifications: '',
+      ...coerceFields(data),
+      ...(document?.body ? { overview: document.body } : {}),
+    });
+    if (!parsed.success) {
+      throw invalidDocument(file!, this.directory, parsed.error.issues[0]);
+    }
+
+    const { title, description, status, created_at, updated_at, ...plan } =
+      parsed.data;
+    return {
+      project: { title, description, status, created_at, updated_at },
+      plan,
+    };
+  }
+
+  /**
+   * Every task, in plan order
+   */
+  async readTasks(): Promise<LocalTask[]> {
+    const tasks: LocalTask[] = [];
+    const files = new Map<string, string>();
+
+    for (const file of await this.listDocuments('tasks')) {
+      const local = parseTask(
+        await this.readDocument(file),
+        file,
+        this.directory
+      );
+      const existing = files.get(local.task.id);
+      if (existing) {
+        throw new Error(
+          `${this.relative(file)}: task id ${
+            local.task.id
+          } is already used by ${this.relative(existing)}`
+        );
+      }
+      files.set(local.task.id, file);
+      tasks.push(local);
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Write a task back, keeping any fields this package doesn't know about.
+   * A task without a file gets `tasks/<id>.md`.
+   */
+  async saveTask(local: LocalTask): Promise<LocalTask> {
+    const file =
+      local.file ||
+      path.join(this.directory, 'tasks', `${fileSafe(local.task.id)}.md`);
+    const markdown = path.extname(file) === '.md';
+    const existing = await this.readDocument(file).catch((error) => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { data: {}, body: '' };
+      }
+      throw error;
+    });
+
+    const data: Record<string, unknown> = { ...existing.data };
+    const { description, ...fields } = local.task;
+    Object.assign(data, fields, local.state);
+    // Leave defaults implicit unless the file spells them out
+    const defaults = taskDefaults(file);
+    for (const [key, value] of Object.entries(defaults)) {
+      if (
+        !(key in existing.data) &&
+        JSON.stringify(data[key]) === JSON.stringify(value)
+      ) {
+        delete data[key];
+      }
+    }
+    for (const key of STATE_KEYS) {
+      if (local.state[key] === undefined) {
+        delete data[key];
+      }
+    }
+    if (markdown) {
+      delete data.description;
+    } else {
+      data.description = description;
+    }
+
+    await this.writeDocument(file, data, markdown ? description : '');
+    return { ...local, file };
+  }
+
+  async deleteTask(local: LocalTask): Promise<void> {
+    await fs.rm(local.file, { force: true });
+  }
+
+  async readDiscussions(): Promise<Discussion[]> {
+    const discussions: Discussion[] = [];
+    for (const file of await this.listDocuments('discussions')) {
+      discussions.push(await this.readDiscussionFile(file));
+    }
+    return discussions;
+  }
+
+  async readDiscussion(discussionId: string): Promise<Discussion | null> {
+    const file = path.join(
+      this.directory,
+      'discussions',
+      `${fileSafe(discussionId)}.md`
+    );
+    try {
+      return await this.readDiscussionFile(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async saveDiscussion(discussion: Discussion): Promise<void> {
+    const { id, message, messages, response, ...fields } = discussion;
+    const body = [
+      DISCUSSION_HINT,
+      ...messages.map(
+        (entry) =>
+          `### ${entry.author} (${entry.author_type}) · ${entry.created_at}\n\n${entry.message}`
+      ),
+    ].join('\n\n');
+
+    await this.writeDocument(
+      path.join(this.directory, 'discussions', `${fileSafe(id)}.md`),
+      fields,
+      body
+    );
+  }
+
+  async appendActivity(entry: ActivityEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(
+      path.join(this.directory, 'activity.jsonl'),
+      `${JSON.stringify(entry)}\n`,
+      'utf8'
+    );
+  }
+
+  /**
+   * The latest activity, newest first
+   */
+  async readActivity(limit: number): Promise<ActivityEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(
+        path.join(this.directory, 'activity.jsonl'),
+        'utf8'
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: ActivityEntry[] = [];
+    const lines = raw.split('\n');
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      try {
+        if (lines[i].trim()) {
+          entries.push(JSON.parse(lines[i]) as ActivityEntry);
+        }
+      } catch {
+        // A line cut short by a crash; skip it
+      }
+    }
+    return entries;
+  }
+
+  private async readDiscussionFile(file: string): Promise<Discussion> {
+    const { data, body } = await this.readDocument(file);
+    const fields = withoutNulls(coerceFields(data));
+    const modified = (await fs.stat(file)).mtime.toISOString();
+    const id = path.basename(file, path.extname(file));
+
+    const messages: Discussion['messages'] = [];
+    for (const section of body
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .split(/^(?=###[ \t])/m)) {
+      const [heading, ...rest] = section.split('\n');
+      const match = MESSAGE_HEADING.exec(heading.trim());
+      if (!match) {
+        continue; // Text before the first message
+      }
+      messages.push({
+        id: `${id}-${messages.length + 1}`,
+        author: match[1],
+        author_type: match[2] === 'ai' ? 'ai' : 'human',
+        message: rest.join('\n').trim(),
+        created_at: match[3] || modified,
+      });
+    }
+
+    const status = discussionStatusSchema.safeParse(fields.status);
+    const urgency = urgencySchema.safeParse(fields.urgency);
+    const discussion: Discussion = {
+      id,
+      topic: String(fields.topic ?? id),
+      message: messages[0]?.message ?? '',
+      status: status.success ? status.data : 'pending',
+      urgency: urgency.success ? urgency.data : 'medium',
+      task_id: optionalString(fields.task_id),
+      created_by: String(fields.created_by ?? messages[0]?.author ?? ''),
+      created_at: String(fields.created_at ?? modified),
+      updated_at: String(fields.updated_at ?? modified),
+      responded_at: optionalString(fields.responded_at),
+      resolved_at: optionalString(fields.resolved_at),
+      resolution: optionalString(fields.resolution),
+      messages,
+    };
+
+    // A human answered in the file since the last AI message
+    const last = messages[messages.length - 1];
+    const answer = [...messages]
+      .reverse()
+      .find((m) => m.author_type === 'human');
+    discussion.response = answer?.message;
+    if (discussion.status === 'pending' && last?.author_type === 'human') {
+      discussion.status = 'responded';
+      discussion.responded_at = last.created_at;
+    }
+    return discussion;
+  }
+
+  private async findDocument(name: string): Promise<string | null> {
+    for (const extension of DOCUMENT_EXTENSIONS) {
+      const file = path.join(this.directory, `${name}${extension}`);
+      try {
+        await fs.access(file);
+        return file;
+      } catch {
+        // Try the next extension
+      }
+    }
+    return null;
+  }
+
+  private async listDocuments(subdirectory: string): Promise<string[]> {
+    const directory = path.join(this.directory, subdirectory);
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return names
+      .filter((name) => DOCUMENT_EXTENSIONS.includes(path.extname(name)))
+      .sort((a, b) => a.localeCompare(b, 'en', { numeric: true }))
+      .map((name) => path.join(directory, name));
+  }
+
+  private async readDocument(file: string): Promise<Document> {
+    const text = await fs.readFile(file, 'utf8');
+    try {
+      return path.extname(file) === '.md'
+        ? parseFrontmatter(text)
+        : { data: parseYaml(text), body: '' };
+    } catch (error) {
+      throw new Error(`${this.relative(file)}: ${(error as Error).message}`);
+    }
+  }
+
+  private async writeDocument(
+    file: string,
+    data: Record<string, unknown>,
+    body: string
+  ): Promise<void> {
+    const text =
+      path.extname(file) === '.md'
+        ? stringifyFrontmatter(data, body)
+        : stringifyYaml(data);
+
+    // Write then rename so a crash never leaves a half-written file
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, text, 'utf8');
+    await fs.rename(tmp, file);
+  }
+
+  private async createdAt(): Promise<string> {
+    try {
+      const stat = await fs.stat(this.directory);
+      // Not every file system records a birth time
+      return (stat.birthtimeMs > 0 ? stat.birthtime : stat.mtime).toISOString();
+    } catch {
+      return new Date().toISOString();
+    }
+  }
+
+  private relative(file: string): string {
+    return path.relative(path.dirname(path.resolve(this.directory)), file);
+  }
+}
+
+const STATE_KEYS = [
+  'started_by',
+  'started_at',
+  'lease_expires_at',
+  'progress',
+  'completed_at',
+] as const;
+
+function parseTask(
+  { data, body }: Document,
+  file: string,
+  directory: string
+): LocalTask {
+  const fields = withoutNulls(coerceFields(data));
+  const parsed = taskSummarySchema.safeParse({
+    ...taskDefaults(file),
+    description: '',
+    ...fields,
+    ...(body ? { description: body } : {}),
+  });
+  if (!parsed.success) {
+    throw invalidDocument(file, directory, parsed.error.issues[0]);
+  }
+
+  return {
+    task: parsed.data,
+    state: {
+      started_by: optionalString(fields.started_by),
+      started_at: optionalString(fields.started_at),
+      lease_expires_at: optionalString(fields.lease_expires_at),
+      progress:
+        typeof fields.progress === 'number' ? fields.progress : undefined,
+      completed_at: optionalString(fields.completed_at),
+    },
+    file,
+  };
+}
+
+/**
+ * What a task file may leave out
+ */
+function taskDefaults(file: string): Record<string, unknown> {
+  return {
+    id: path.basename(file, path.extname(file)),
+    status: 'pending',
+    phase: 'Implementation',
+    difficulty: 'medium',
+    estimated_hours: 1,
+    technologies: [],
+    dependencies: [],
+    files_to_modify: [],
+    acceptance_criteria: [],
+  };
+}
+
+/**
+ * YAML reads `id: 12` as a number; every field but a few is text
+ */
+function coerceFields(
+  data: Record<string, YamlValue>
+): Record<string, YamlValue> {
+  const fields: Record<string, YamlValue> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      fields[key] = value.filter((item) => item !== null).map(String);
+    } else if (
+      (typeof value === 'number' && !NUMBER_FIELDS.has(key)) ||
+      typeof value === 'boolean'
+    ) {
+      fields[key] = String(value);
+    } else {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+function withoutNulls(
+  data: Record<string, YamlValue>
+): Record<string, YamlValue> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== null)
+  );
+}
+
+function optionalString(value: YamlValue | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function fileSafe(id: string): string {
+  return id.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+function invalidDocument(
+  file: string,
+  directory: string,
+  issue: { path: (string | number)[]; message: string }
+): Error {
+  const relative = path.relative(path.dirname(path.resolve(directory)), file);
+  return new Error(
+    `${relative}: ${issue.path.join('.') || 'file'}: ${issue.message}`
+  );
+}
@@ -0,0 +1,294 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [field: string]: unknown;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggerOptions {
+  level?: LogLevel; // default 'info'
+  file?: string | false; // JSON-lines log file, none by default
+  maxBytes?: number; // rotate once the file would exceed this, default 5 MB
+  maxFiles?: number; // rotated files to keep, default 3
+  secrets?: string[]; // values to mask wherever they appear
+}
+
+export const DEFAULT_LOG_FILE = path.join(
+  os.homedir(),
+  '.bldbl',
+  'logs',
+  'bldbl-mcp.log'
+);
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+// Matched against the last segment of a key (`client_secret`, `x-api-key`,
+// `sessionToken`), so counts like `estimated_tokens` stay readable
+const SECRET_KEY_PATTERN =
+  /(^|[_-])(authorization|secret|password|passwd|tokens?|api[_-]?key|private[_-]?key|cookie)$/;
+// Counters that end like a secret but only hold a number
+const NON_SECRET_KEY_PATTERN =
+  /(^|[_-])(estimated|max|total|input|output|prompt|completion|used)[_-]tokens$/;
+const SECRET_VALUE_PATTERNS: [RegExp, string][] = [
+  [/Bearer\s+[A-Za-z0-9._~+/-]+=*/g, `Bearer ${REDACTED}`],
+  [/\bbp_[A-Za-z0-9_-]+/g, `bp_${REDACTED}`],
+];
+
+function isSecretKey(key: string): boolean {
+  const normalized = key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+  return (
+    SECRET_KEY_PATTERN.test(normalized) &&
+    !NON_SECRET_KEY_PATTERN.test(normalized)
+  );
+}
+
+/**
+ * Appends JSON lines to a file and rotates it by size. Writes are
+ * synchronous so nothing is lost when the process exits right after
+ * logging, and never throw - logging must not break the server.
+ */
+class LogFile {
+  private size: number | null = null;
+
+  constructor(
+    readonly file: string,
+    private maxBytes: number,
+    private maxFiles: number
+  ) {}
+
+  write(line: string): void {
+    try {
+      if (this.size === null) {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+      }
+
+      const bytes = Buffer.byteLength(line);
+      if (this.size > 0 && this.size + bytes > this.maxBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.file, line, { encoding: 'utf8', mode: 0o600 });
+      this.size += bytes;
+    } catch {
+      // Disk full, permissions... drop the line rather than crash
+    }
+  }
+
+  private rotate(): void {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.file}.${i}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.file}.${i + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.file, `${this.file}.1`);
+    } else {
+      fs.unlinkSync(this.file);
+    }
+    this.size = 0;
+  }
+}
+
+interface LoggerState {
+  level: LogLevel;
+  logFile: LogFile | null;
+  secrets: Set<string>;
+}
+
+// One writer per path, so every logger in the process rotates the same way
+const logFiles = new Map<string, LogFile>();
+
+function openLogFile(
+  file: string,
+  maxBytes: number,
+  maxFiles: number
+): LogFile {
+  const resolved = path.resolve(file);
+  let logFile = logFiles.get(resolved);
+  if (!logFile) {
+    logFile = new LogFile(resolved, maxBytes, maxFiles);
+    logFiles.set(resolved, logFile);
+  }
+  return logFile;
+}
+
+/**
+ * Structured logger for the client and the MCP server. stdout belongs to
+ * JSON-RPC, so entries go to a rotating JSON-lines file, if one is set,
+ * and to any registered sinks (e.g. MCP logging notifications), never the
+ * console.
+ * Bearer tokens, API keys and fields that look like secrets are masked
+ * before anything is written.
+ */
+export class Logger {
+  private state: LoggerState;
+  private bindings: Record<string, unknown> = {};
+  private parent: Logger | null = null;
+  private sinks = new Set<LogSink>();
+
+  constructor(options: LoggerOptions = {}) {
+    this.state = {
+      level: options.level || 'info',
+      logFile: options.file
+        ? openLogFile(
+            options.file,
+            options.maxBytes ?? 5 * 1024 * 1024,
+            options.maxFiles ?? 3
+          )
+        : null,
+      secrets: new Set(),
+    };
+    for (const secret of options.secrets || []) {
+      this.addSecret(secret);
+    }
+  }
+
+  /**
+   * Where entries are written, null if file logging is off
+   */
+  get file(): string | null {
+    return this.state.logFile?.file ?? null;
+  }
+
+  /**
+   * A logger that adds `bindings` to every entry and shares this one's
+   * level, file and secrets. Its entries also reach this logger's sinks,
+   * but sinks added to the child don't see the parent's entries.
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    const child = new Logger({ file: false });
+    child.state = this.state;
+    child.bindings = { ...this.bindings, ...bindings };
+    child.parent = this;
+    return child;
+  }
+
+  setLevel(level: LogLevel): void {
+    this.state.level = level;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.state.level];
+  }
+
+  /**
+   * Mask this exact value wherever it shows up, e.g. the configured API key
+   */
+  addSecret(secret: string | undefined): void {
+    if (secret && secret.length >= 4) {
+      this.state.secrets.add(secret);
+    }
+  }
+
+  /**
+   * Receive every entry that passes the level filter, already redacted.
+   * Returns a function that removes the sink.
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  log(
+    level: LogLevel,
+    message: string,
+    fields?: Record<string, unknown>
+  ): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry = this.redact({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.bindings,
+      ...fields,
+    }) as LogEntry;
+
+    this.state.logFile?.write(`${JSON.stringify(entry)}\n`);
+    for (let logger: Logger | null = this; logger; logger = logger.parent) {
+      for (const sink of logger.sinks) {
+        try {
+          sink(entry);
+        } catch {
+          // A failing sink must not affect the others
+        }
+      }
+    }
+  }
+
+  private redact(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value instanceof Error) {
+      return this.redact(
+        { name: value.name, message: value.message, stack: value.stack },
+        depth
+      );
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (depth >= 8) {
+      return '[Truncated]';
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] =
+        isSecretKey(key) && item !== undefined && item !== null
+          ? REDACTED
+          : this.redact(item, depth + 1);
+    }
+    return result;
+  }
+
+  private redactString(value: string): string {
+    let result = value;
+    for (const secret of this.state.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    for (const [pattern, replacement] of SECRET_VALUE_PATTERNS) {
+      result = result.replace(pattern, replacement);
+    }
+    return result;
+  }
+}
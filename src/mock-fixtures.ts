@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { projectContextSchema, taskSummarySchema } from './schemas';
+import type { ProjectContext, TaskSummary } from './types';
+
+/**
+ * A project to load into the mock server. Everything but the ids and
+ * titles has a default, so a fixture only spells out what a test needs.
+ */
+export interface MockProjectSeed {
+  id: string;
+  apiKey?: string; // default `bp_mock_<id>`
+  project?: Partial<Omit<ProjectContext['project'], 'id'>>;
+  plan?: Partial<ProjectContext['plan']>;
+  tasks?: MockTaskSeed[];
+}
+
+export type MockTaskSeed = Partial<TaskSummary> &
+  Pick<TaskSummary, 'id' | 'title'>;
+
+export function mockApiKey(projectId: string): string {
+  return `bp_mock_${projectId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+}
+
+export function taskFromSeed(seed: MockTaskSeed): TaskSummary {
+  return {
+    description: seed.title,
+    status: 'pending',
+    phase: 'Implementation',
+    difficulty: 'medium',
+    estimated_hours: 2,
+    technologies: [],
+    dependencies: [],
+    files_to_modify: [],
+    acceptance_criteria: [],
+    ...seed,
+  };
+}
+
+/**
+ * The project `bldbl mock-server` serves when no fixture is given: a small
+ * todo app with a mix of statuses, dependencies and AI execution fields
+ */
+export const DEMO_PROJECT: MockProjectSeed = {
+  id: 'demo',
+  project: {
+    title: 'Todo App',
+    description: 'A small todo list app with a REST API and a React frontend',
+    status: 'in_progress',
+  },
+  plan: {
+    overview: 'Build the API first, then the frontend on top of it',
+    technology_stack: ['TypeScript', 'Node.js', 'Express', 'React', 'SQLite'],
+    architecture: 'Express REST API backed by SQLite, React single page app',
+    timeline: '2 weeks',
+    requirements: [
+      'Users can create, complete and delete todos',
+      'Todos persist across restarts',
+    ],
+    technical_specifications: 'REST endpoints under /api, JSON bodies',
+  },
+  tasks: [
+    {
+      id: 'task-setup',
+      title: 'Set up the project',
+      description: 'Initialise the repository with TypeScript and linting',
+      status: 'completed',
+      phase: 'Setup',
+      difficulty: 'easy',
+      estimated_hours: 1,
+      technologies: ['TypeScript', 'Node.js'],
+      files_to_modify: ['package.json', 'tsconfig.json'],
+      acceptance_criteria: ['npm run build succeeds'],
+      skill_tags: ['tooling'],
+    },
+    {
+      id: 'task-schema',
+      title: 'Create the database schema',
+      description: 'Add a todos table with id, title, done and created_at',
+      phase: 'Backend',
+      difficulty: 'easy',
+      estimated_hours: 2,
+      technologies: ['SQLite'],
+      dependencies: ['task-setup'],
+      files_to_modify: ['src/db/schema.sql', 'src/db/index.ts'],
+      acceptance_criteria: ['Migrations create the todos table'],
+      context_summary: 'Create the todos table and a helper to open the db.',
+      commands: ['npm run build'],
+      success_checks: ['file src/db/schema.sql exists'],
+      rollback_plan: 'Delete src/db',
+      skill_tags: ['backend', 'database'],
+    },
+    {
+      id: 'task-api',
+      title: 'Implement the todo REST API',
+      description: 'CRUD endpoints for todos under /api/todos',
+      phase: 'Backend',
+      difficulty: 'medium',
+      estimated_hours: 4,
+      technologies: ['Express', 'TypeScript'],
+      dependencies: ['task-schema'],
+      files_to_modify: ['src/api/todos.ts', 'src/server.ts'],
+      acceptance_criteria: [
+        'GET, POST, PATCH and DELETE /api/todos work',
+        'Invalid bodies get a 400',
+      ],
+      reference_impl:
+        "router.get('/api/todos', (req, res) => res.json(db.all()))",
+      commands: ['npm test'],
+      skill_tags: ['backend', 'api'],
+    },
+    {
+      id: 'task-ui',
+      title: 'Build the todo list UI',
+      description: 'React components to list, add and complete todos',
+      phase: 'Frontend',
+      difficulty: 'medium',
+      estimated_hours: 5,
+      technologies: ['React', 'TypeScript'],
+      dependencies: ['task-api'],
+      files_to_modify: ['web/src/App.tsx', 'web/src/TodoList.tsx'],
+      acceptance_criteria: ['Todos can be added and ticked off'],
+      skill_tags: ['frontend'],
+    },
+    {
+      id: 'task-docs',
+      title: 'Write the README',
+      description: 'Document setup, scripts and the API',
+      phase: 'Polish',
+      difficulty: 'easy',
+      estimated_hours: 1,
+      dependencies: ['task-setup'],
+      files_to_modify: ['README.md'],
+      acceptance_criteria: ['README explains how to run the app'],
+      skill_tags: ['docs'],
+    },
+    {
+      id: 'task-deploy',
+      title: 'Deploy to production',
+      description: 'Ship the API and frontend',
+      phase: 'Polish',
+      difficulty: 'hard',
+      estimated_hours: 3,
+      dependencies: ['task-ui', 'task-docs'],
+      acceptance_criteria: ['The app is reachable at its public URL'],
+      skill_tags: ['devops'],
+    },
+  ],
+};
+
+const mockTaskSeedSchema = taskSummarySchema
+  .partial()
+  .required({ id: true, title: true });
+
+const mockProjectSeedSchema = z.object({
+  id: z.string().min(1),
+  apiKey: z.string().min(1).optional(),
+  project: projectContextSchema.shape.project
+    .omit({ id: true })
+    .partial()
+    .optional(),
+  plan: projectContextSchema.shape.plan.partial().optional(),
+  tasks: z.array(mockTaskSeedSchema).optional(),
+});
+
+/**
+ * Read fixture projects from parsed JSON: one project, an array of them,
+ * or `{ "projects": [...] }`
+ */
+export function parseMockFixture(json: unknown): MockProjectSeed[] {
+  const projects =
+    json && typeof json === 'object' && 'projects' in json
+      ? (json as { projects: unknown }).projects
+      : json;
+  const fixture = z
+    .array(mockProjectSeedSchema)
+    .safeParse(Array.isArray(projects) ? projects : [projects]);
+  if (!fixture.success) {
+    const issue = fixture.error.issues[0];
+    throw new Error(
+      `Invalid fixture at ${issue.path.join('.')}: ${issue.message}`
+    );
+  }
+  return fixture.data;
+}
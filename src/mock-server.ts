@@ -0,0 +1,1510 @@
+import { randomUUID } from 'node:crypto';
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import { z } from 'zod';
+import {
+  DEMO_PROJECT,
+  mockApiKey,
+  type MockProjectSeed,
+  taskFromSeed,
+} from './mock-fixtures';
+import {
+  blockTaskRequestSchema,
+  failTaskRequestSchema,
+  newTaskSchema,
+  releaseTaskRequestSchema,
+  taskFieldsSchema,
+} from './schemas';
+import {
+  applyTaskChanges,
+  approvalDecision,
+  approvalRequest,
+  buildTask,
+  decideProposal,
+  describeDependencyProblems,
+  findDependencyProblems,
+  handoffConsiderations,
+  newTaskId,
+  planSplit,
+  subtaskIds,
+} from './tasks';
+import type {
+  BuildableEvent,
+  Discussion,
+  ProjectContext,
+  TaskSummary,
+} from './types';
+
+export interface MockServerOptions {
+  projects?: MockProjectSeed[]; // default: DEMO_PROJECT
+  host?: string; // default 127.0.0.1
+  port?: number; // default 0, any free port
+}
+
+export interface MockRequest {
+  method: string;
+  path: string; // Including the query string
+  headers: IncomingMessage['headers'];
+  body?: Record<string, unknown>;
+}
+
+interface MockConnection {
+  id: string;
+  ai_assistant_id: string;
+  status: 'connected' | 'working' | 'disconnected';
+  connected_at: string;
+  last_activity_at: string;
+  current_task_id?: string;
+  capabilities: string[];
+  metadata: Record<string, unknown>;
+}
+
+interface ProjectState {
+  apiKey: string;
+  project: ProjectContext['project'];
+  plan: ProjectContext['plan'];
+  tasks: TaskSummary[];
+  startedBy: Map<string, Claim>;
+  progress: Map<string, number>;
+  activity: string[];
+  discussions: Map<string, Discussion>;
+  connections: Map<string, MockConnection>;
+  version: number; // Bumped on every change, used as the context ETag
+  events: { id: number; event: BuildableEvent }[];
+  streams: Set<ServerResponse>;
+}
+
+// Who is working on a task, until when unless they send a heartbeat
+interface Claim {
+  assistant: string;
+  started_at: string;
+  lease_expires_at: string;
+}
+
+class MockApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
+
+interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  state: ProjectState; // Project the API key belongs to
+  assistant: string;
+}
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  handler: (context: RouteContext) => unknown;
+};
+
+const splitBodySchema = z.object({
+  subtasks: z.array(newTaskSchema).min(2),
+  sequential: z.boolean().optional(),
+});
+
+const EVENT_BUFFER_SIZE = 100;
+const ACTIVITY_SIZE = 10;
+const DEFAULT_LEASE_SECONDS = 300;
+
+/**
+ * An in-process fake of the Buildable API, for developing and testing
+ * agent workflows without bldbl.dev.
+ *
+ * It implements every endpoint BuildableMCPClient calls, keeps state per
+ * seeded project (tasks move pending -> in_progress -> completed, can be
+ * blocked, released or failed on the way, with the same conflicts the real
+ * API reports; proposed tasks wait until respondToDiscussion approves
+ * them), honours Idempotency-Key and
+ * If-None-Match, and streams events. Each project's API key is its
+ * `apiKey`, or `bp_mock_<id>` by default.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockBuildableServer();
+ * const url = await mock.start();
+ * const client = new BuildableMCPClient({
+ *   apiUrl: url,
+ *   apiKey: mock.apiKey('demo'),
+ *   projectId: 'demo',
+ * });
+ * ```
+ */
+export class MockBuildableServer {
+  /** Every request received, oldest first */
+  readonly requests: MockRequest[] = [];
+
+  private seeds: MockProjectSeed[];
+  private projects = new Map<string, ProjectState>();
+  private idempotentResponses = new Map<
+    string,
+    { status: number; body: unknown }
+  >();
+  private failures: {
+    status: number;
+    remaining: number;
+    retryAfter: number;
+  } | null = null;
+  private malformed: ((body: Record<string, unknown>) => unknown) | null = null;
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+  private eventCounter = 0;
+  private discussionCounter = 0;
+  private routes: Route[];
+
+  constructor(private options: MockServerOptions = {}) {
+    this.seeds = options.projects || [DEMO_PROJECT];
+    this.reset();
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * Listen and return the base URL to use as `apiUrl`
+   */
+  async start(): Promise<string> {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    const host = this.options.host || '127.0.0.1';
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        if (!res.headersSent) {
+          sendJson(res, 500, {
+            error: error instanceof Error ? error.message : 'Internal error',
+            code: 'INTERNAL_ERROR',
+          });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    const port =
+      typeof address === 'object' && address ? address.port : this.options.port;
+    this.server = server;
+    this.baseUrl = `http://${host}:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    for (const state of this.projects.values()) {
+      for (const stream of state.streams) {
+        stream.end();
+      }
+      state.streams.clear();
+    }
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Mock server is not running; call start() first');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * The API key that grants access to a project
+   */
+  apiKey(projectId: string): string {
+    return this.requireProject(projectId).apiKey;
+  }
+
+  /**
+   * Add a project, replacing any project with the same id
+   */
+  seed(project: MockProjectSeed): void {
+    this.seeds = [...this.seeds.filter((p) => p.id !== project.id), project];
+    this.projects.set(project.id, createProjectState(project));
+  }
+
+  /**
+   * Back to the seeded projects, forgetting every change and request
+   */
+  reset(): void {
+    for (const state of this.projects.values()) {
+      for (const stream of state.streams) {
+        stream.end();
+      }
+    }
+    this.projects = new Map(
+      this.seeds.map((seed) => [seed.id, createProjectState(seed)])
+    );
+    this.idempotentResponses.clear();
+    this.failures = null;
+    this.malformed = null;
+    this.requests.length = 0;
+  }
+
+  /**
+   * The project as GET /projects/{id}/context would return it
+   */
+  context(projectId: string): ProjectContext {
+    return buildContext(this.requireProject(projectId));
+  }
+
+  /**
+   * Fail the next `count` API requests (not /health) with `status`, to
+   * exercise retries and the offline queue. A 429 asks the client to
+   * wait `retryAfter` seconds.
+   */
+  failNext(count: number, status = 503, retryAfter = 0): void {
+    this.failures = count > 0 ? { status, remaining: count, retryAfter } : null;
+  }
+
+  /**
+   * Pass the body of the next successful API response through `transform`
+   * before sending it, to exercise response validation against an API
+   * whose shape has drifted
+   */
+  malformNext(transform: (body: Record<string, unknown>) => unknown): void {
+    this.malformed = transform;
+  }
+
+  /**
+   * Answer a discussion as a human would in the Buildable UI
+   */
+  respondToDiscussion(discussionId: string, response: string): Discussion {
+    for (const state of this.projects.values()) {
+      const discussion = state.discussions.get(discussionId);
+      if (!discussion) {
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      discussion.status = 'responded';
+      discussion.response = response;
+      discussion.responded_at = now;
+      discussion.updated_at = now;
+      discussion.messages.push({
+        id: randomUUID(),
+        author: 'mock-user',
+        author_type: 'human',
+        message: response,
+        created_at: now,
+      });
+      this.touch(state, `Answered "${discussion.topic}"`);
+      this.publish(state, {
+        type: 'discussion_response',
+        discussion_id: discussionId,
+        response,
+        timestamp: now,
+      });
+      this.decideProposal(state, discussion);
+      return structuredClone(discussion);
+    }
+    throw new Error(`Unknown discussion ${discussionId}`);
+  }
+
+  /**
+   * Close the open event streams the way a dropped connection would.
+   * Events published meanwhile are replayed to clients that reconnect
+   * with Last-Event-ID.
+   */
+  dropStreams(): void {
+    for (const state of this.projects.values()) {
+      for (const stream of state.streams) {
+        stream.end();
+      }
+      state.streams.clear();
+    }
+  }
+
+  /**
+   * Push an event to the project's open event streams
+   */
+  emit(projectId: string, event: BuildableEvent): void {
+    this.publish(this.requireProject(projectId), event);
+  }
+
+  private requireProject(projectId: string): ProjectState {
+    const state = this.projects.get(projectId);
+    if (!state) {
+      throw new Error(`Unknown mock project ${projectId}`);
+    }
+    return state;
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const requestId = req.headers['x-request-id'];
+    if (typeof requestId === 'string') {
+      res.setHeader('X-Request-ID', requestId);
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, {
+        error: (error as Error).message,
+        code: 'INVALID_JSON',
+      });
+      return;
+    }
+    this.requests.push({
+      method: req.method || 'GET',
+      path: `${url.pathname}${url.search}`,
+      headers: req.headers,
+      body: req.method === 'GET' ? undefined : body,
+    });
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    if (this.failures) {
+      const { status, retryAfter } = this.failures;
+      if (--this.failures.remaining <= 0) {
+        this.failures = null;
+      }
+      if (status === 429) {
+        res.setHeader('Retry-After', String(retryAfter));
+      }
+      sendJson(res, status, {
+        error: `Injected failure (${status})`,
+        code: 'MOCK_FAILURE',
+      });
+      return;
+    }
+
+    const idempotencyKey = req.headers['idempotency-key'];
+    const replayKey =
+      req.method === 'POST' && typeof idempotencyKey === 'string'
+        ? `${req.headers.authorization}:${idempotencyKey}`
+        : undefined;
+    const replayed = replayKey && this.idempotentResponses.get(replayKey);
+    if (replayed) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      sendJson(res, replayed.status, replayed.body);
+      return;
+    }
+
+    let status = 200;
+    let result: unknown;
+    try {
+      const state = this.authenticate(req);
+      const route = this.routes.find(
+        (candidate) =>
+          candidate.method === req.method &&
+          candidate.pattern.test(url.pathname)
+      );
+      if (!route) {
+        throw new MockApiError(
+          404,
+          'NOT_FOUND',
+          `No route for ${req.method} ${url.pathname}`
+        );
+      }
+
+      const params = route.pattern
+        .exec(url.pathname)!
+        .slice(1)
+        .map(decodeURIComponent);
+      result = route.handler({
+        req,
+        res,
+        params,
+        query: url.searchParams,
+        body,
+        state,
+        assistant:
+          (req.headers['x-ai-assistant-id'] as string | undefined) ||
+          'unknown-assistant',
+      });
+      if (res.headersSent || res.writableEnded) {
+        return; // Streamed or answered by the handler itself
+      }
+    } catch (error) {
+      if (!(error instanceof MockApiError)) {
+        throw error;
+      }
+      status = error.status;
+      result = {
+        error: error.message,
+        code: error.code,
+        details: error.details,
+      };
+    }
+
+    if (replayKey && status < 500) {
+      this.idempotentResponses.set(replayKey, { status, body: result });
+    }
+    if (this.malformed && status < 400) {
+      result = this.malformed(
+        structuredClone(result) as Record<string, unknown>
+      );
+      this.malformed = null;
+    }
+    sendJson(res, status, result);
+  }
+
+  private authenticate(req: IncomingMessage): ProjectState {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+    if (!match) {
+      throw new MockApiError(401, 'UNAUTHORIZED', 'Missing API key');
+    }
+    for (const state of this.projects.values()) {
+      if (state.apiKey === match[1]) {
+        return state;
+      }
+    }
+    throw new MockApiError(401, 'UNAUTHORIZED', 'Invalid API key');
+  }
+
+  /**
+   * The project named in the path, which must be the key's own
+   */
+  private projectFromPath(context: RouteContext): ProjectState {
+    const [projectId] = context.params;
+    if (context.state.project.id === projectId) {
+      return context.state;
+    }
+    if (this.projects.has(projectId)) {
+      throw new MockApiError(
+        403,
+        'FORBIDDEN',
+        `API key has no access to project ${projectId}`
+      );
+    }
+    throw new MockApiError(
+      404,
+      'PROJECT_NOT_FOUND',
+      `Project ${projectId} not found`
+    );
+  }
+
+  private createRoutes(): Route[] {
+    const route = (
+      method: string,
+      path: string,
+      handler: Route['handler']
+    ): Route => ({
+      method,
+      // `:name` segments become capture groups, in order
+      pattern: new RegExp(`^${path.replace(/:\w+/g, '([^/]+)')}$`),
+      handler,
+    });
+
+    return [
+      route('GET', '/projects/:id/context', (context) => {
+        const state = this.projectFromPath(context);
+        const etag = `W/"${state.project.id}-${state.version}"`;
+        context.res.setHeader('ETag', etag);
+        if (context.req.headers['if-none-match'] === etag) {
+          context.res.writeHead(304).end();
+          return undefined;
+        }
+        return buildContext(state);
+      }),
+
+      route('GET', '/projects/:id/next-task', (context) => {
+        const state = this.projectFromPath(context);
+        const task = nextReadyTask(state);
+        if (!task) {
+          const done = state.tasks.every((t) => t.status === 'completed');
+          return {
+            success: true,
+            message: done
+              ? 'All tasks are completed'
+              : 'No task is ready; the remaining tasks are in progress or waiting on dependencies',
+          };
+        }
+        return {
+          success: true,
+          task: structuredClone(task),
+          message: `Next up: ${task.title}`,
+          context: {
+            phase: task.phase,
+            dependencies_met: true,
+            recommended_approach: task.context_summary || task.description,
+            related_files: task.files_to_modify,
+          },
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/start', (context) => {
+        const { state, task } = this.findTask(context);
+        const started = state.startedBy.get(task.id);
+
+        if (task.status === 'proposed') {
+          throw new MockApiError(
+            409,
+            'TASK_NOT_APPROVED',
+            `Task ${task.id} is waiting for approval in discussion ${task.approval_discussion_id}`
+          );
+        }
+        if (task.status === 'completed') {
+          throw new MockApiError(
+            409,
+            'TASK_ALREADY_COMPLETED',
+            `Task ${task.id} is already completed`
+          );
+        }
+        const held =
+          (task.status === 'in_progress' || task.status === 'blocked') &&
+          started;
+        const takenFrom =
+          held && started.assistant !== context.assistant
+            ? started.assistant
+            : undefined;
+        // A blocked task can be taken over too, once its holder is gone or
+        // the question that blocked it is resolved
+        if (started && takenFrom && leaseIsLive(started)) {
+          if (task.status !== 'blocked') {
+            throw claimedError(task, started);
+          }
+          const discussion = task.blocked_discussion_id
+            ? state.discussions.get(task.blocked_discussion_id)
+            : undefined;
+          if (discussion?.status !== 'resolved') {
+            throw new MockApiError(
+              409,
+              'TASK_BLOCKED',
+              `Task ${task.id} is blocked (${task.blocked_reason}) and held by ${takenFrom}`
+            );
+          }
+        }
+        if (task.status === 'blocked') {
+          task.status = 'in_progress';
+          delete task.blocked_reason;
+          delete task.blocked_discussion_id;
+          state.startedBy.set(task.id, {
+            started_at: started?.started_at || new Date().toISOString(),
+            ...newLease(context),
+          });
+          this.touch(
+            state,
+            takenFrom
+              ? `${context.assistant} unblocked "${task.title}", taking it over from ${takenFrom}`
+              : `${context.assistant} unblocked "${task.title}"`
+          );
+        } else if (held) {
+          if (started.assistant !== context.assistant) {
+            this.touch(
+              state,
+              `${context.assistant} took over "${task.title}" from ${started.assistant}`
+            );
+          }
+          state.startedBy.set(task.id, {
+            started_at: started.started_at,
+            ...newLease(context),
+          });
+        } else {
+          const unmet = task.dependencies.filter(
+            (id) => state.tasks.find((t) => t.id === id)?.status !== 'completed'
+          );
+          if (unmet.length > 0) {
+            throw new MockApiError(
+              409,
+              'DEPENDENCIES_NOT_MET',
+              `Task ${task.id} is waiting on ${unmet.join(', ')}`,
+              { unmet_dependencies: unmet }
+            );
+          }
+          task.status = 'in_progress';
+          state.startedBy.set(task.id, {
+            started_at: new Date().toISOString(),
+            ...newLease(context),
+          });
+          state.progress.set(task.id, 0);
+          this.touch(state, `${context.assistant} started "${task.title}"`);
+        }
+
+        return {
+          success: true,
+          task_id: task.id,
+          message: `Started ${task.title}`,
+          started_at: state.startedBy.get(task.id)!.started_at,
+          lease_expires_at: state.startedBy.get(task.id)!.lease_expires_at,
+          guidance: {
+            step_by_step: [
+              `Review ${task.files_to_modify.join(', ') || 'the codebase'}`,
+              ...task.acceptance_criteria.map((c) => `Make sure: ${c}`),
+            ],
+            key_considerations: [
+              task.context_summary || task.description,
+              ...task.technologies.map((t) => `Uses ${t}`),
+              ...handoffConsiderations(task),
+            ],
+            testing_requirements: task.success_checks || task.commands || [],
+            documentation_needs: [],
+          },
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/heartbeat', (context) => {
+        const { state, task } = this.findTask(context);
+        requireStarted(task);
+        const claim = state.startedBy.get(task.id);
+        if (claim && claim.assistant !== context.assistant) {
+          throw claimedError(task, claim);
+        }
+
+        const renewed = {
+          started_at: claim?.started_at || new Date().toISOString(),
+          ...newLease(context),
+        };
+        state.startedBy.set(task.id, renewed);
+        return {
+          success: true,
+          task_id: task.id,
+          lease_expires_at: renewed.lease_expires_at,
+        };
+      }),
+
+      route('DELETE', '/tasks/:taskId/claim', (context) => {
+        const { state, task } = this.findTask(context);
+        const claim = state.startedBy.get(task.id);
+        if (claim && claim.assistant !== context.assistant) {
+          throw claimedError(task, claim);
+        }
+
+        // The task stays in progress; whoever starts it next takes it over
+        if (claim) {
+          claim.lease_expires_at = new Date().toISOString();
+        }
+        return {
+          success: true,
+          task_id: task.id,
+          lease_expires_at: claim?.lease_expires_at || new Date().toISOString(),
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/progress', (context) => {
+        const { state, task } = this.findTask(context);
+        requireInProgress(task);
+        requireHolder(state, task, context);
+
+        const percentage = context.body.completion_percentage;
+        if (
+          typeof percentage !== 'number' ||
+          percentage < 0 ||
+          percentage > 100
+        ) {
+          throw new MockApiError(
+            422,
+            'VALIDATION_ERROR',
+            'completion_percentage must be a number from 0 to 100',
+            { field: 'completion_percentage' }
+          );
+        }
+
+        const now = new Date().toISOString();
+        const update =
+          (context.body.current_step as string | undefined) ||
+          (context.body.notes as string | undefined) ||
+          `${percentage}% done`;
+        state.progress.set(task.id, percentage);
+        this.touch(state, `"${task.title}": ${update}`);
+        this.publish(state, {
+          type: 'task_progress',
+          task_id: task.id,
+          progress: percentage,
+          update,
+          timestamp: now,
+        });
+
+        return {
+          success: true,
+          message: `Progress recorded for ${task.title}`,
+          updated_at: now,
+          overall_progress: overallProgress(state),
+          next_suggestions:
+            percentage >= 100
+              ? ['Run the checks and complete the task']
+              : task.acceptance_criteria,
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/complete', (context) => {
+        const { state, task } = this.findTask(context);
+        requireInProgress(task);
+        requireHolder(state, task, context);
+
+        task.status = 'completed';
+        state.progress.set(task.id, 100);
+        if (state.tasks.every((t) => t.status === 'completed')) {
+          state.project.status = 'completed';
+        }
+        this.touch(state, `${context.assistant} completed "${task.title}"`);
+
+        const next = nextReadyTask(state);
+        return {
+          success: true,
+          message: `Completed ${task.title}`,
+          completed_at: new Date().toISOString(),
+          task_summary: {
+            title: task.title,
+            time_spent: Number(context.body.time_spent_minutes) || 0,
+            files_modified: [
+              ...((context.body.files_created as string[]) || []),
+              ...((context.body.files_modified as string[]) || []),
+            ],
+            impact: `${overallProgress(state)}% of the project is done`,
+          },
+          next_task_suggestion: next && {
+            id: next.id,
+            title: next.title,
+            reason: 'All of its dependencies are now completed',
+          },
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/block', (context) => {
+        const { state, task } = this.findTask(context);
+        requireInProgress(task);
+        requireHolder(state, task, context);
+        const body = parseBody(blockTaskRequestSchema, context.body);
+
+        if (body.discussion_id && !state.discussions.has(body.discussion_id)) {
+          throw new MockApiError(
+            404,
+            'DISCUSSION_NOT_FOUND',
+            `Discussion ${body.discussion_id} not found`
+          );
+        }
+        const discussionId =
+          body.discussion_id ||
+          this.openDiscussion(state, {
+            topic: `Blocked: ${task.title}`,
+            message: body.reason,
+            task_id: task.id,
+            created_by: context.assistant,
+            urgency: body.urgency,
+          }).id;
+
+        task.status = 'blocked';
+        task.blocked_reason = body.reason;
+        task.blocked_discussion_id = discussionId;
+        this.touch(
+          state,
+          `${context.assistant} blocked "${task.title}": ${body.reason}`
+        );
+
+        return {
+          success: true,
+          message: `Blocked ${task.title}`,
+          task: structuredClone(task),
+          discussion_id: discussionId,
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/release', (context) => {
+        const { state, task } = this.findTask(context);
+        if (task.status !== 'failed') {
+          requireStarted(task);
+        }
+        requireHolder(state, task, context);
+        const body = parseBody(releaseTaskRequestSchema, context.body);
+
+        task.status = 'pending';
+        task.handoff_notes = body.handoff_notes;
+        delete task.blocked_reason;
+        delete task.blocked_discussion_id;
+        state.startedBy.delete(task.id);
+        this.touch(state, `${context.assistant} released "${task.title}"`);
+
+        return {
+          success: true,
+          message: `Released ${task.title}`,
+          task: structuredClone(task),
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/fail', (context) => {
+        const { state, task } = this.findTask(context);
+        requireStarted(task);
+        requireHolder(state, task, context);
+        const { reason } = parseBody(failTaskRequestSchema, context.body);
+
+        task.status = 'failed';
+        task.failure_reason = reason;
+        delete task.blocked_reason;
+        delete task.blocked_discussion_id;
+        state.startedBy.delete(task.id);
+        this.touch(
+          state,
+          `${context.assistant} failed "${task.title}": ${reason}`
+        );
+
+        return {
+          success: true,
+          message: `Marked ${task.title} as failed`,
+          task: structuredClone(task),
+          rollback_plan: task.rollback_plan,
+        };
+      }),
+
+      route('POST', '/projects/:id/tasks', (context) => {
+        const state = this.projectFromPath(context);
+        const fields = parseBody(newTaskSchema, context.body);
+        const approval = context.body.require_approval === true;
+        const task = buildTask(
+          newTaskId(
+            fields.title,
+            new Set(state.tasks.map((t) => t.id)),
+            'task-'
+          ),
+          fields,
+          approval ? 'proposed' : 'pending'
+        );
+        requireValidDependencies([...state.tasks, task], [task.id]);
+
+        state.tasks.push(task);
+        const discussion = approval
+          ? this.requestApproval(state, [task], context)
+          : undefined;
+        this.touch(state, `${context.assistant} added "${task.title}"`);
+
+        return {
+          success: true,
+          message: discussion
+            ? `Proposed ${task.title}; waiting for approval`
+            : `Added ${task.title}`,
+          task: structuredClone(task),
+          approval_discussion_id: discussion?.id,
+        };
+      }),
+
+      route('PATCH', '/tasks/:taskId', (context) => {
+        const { state, task } = this.findTask(context);
+        const changes = parseBody(taskFieldsSchema.partial(), context.body);
+        if (task.status === 'completed') {
+          throw new MockApiError(
+            409,
+            'TASK_ALREADY_COMPLETED',
+            `Task ${task.id} is already completed`
+          );
+        }
+        const updated = applyTaskChanges(task, changes);
+        requireValidDependencies(
+          state.tasks.map((t) => (t === task ? updated : t)),
+          [task.id]
+        );
+
+        Object.assign(task, updated);
+        this.touch(state, `${context.assistant} edited "${task.title}"`);
+        return {
+          success: true,
+          message: `Updated ${task.title}`,
+          task: structuredClone(task),
+        };
+      }),
+
+      route('POST', '/tasks/:taskId/split', (context) => {
+        const { state, task } = this.findTask(context);
+        const body = parseBody(splitBodySchema, context.body);
+        if (task.status === 'completed') {
+          throw new MockApiError(
+            409,
+            'TASK_ALREADY_COMPLETED',
+            `Task ${task.id} is already completed`
+          );
+        }
+        requireHolder(state, task, context);
+
+        const approval = context.body.require_approval === true;
+        const ids = subtaskIds(
+          task.id,
+          body.subtasks.length,
+          new Set(state.tasks.map((t) => t.id))
+        );
+        const plan = planSplit(
+          task,
+          body,
+          ids,
+          approval ? 'proposed' : 'pending'
+        );
+        requireValidDependencies(
+          [
+            ...state.tasks.map((t) => (t === task ? plan.parent : t)),
+            ...plan.subtasks,
+          ],
+          [task.id, ...ids]
+        );
+
+        // Subtasks come first in plan order, the task they make up after
+        state.tasks.splice(state.tasks.indexOf(task), 0, ...plan.subtasks);
+        Object.assign(task, plan.parent);
+        state.startedBy.delete(task.id);
+        state.progress.delete(task.id);
+        const discussion = approval
+          ? this.requestApproval(state, plan.subtasks, context)
+          : undefined;
+        this.touch(
+          state,
+          `${context.assistant} split "${task.title}" into ${ids.length} tasks`
+        );
+
+        return {
+          success: true,
+          message: `Split ${task.title} into ${ids.join(', ')}${
+            discussion ? '; waiting for approval' : ''
+          }`,
+          task: structuredClone(task),
+          subtasks: structuredClone(plan.subtasks),
+          approval_discussion_id: discussion?.id,
+        };
+      }),
+
+      route('POST', '/projects/:id/discuss', (context) => {
+        const state = this.projectFromPath(context);
+        const { body } = context;
+        if (
+          typeof body.title !== 'string' ||
+          typeof body.message !== 'string'
+        ) {
+          throw new MockApiError(
+            422,
+            'VALIDATION_ERROR',
+            'title and message are required'
+          );
+        }
+
+        const taskContext = (body.context || {}) as Record<string, unknown>;
+        const discussion = this.openDiscussion(state, {
+          topic: body.title,
+          message: body.message,
+          urgency: body.urgency as Discussion['urgency'] | undefined,
+          task_id: taskContext.task_id as string | undefined,
+          created_by: (body.created_by as string) || context.assistant,
+        });
+
+        return {
+          success: true,
+          discussion_id: discussion.id,
+          status: discussion.status,
+          created_at: discussion.created_at,
+          estimated_response_time: 'A few hours',
+        };
+      }),
+
+      route('GET', '/projects/:id/discussions', (context) => {
+        const state = this.projectFromPath(context);
+        const status = context.query.get('status') || 'open';
+        const taskId = context.query.get('task_id');
+        const discussions = [...state.discussions.values()].filter(
+          (d) =>
+            (status === 'all' ||
+              (status === 'open'
+                ? d.status !== 'resolved'
+                : d.status === status)) &&
+            (!taskId || d.task_id === taskId)
+        );
+        return { discussions: structuredClone(discussions) };
+      }),
+
+      route('GET', '/projects/:id/discussions/:discussionId', (context) => {
+        return structuredClone(this.findDiscussion(context).discussion);
+      }),
+
+      route(
+        'POST',
+        '/projects/:id/discussions/:discussionId/messages',
+        (context) => {
+          const { state, discussion } = this.findDiscussion(context);
+          if (typeof context.body.message !== 'string') {
+            throw new MockApiError(
+              422,
+              'VALIDATION_ERROR',
+              'message is required'
+            );
+          }
+
+          const now = new Date().toISOString();
+          discussion.messages.push({
+            id: randomUUID(),
+            author: (context.body.author as string) || context.assistant,
+            author_type: 'ai',
+            message: context.body.message,
+            created_at: now,
+          });
+          if (context.body.requires_human_response) {
+            discussion.status = 'pending';
+          }
+          discussion.updated_at = now;
+          this.touch(state, `Follow-up on "${discussion.topic}"`);
+          return structuredClone(discussion);
+        }
+      ),
+
+      route(
+        'POST',
+        '/projects/:id/discussions/:discussionId/resolve',
+        (context) => {
+          const { state, discussion } = this.findDiscussion(context);
+          const now = new Date().toISOString();
+          discussion.status = 'resolved';
+          discussion.resolution = context.body.resolution as string | undefined;
+          discussion.resolved_at = now;
+          discussion.updated_at = now;
+          this.touch(state, `Resolved "${discussion.topic}"`);
+          return structuredClone(discussion);
+        }
+      ),
+
+      route('GET', '/projects/:id/ai-connections', (context) => {
+        const state = this.projectFromPath(context);
+        return { connections: [...state.connections.values()] };
+      }),
+
+      route('POST', '/internal/ai-connections', (context) => {
+        const { state, body } = context;
+        const assistant = (body.ai_assistant_id as string) || context.assistant;
+        const status = body.status as MockConnection['status'];
+        const metadata = (body.metadata || {}) as Record<string, unknown>;
+        const now = new Date().toISOString();
+        const existing = state.connections.get(assistant);
+
+        state.connections.set(assistant, {
+          id: existing?.id || randomUUID(),
+          ai_assistant_id: assistant,
+          status,
+          connected_at:
+            !existing || existing.status === 'disconnected'
+              ? now
+              : existing.connected_at,
+          last_activity_at: now,
+          current_task_id: body.current_task_id as string | undefined,
+          capabilities: (metadata.capabilities as string[]) || [],
+          metadata,
+        });
+        this.publish(state, {
+          type: 'connection_status',
+          ai_assistant_id: assistant,
+          status,
+          timestamp: now,
+        });
+        return { success: true };
+      }),
+
+      route('GET', '/projects/:id/events', (context) => {
+        const state = this.projectFromPath(context);
+        const { req, res } = context;
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+        res.write(': connected\n\n');
+
+        const lastEventId = Number(req.headers['last-event-id']);
+        if (Number.isInteger(lastEventId)) {
+          for (const entry of state.events) {
+            if (entry.id > lastEventId) {
+              writeEvent(res, entry);
+            }
+          }
+        }
+
+        state.streams.add(res);
+        req.on('close', () => state.streams.delete(res));
+        return undefined;
+      }),
+    ];
+  }
+
+  private findTask(context: RouteContext): {
+    state: ProjectState;
+    task: TaskSummary;
+  } {
+    const [taskId] = context.params;
+    const task = context.state.tasks.find((t) => t.id === taskId);
+    if (!task) {
+      throw new MockApiError(
+        404,
+        'TASK_NOT_FOUND',
+        `Task ${taskId} not found in project ${context.state.project.id}`
+      );
+    }
+    return { state: context.state, task };
+  }
+
+  private findDiscussion(context: RouteContext): {
+    state: ProjectState;
+    discussion: Discussion;
+  } {
+    const state = this.projectFromPath(context);
+    const discussion = state.discussions.get(context.params[1]);
+    if (!discussion) {
+      throw new MockApiError(
+        404,
+        'DISCUSSION_NOT_FOUND',
+        `Discussion ${context.params[1]} not found`
+      );
+    }
+    return { state, discussion };
+  }
+
+  private openDiscussion(
+    state: ProjectState,
+    fields: Pick<Discussion, 'topic' | 'message' | 'task_id' | 'created_by'> & {
+      urgency?: Discussion['urgency'];
+    }
+  ): Discussion {
+    const now = new Date().toISOString();
+    const discussion: Discussion = {
+      id: `disc-${++this.discussionCounter}`,
+      topic: fields.topic,
+      message: fields.message,
+      status: 'pending',
+      urgency: fields.urgency || 'medium',
+      task_id: fields.task_id,
+      created_by: fields.created_by,
+      created_at: now,
+      updated_at: now,
+      messages: [
+        {
+          id: randomUUID(),
+          author: fields.created_by,
+          author_type: 'ai',
+          message: fields.message,
+          created_at: now,
+        },
+      ],
+    };
+    state.discussions.set(discussion.id, discussion);
+    this.touch(state, `Question asked: "${discussion.topic}"`);
+    return discussion;
+  }
+
+  /**
+   * Ask for approval of proposed tasks, which stay proposed until a human
+   * answers yes or no
+   */
+  private requestApproval(
+    state: ProjectState,
+    tasks: TaskSummary[],
+    context: RouteContext
+  ): Discussion {
+    const discussion = this.openDiscussion(state, {
+      ...approvalRequest(tasks, context.body.reason as string | undefined),
+      task_id: tasks[0].id,
+      created_by: (context.body.created_by as string) || context.assistant,
+    });
+    for (const task of tasks) {
+      task.approval_discussion_id = discussion.id;
+    }
+    return discussion;
+  }
+
+  /**
+   * Apply a human's yes or no to the tasks proposed in a discussion
+   */
+  private decideProposal(state: ProjectState, discussion: Discussion): void {
+    const decision = approvalDecision(discussion.response);
+    const proposed = state.tasks.some(
+      (task) =>
+        task.status === 'proposed' &&
+        task.approval_discussion_id === discussion.id
+    );
+    if (!decision || !proposed) {
+      return;
+    }
+
+    state.tasks = decideProposal(state.tasks, discussion.id, decision).tasks;
+    const now = new Date().toISOString();
+    discussion.status = 'resolved';
+    discussion.resolution = decision;
+    discussion.resolved_at = now;
+    discussion.updated_at = now;
+    this.touch(state, `Proposed tasks ${decision}: "${discussion.topic}"`);
+  }
+
+  private publish(state: ProjectState, event: BuildableEvent): void {
+    const entry = { id: ++this.eventCounter, event };
+    state.events.push(entry);
+    if (state.events.length > EVENT_BUFFER_SIZE) {
+      state.events.shift();
+    }
+    for (const stream of state.streams) {
+      writeEvent(stream, entry);
+    }
+  }
+
+  /**
+   * Record a change: new ETag for the context, and a line of activity
+   */
+  private touch(state: ProjectState, activity: string): void {
+    state.version++;
+    state.project.updated_at = new Date().toISOString();
+    state.activity.unshift(activity);
+    state.activity.length = Math.min(state.activity.length, ACTIVITY_SIZE);
+  }
+}
+
+/**
+ * Create a mock server and start listening
+ */
+export async function startMockServer(
+  options: MockServerOptions = {}
+): Promise<MockBuildableServer> {
+  const server = new MockBuildableServer(options);
+  await server.start();
+  return server;
+}
+
+function createProjectState(seed: MockProjectSeed): ProjectState {
+  const now = new Date().toISOString();
+  const tasks = (seed.tasks || []).map(taskFromSeed);
+  // Seeded work has no one sending heartbeats, so anyone can take it over
+  const startedBy = new Map(
+    tasks
+      .filter((task) => task.status === 'in_progress')
+      .map((task) => [
+        task.id,
+        { assistant: 'seed', started_at: now, lease_expires_at: now },
+      ])
+  );
+
+  return {
+    apiKey: seed.apiKey || mockApiKey(seed.id),
+    project: {
+      title: seed.id,
+      description: '',
+      status: 'in_progress',
+      created_at: now,
+      updated_at: now,
+      ...seed.project,
+      id: seed.id,
+    },
+    plan: {
+      overview: '',
+      technology_stack: [],
+      architecture: '',
+      timeline: '',
+      requirements: [],
+      technical_specifications: '',
+      ...seed.plan,
+    },
+    tasks,
+    startedBy,
+    progress: new Map(),
+    activity: [],
+    discussions: new Map(),
+    connections: new Map(),
+    version: 1,
+    events: [],
+    streams: new Set(),
+  };
+}
+
+function buildContext(state: ProjectState): ProjectContext {
+  const count = (status: TaskSummary['status']) =>
+    state.tasks.filter((task) => task.status === status).length;
+  const current =
+    state.tasks.find((task) => task.status === 'in_progress') ||
+    nextReadyTask(state);
+
+  return structuredClone({
+    project: state.project,
+    plan: state.plan,
+    tasks: {
+      total: state.tasks.length,
+      completed: count('completed'),
+      in_progress: count('in_progress'),
+      pending: count('pending'),
+      summary: state.tasks,
+    },
+    context: {
+      recent_activity: state.activity,
+      current_phase: current?.phase || 'Done',
+      next_priorities: state.tasks
+        .filter((task) => task.status === 'pending' && isReady(state, task))
+        .slice(0, 3)
+        .map((task) => task.title),
+    },
+  });
+}
+
+function isReady(state: ProjectState, task: TaskSummary): boolean {
+  return task.dependencies.every(
+    (id) => state.tasks.find((t) => t.id === id)?.status === 'completed'
+  );
+}
+
+function nextReadyTask(state: ProjectState): TaskSummary | undefined {
+  return state.tasks.find(
+    (task) => task.status === 'pending' && isReady(state, task)
+  );
+}
+
+function overallProgress(state: ProjectState): number {
+  if (state.tasks.length === 0) {
+    return 100;
+  }
+  const done = state.tasks.filter((t) => t.status === 'completed').length;
+  return Math.round((done / state.tasks.length) * 100);
+}
+
+function requireInProgress(task: TaskSummary): void {
+  requireStarted(task);
+  if (task.status === 'blocked') {
+    throw new MockApiError(
+      409,
+      'TASK_BLOCKED',
+      `Task ${task.id} is blocked (${task.blocked_reason}); start it again once that is resolved`
+    );
+  }
+}
+
+/**
+ * In progress or blocked: started and not finished
+ */
+function requireStarted(task: TaskSummary): void {
+  if (task.status === 'completed') {
+    throw new MockApiError(
+      409,
+      'TASK_ALREADY_COMPLETED',
+      `Task ${task.id} is already completed`
+    );
+  }
+  if (task.status !== 'in_progress' && task.status !== 'blocked') {
+    throw new MockApiError(
+      409,
+      'TASK_NOT_STARTED',
+      `Task ${task.id} has not been started`
+    );
+  }
+}
+
+/**
+ * Only the assistant holding a started task moves it; anyone else has to
+ * start it first, which takes it over once the lease has run out
+ */
+function requireHolder(
+  state: ProjectState,
+  task: TaskSummary,
+  context: RouteContext
+): void {
+  const claim = state.startedBy.get(task.id);
+  if (claim && claim.assistant !== context.assistant) {
+    throw claimedError(task, claim);
+  }
+}
+
+/**
+ * A claim for the caller, lasting the `lease_seconds` it asked for
+ */
+function newLease(
+  context: RouteContext
+): Pick<Claim, 'assistant' | 'lease_expires_at'> {
+  const seconds = Number(context.body.lease_seconds) || DEFAULT_LEASE_SECONDS;
+  return {
+    assistant: context.assistant,
+    lease_expires_at: new Date(Date.now() + seconds * 1000).toISOString(),
+  };
+}
+
+function leaseIsLive(claim: Claim): boolean {
+  return Date.parse(claim.lease_expires_at) > Date.now();
+}
+
+function claimedError(task: TaskSummary, claim: Claim): MockApiError {
+  return new MockApiError(
+    409,
+    'TASK_CLAIMED',
+    `Task ${task.id} is claimed by ${claim.assistant}${
+      leaseIsLive(claim) ? ` until ${claim.lease_expires_at}` : ''
+    }`,
+    { claimed_by: claim.assistant, lease_expires_at: claim.lease_expires_at }
+  );
+}
+
+function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: Record<string, unknown>
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const field = issue.path.join('.');
+    throw new MockApiError(
+      422,
+      'VALIDATION_ERROR',
+      `${field ? `${field}: ` : ''}${issue.message}`,
+      { field }
+    );
+  }
+  return result.data;
+}
+
+function requireValidDependencies(
+  tasks: TaskSummary[],
+  changed: string[]
+): void {
+  const problems = findDependencyProblems(tasks, changed);
+  if (problems) {
+    throw new MockApiError(
+      422,
+      'INVALID_DEPENDENCIES',
+      describeDependencyProblems(problems),
+      { ...problems }
+    );
+  }
+}
+
+async function readJsonBody(
+  req: IncomingMessage
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new Error('Invalid JSON body');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function writeEvent(
+  res: ServerResponse,
+  entry: { id: number; event: BuildableEvent }
+): void {
+  res.write(
+    `id: ${entry.id}\nevent: ${entry.event.type}\ndata: ${JSON.stringify(
+      entry.event
+    )}\n\n`
+  );
+}
@@ -0,0 +1,301 @@
+import type {
+  NextTaskResponse,
+  ProjectContext,
+  StartTaskResponse,
+  TaskHandoff,
+  TaskSummary,
+  TaskWorkingState,
+} from './types';
+
+// Markdown renderers for the MCP prompts. Kept free of any I/O so the
+// server decides where tasks and guidance come from.
+
+function bulletList(items: string[] | undefined, empty = 'None'): string {
+  if (!items || items.length === 0) {
+    return `- ${empty}`;
+  }
+  return items.map((item) => `- ${item}`).join('\n');
+}
+
+function checklist(items: string[] | undefined): string {
+  if (!items || items.length === 0) {
+    return '- [ ] (none specified)';
+  }
+  return items.map((item) => `- [ ] ${item}`).join('\n');
+}
+
+function codeBlock(lines: string[]): string {
+  return ['```', ...lines, '```'].join('\n');
+}
+
+/**
+ * Everything an agent needs to know about a task, rendered from the
+ * TaskSummary AI execution fields
+ */
+export function renderTaskBrief(task: TaskSummary): string {
+  const sections = [
+    `## Task: ${task.title}`,
+    `**ID:** ${task.id} · **Status:** ${task.status} · **Phase:** ${task.phase} · **Difficulty:** ${task.difficulty} · **Estimate:** ${task.estimated_hours}h`,
+    task.context_summary || task.description,
+  ];
+
+  if (task.context_summary && task.description !== task.context_summary) {
+    sections.push(`### Description\n${task.description}`);
+  }
+
+  sections.push(
+    `### Files to modify\n${bulletList(task.files_to_modify, 'Not specified')}`,
+    `### Acceptance criteria\n${checklist(task.acceptance_criteria)}`
+  );
+
+  if (task.technologies.length > 0) {
+    sections.push(`### Technologies\n${task.technologies.join(', ')}`);
+  }
+  if (task.dependencies.length > 0) {
+    sections.push(`### Depends on\n${bulletList(task.dependencies)}`);
+  }
+  if (task.reference_impl) {
+    sections.push(`### Reference implementation\n${task.reference_impl}`);
+  }
+  if (task.commands && task.commands.length > 0) {
+    sections.push(`### Commands\n${codeBlock(task.commands)}`);
+  }
+  if (task.success_checks && task.success_checks.length > 0) {
+    sections.push(`### Success checks\n${checklist(task.success_checks)}`);
+  }
+  if (task.rollback_plan) {
+    sections.push(`### Rollback plan\n${task.rollback_plan}`);
+  }
+  if (task.handoff_notes) {
+    sections.push(`### Handoff notes\n${task.handoff_notes}`);
+  }
+  if (task.failure_reason) {
+    sections.push(`### Last attempt failed\n${task.failure_reason}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * The guidance block returned by start_task
+ */
+export function renderGuidance(
+  guidance: StartTaskResponse['guidance']
+): string {
+  if (!guidance) {
+    return '';
+  }
+
+  return [
+    '## Guidance from Buildable',
+    `### Step by step\n${bulletList(guidance.step_by_step)}`,
+    `### Key considerations\n${bulletList(guidance.key_considerations)}`,
+    `### Testing requirements\n${bulletList(guidance.testing_requirements)}`,
+    `### Documentation needs\n${bulletList(guidance.documentation_needs)}`,
+  ].join('\n\n');
+}
+
+/**
+ * Where a task stands according to its journal
+ */
+export function renderWorkingState(state: TaskWorkingState): string {
+  const sections = [
+    `Progress ${state.progress}% as of ${state.updated_at}: ${state.status_update}`,
+  ];
+
+  if (state.current_step) {
+    sections.push(`### In progress\n${state.current_step}`);
+  }
+  sections.push(`### Completed steps\n${bulletList(state.completed_steps)}`);
+  if (state.challenges.length > 0) {
+    sections.push(`### Open challenges\n${bulletList(state.challenges)}`);
+  }
+  sections.push(
+    `### Files touched\n${bulletList(
+      state.files_touched.map((file) => `\`${file}\``)
+    )}`
+  );
+  if (state.notes) {
+    sections.push(`### Notes\n${state.notes}`);
+  }
+  sections.push(
+    `### Recent updates\n${bulletList(
+      state.recent_updates.map(
+        (update) =>
+          `${update.at} · ${update.progress}% · ${update.status_update}`
+      )
+    )}`
+  );
+
+  return sections.join('\n\n');
+}
+
+/**
+ * The Markdown a session leaves behind for whoever picks the task up next
+ */
+export function renderHandoffNotes(
+  state: TaskWorkingState,
+  task?: TaskSummary
+): string {
+  return `${[
+    `# Handoff: ${task ? `${task.title} (${state.task_id})` : state.task_id}`,
+    `The last session stopped here. Call \`pick_up_task\` with task_id "${state.task_id}" to pick it back up.`,
+    `## Where it stands\n${renderWorkingState(state)}`,
+  ].join('\n\n')}\n`;
+}
+
+export function renderWorkOnNextTaskPrompt(
+  next: NextTaskResponse,
+  context: ProjectContext
+): string {
+  const header = [
+    `# Work on the next task in "${context.project.title}"`,
+    `Current phase: ${context.context.current_phase}. ${context.tasks.completed}/${context.tasks.total} tasks completed, ${context.tasks.in_progress} in progress.`,
+  ];
+
+  if (!next.task) {
+    return [
+      ...header,
+      `There is no task available right now: ${next.message}`,
+      'Summarise the project state for the user and ask how they would like to proceed. If something is blocking progress, use `create_discussion`.',
+    ].join('\n\n');
+  }
+
+  const sections = [...header, renderTaskBrief(next.task)];
+
+  if (next.context) {
+    sections.push(
+      [
+        '## Recommended approach',
+        next.context.recommended_approach,
+        `Dependencies met: ${next.context.dependencies_met ? 'yes' : 'no'}`,
+        `Related files:\n${bulletList(next.context.related_files)}`,
+      ].join('\n\n')
+    );
+  }
+
+  sections.push(
+    [
+      '## Workflow',
+      `1. Confirm with the user, then call \`start_task\` with task_id "${next.task.id}" and your planned approach.`,
+      '2. Follow the guidance returned by `start_task` and the acceptance criteria above.',
+      '3. Call `update_progress` after each meaningful step (files touched, current step, challenges).',
+      '4. If you need a decision, call `create_discussion` instead of guessing; if you cannot continue until it is answered, call `block_task`.',
+      '5. Run the commands and success checks, then call `complete_task` with a full completion report.',
+      '6. If you have to stop, call `release_task` with handoff notes; if the task cannot be done as planned, call `fail_task` and follow the rollback plan it returns.',
+    ].join('\n')
+  );
+
+  return sections.join('\n\n');
+}
+
+export function renderResumeTaskPrompt(
+  task: TaskSummary,
+  started?: StartTaskResponse,
+  handoff?: TaskHandoff
+): string {
+  const sections = [`# Resume work on "${task.title}"`];
+
+  if (task.status === 'completed') {
+    sections.push(
+      'This task is already completed. Check with the user before making further changes.'
+    );
+  } else if (task.status === 'pending') {
+    sections.push(
+      `This task has not been started yet. Call \`start_task\` with task_id "${task.id}" before working on it.`
+    );
+  } else if (task.status === 'blocked') {
+    sections.push(
+      `This task is blocked: ${task.blocked_reason}. Check discussion ${task.blocked_discussion_id} with \`get_discussion\`; once it is resolved, call \`start_task\` with task_id "${task.id}" to pick the task back up.`
+    );
+  } else if (task.status === 'failed') {
+    sections.push(
+      `The last attempt at this task failed. Call \`start_task\` with task_id "${task.id}" to try again with a different approach.`
+    );
+  } else if (started) {
+    sections.push(`Started at ${started.started_at}.`);
+  }
+
+  sections.push(renderTaskBrief(task));
+
+  const guidance = renderGuidance(started?.guidance);
+  if (guidance) {
+    sections.push(guidance);
+  }
+
+  if (handoff?.working_state) {
+    sections.push(
+      `## Where the last session left off\n${renderWorkingState(
+        handoff.working_state
+      )}`
+    );
+  }
+  if (handoff && handoff.open_discussions.length > 0) {
+    sections.push(
+      `## Open discussions\n${bulletList(
+        handoff.open_discussions.map(
+          (discussion) =>
+            `${discussion.id}: ${discussion.topic}${
+              discussion.response ? ` (answered: ${discussion.response})` : ''
+            }`
+        )
+      )}`
+    );
+  }
+
+  sections.push(
+    [
+      '## Next steps',
+      '1. Inspect the files listed above to see what has already been done.',
+      '2. Work through the remaining acceptance criteria.',
+      '3. Report with `update_progress` as you go and finish with `complete_task`.',
+    ].join('\n')
+  );
+
+  return sections.join('\n\n');
+}
+
+export function renderCompletionReportPrompt(
+  task: TaskSummary,
+  started?: StartTaskResponse
+): string {
+  const sections = [
+    `# Write the completion report for "${task.title}"`,
+    'Before calling `complete_task`, verify the work against every item below and be honest about anything left undone.',
+    `## Acceptance criteria\n${checklist(task.acceptance_criteria)}`,
+  ];
+
+  if (task.success_checks && task.success_checks.length > 0) {
+    sections.push(`## Success checks\n${checklist(task.success_checks)}`);
+  }
+  if (task.commands && task.commands.length > 0) {
+    sections.push(
+      `## Run these and include the results\n${codeBlock(task.commands)}`
+    );
+  }
+  if (started?.guidance) {
+    sections.push(
+      `## Testing requirements\n${bulletList(started.guidance.testing_requirements)}`,
+      `## Documentation needs\n${bulletList(started.guidance.documentation_needs)}`
+    );
+  }
+  sections.push(
+    `## Files expected to change\n${bulletList(task.files_to_modify, 'Not specified')}`
+  );
+
+  sections.push(
+    [
+      '## Report',
+      `Call \`complete_task\` with task_id "${task.id}" and:`,
+      '- `completion_notes`: what was built, how each acceptance criterion is met, and any deviations from the plan',
+      '- `files_modified`: every file you created or changed',
+      '- `testing_completed` / `documentation_updated`: only true if actually done',
+      '- `time_spent`: total minutes spent',
+      task.rollback_plan
+        ? `If the work cannot be completed, describe what happened and follow the rollback plan instead: ${task.rollback_plan}`
+        : 'If the work cannot be completed, explain why in a `create_discussion` instead of completing the task.',
+    ].join('\n')
+  );
+
+  return sections.join('\n\n');
+}
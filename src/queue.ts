@@ -0,0 +1,136 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { QueuedRequest } from './types';
+
+export const DEFAULT_QUEUE_DIR = path.join(os.homedir(), '.bldbl', 'queue');
+
+/**
+ * On-disk journal of mutating API calls made while the Buildable API was
+ * unreachable.
+ *
+ * Each entry is one JSON file whose name starts with a sortable timestamp,
+ * so a directory listing gives replay order. Entries are keyed by their
+ * idempotency key: enqueueing the same key twice is a no-op, and replaying
+ * an entry that already reached the API is dropped server-side.
+ * Entries the API rejects outright are moved to a `failed` subdirectory
+ * instead of blocking the rest of the queue.
+ */
+export class OfflineQueue {
+  private sequence = 0;
+
+  constructor(private directory: string) {}
+
+  get path(): string {
+    return this.directory;
+  }
+
+  async enqueue(entry: QueuedRequest): Promise<boolean> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const existing = await this.findFile(this.directory, entry.id);
+    if (existing) {
+      return false;
+    }
+
+    const stamp = Date.now().toString().padStart(15, '0');
+    const seq = (this.sequence++ % 1000).toString().padStart(3, '0');
+    const file = path.join(this.directory, `${stamp}-${seq}-${entry.id}.json`);
+
+    // Write then rename so a crash never leaves a half-written entry
+    const tmp = `${file}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry, null, 2), 'utf8');
+    await fs.rename(tmp, file);
+    return true;
+  }
+
+  /**
+   * Pending entries in replay order
+   */
+  async list(): Promise<QueuedRequest[]> {
+    return this.readAll(this.directory);
+  }
+
+  /**
+   * Entries the API rejected and that will not be replayed
+   */
+  async listFailed(): Promise<QueuedRequest[]> {
+    return this.readAll(this.failedDirectory);
+  }
+
+  async remove(id: string): Promise<void> {
+    const file = await this.findFile(this.directory, id);
+    if (file) {
+      await fs.rm(path.join(this.directory, file), { force: true });
+    }
+  }
+
+  async update(entry: QueuedRequest): Promise<void> {
+    const file = await this.findFile(this.directory, entry.id);
+    if (file) {
+      await fs.writeFile(
+        path.join(this.directory, file),
+        JSON.stringify(entry, null, 2),
+        'utf8'
+      );
+    }
+  }
+
+  async markFailed(entry: QueuedRequest): Promise<void> {
+    const file = await this.findFile(this.directory, entry.id);
+    if (!file) {
+      return;
+    }
+
+    await fs.mkdir(this.failedDirectory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.failedDirectory, file),
+      JSON.stringify(entry, null, 2),
+      'utf8'
+    );
+    await fs.rm(path.join(this.directory, file), { force: true });
+  }
+
+  async size(): Promise<number> {
+    return (await this.entryFiles(this.directory)).length;
+  }
+
+  private get failedDirectory(): string {
+    return path.join(this.directory, 'failed');
+  }
+
+  private async readAll(directory: string): Promise<QueuedRequest[]> {
+    const entries: QueuedRequest[] = [];
+
+    for (const file of await this.entryFiles(directory)) {
+      try {
+        const raw = await fs.readFile(path.join(directory, file), 'utf8');
+        entries.push(JSON.parse(raw) as QueuedRequest);
+      } catch {
+        // Skip entries removed concurrently or left unreadable
+      }
+    }
+
+    return entries;
+  }
+
+  private async entryFiles(directory: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(directory);
+      return files.filter((file) => file.endsWith('.json')).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async findFile(
+    directory: string,
+    id: string
+  ): Promise<string | undefined> {
+    const files = await this.entryFiles(directory);
+    return files.find((file) => file.endsWith(`-${id}.json`));
+  }
+}
@@ -0,0 +1,301 @@
+import { z } from 'zod';
+
+// Runtime schemas for Buildable API responses. The response types in
+// types.ts are inferred from these, so the two can't drift apart.
+// Responses are only checked against them and returned as sent, so fields
+// the API adds later still reach the caller.
+
+export const projectStatusSchema = z.enum([
+  'planning',
+  'in_progress',
+  'completed',
+  'paused',
+]);
+// 'proposed': created by an assistant, waiting for a human to approve it.
+// 'blocked' and 'failed' tasks stopped before completion; starting them
+// again picks them back up.
+export const taskStatusSchema = z.enum([
+  'proposed',
+  'pending',
+  'in_progress',
+  'blocked',
+  'failed',
+  'completed',
+]);
+export const difficultySchema = z.enum(['easy', 'medium', 'hard']);
+export const urgencySchema = z.enum(['low', 'medium', 'high']);
+export const discussionStatusSchema = z.enum([
+  'pending',
+  'responded',
+  'resolved',
+]);
+
+export const taskSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  status: taskStatusSchema,
+  phase: z.string(),
+  difficulty: difficultySchema,
+  estimated_hours: z.number(),
+  technologies: z.array(z.string()),
+  dependencies: z.array(z.string()),
+  files_to_modify: z.array(z.string()),
+  acceptance_criteria: z.array(z.string()),
+
+  // AI Execution Fields for Autonomous Task Execution
+  context_summary: z.string().optional(), // 1-3 sentence scope for agent context
+  commands: z.array(z.string()).optional(), // Shell commands for lint, tests, build
+  reference_impl: z.string().optional(), // Pseudocode/snippet for expected structure
+  rollback_plan: z.string().optional(), // How to revert if task fails
+  success_checks: z.array(z.string()).optional(), // Machine-checkable assertions
+  estimated_tokens: z.number().optional(), // Prompt-size hint for scheduling
+  skill_tags: z.array(z.string()).optional(), // Agent skill-based routing tags
+
+  approval_discussion_id: z.string().optional(), // Where a proposed task is approved
+  blocked_reason: z.string().optional(), // What a blocked task is waiting on
+  blocked_discussion_id: z.string().optional(), // Where the blocker is being discussed
+  failure_reason: z.string().optional(), // What went wrong when it last failed
+  handoff_notes: z.string().optional(), // Left by the assistant that released it
+});
+
+// The fields an assistant can author: everything but the id, status and
+// what the status transitions record, which the API assigns. Also checks
+// create/update/split bodies.
+export const taskFieldsSchema = taskSummarySchema
+  .omit({
+    id: true,
+    status: true,
+    approval_discussion_id: true,
+    blocked_reason: true,
+    blocked_discussion_id: true,
+    failure_reason: true,
+    handoff_notes: true,
+  })
+  .extend({
+    title: z.string().trim().min(1),
+    estimated_hours: z.number().nonnegative(),
+  });
+
+export const newTaskSchema = taskFieldsSchema
+  .partial()
+  .required({ title: true });
+
+export const projectContextSchema = z.object({
+  project: z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string(),
+    status: projectStatusSchema,
+    created_at: z.string(),
+    updated_at: z.string(),
+  }),
+  plan: z.object({
+    overview: z.string(),
+    technology_stack: z.array(z.string()),
+    architecture: z.string(),
+    timeline: z.string(),
+    requirements: z.array(z.string()),
+    technical_specifications: z.string(),
+  }),
+  tasks: z.object({
+    total: z.number(),
+    completed: z.number(),
+    in_progress: z.number(),
+    pending: z.number(),
+    summary: z.array(taskSummarySchema),
+  }),
+  context: z.object({
+    recent_activity: z.array(z.string()),
+    current_phase: z.string(),
+    next_priorities: z.array(z.string()),
+  }),
+});
+
+// What list_tasks shows per task unless asked for everything
+export const taskListItemSchema = taskSummarySchema.pick({
+  id: true,
+  title: true,
+  status: true,
+  phase: true,
+  difficulty: true,
+  estimated_hours: true,
+  dependencies: true,
+  skill_tags: true,
+  context_summary: true,
+});
+
+export const taskCandidateSchema = z.object({
+  task: taskListItemSchema,
+  score: z.number(),
+  reasons: z.array(z.string()), // Why it fits the caller
+});
+
+export const nextTaskResponseSchema = z.object({
+  success: z.boolean(),
+  task: taskSummarySchema.optional(),
+  message: z.string(),
+  candidates: z.array(taskCandidateSchema).optional(), // Best first, when filtered
+  context: z
+    .object({
+      phase: z.string(),
+      dependencies_met: z.boolean(),
+      recommended_approach: z.string(),
+      related_files: z.array(z.string()),
+    })
+    .optional(),
+});
+
+export const startTaskResponseSchema = z.object({
+  success: z.boolean(),
+  task_id: z.string(),
+  message: z.string(),
+  started_at: z.string(),
+  lease_expires_at: z.string().optional(), // The claim lapses unless renewed
+  guidance: z
+    .object({
+      step_by_step: z.array(z.string()),
+      key_considerations: z.array(z.string()),
+      testing_requirements: z.array(z.string()),
+      documentation_needs: z.array(z.string()),
+    })
+    .optional(),
+});
+
+// Renewing or releasing a claim on a started task
+export const leaseResponseSchema = z.object({
+  success: z.boolean(),
+  task_id: z.string(),
+  lease_expires_at: z.string(),
+});
+
+export const progressResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  updated_at: z.string(),
+  overall_progress: z.number(),
+  next_suggestions: z.array(z.string()).optional(),
+});
+
+export const completeTaskResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  completed_at: z.string(),
+  task_summary: z.object({
+    title: z.string(),
+    time_spent: z.number(),
+    files_modified: z.array(z.string()),
+    impact: z.string(),
+  }),
+  next_task_suggestion: z
+    .object({
+      id: z.string(),
+      title: z.string(),
+      reason: z.string(),
+    })
+    .optional(),
+});
+
+export const taskResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  task: taskSummarySchema,
+  approval_discussion_id: z.string().optional(), // Set while approval is pending
+});
+
+export const splitTaskResponseSchema = taskResponseSchema.extend({
+  subtasks: z.array(taskSummarySchema),
+});
+
+// Bodies of block, release and fail, and what they return
+const reasonSchema = z.string().trim().min(1);
+
+export const blockTaskRequestSchema = z.object({
+  reason: reasonSchema,
+  discussion_id: z.string().optional(),
+  urgency: urgencySchema.optional(),
+});
+
+export const releaseTaskRequestSchema = z.object({
+  handoff_notes: reasonSchema,
+});
+
+export const failTaskRequestSchema = z.object({
+  reason: reasonSchema,
+  details: z.string().optional(),
+});
+
+export const taskTransitionResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  task: taskSummarySchema,
+  discussion_id: z.string().optional(), // The blocker's discussion
+  rollback_plan: z.string().optional(), // How to undo a failed attempt
+});
+
+export const discussionResponseSchema = z.object({
+  success: z.boolean(),
+  discussion_id: z.string(),
+  status: discussionStatusSchema,
+  created_at: z.string(),
+  estimated_response_time: z.string().optional(),
+  ai_response: z.string().optional(),
+  follow_up_questions: z.array(z.string()).optional(),
+});
+
+export const discussionMessageSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  author_type: z.enum(['human', 'ai']),
+  message: z.string(),
+  created_at: z.string(),
+});
+
+export const discussionSchema = z.object({
+  id: z.string(),
+  topic: z.string(),
+  message: z.string(),
+  status: discussionStatusSchema,
+  urgency: urgencySchema,
+  task_id: z.string().optional(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  responded_at: z.string().optional(),
+  resolved_at: z.string().optional(),
+  response: z.string().optional(), // Latest human answer, if any
+  resolution: z.string().optional(),
+  messages: z.array(discussionMessageSchema),
+});
+
+export const discussionListSchema = z.object({
+  discussions: z.array(discussionSchema),
+});
+
+export const aiConnectionSchema = z.object({
+  id: z.string(),
+  ai_assistant_id: z.string(),
+  status: z.enum(['connected', 'working', 'disconnected']),
+  connected_at: z.string(),
+  last_activity_at: z.string(),
+  current_task_id: z.string().optional(),
+  capabilities: z.array(z.string()),
+  metadata: z.record(z.unknown()),
+});
+
+// The connections endpoint only guarantees what getConnectionStatus reads
+export const aiConnectionListSchema = z.object({
+  connections: z.array(
+    z.object({
+      ai_assistant_id: z.string(),
+      status: z.string(),
+      connected_at: z.string(),
+      last_activity_at: z.string(),
+    })
+  ),
+});
+
+export const healthResponseSchema = z.object({
+  status: z.string(),
+  timestamp: z.string(),
+});
@@ -0,0 +1,195 @@
+import os from 'node:os';
+import path from 'node:path';
+import { JsonRecordStore } from './json-store';
+import type { TaskTimeSession } from './types';
+
+export const DEFAULT_SESSION_DIR = path.join(
+  os.homedir(),
+  '.bldbl',
+  'sessions'
+);
+
+interface StoredSession {
+  task_id: string;
+  started_at: string;
+  segments: { start: string; end?: string }[];
+  paused_by?: 'user' | 'disconnect';
+}
+
+/**
+ * Wall-clock time tracking per task, persisted to a JSON file so sessions
+ * survive server restarts.
+ *
+ * A session is a list of segments; the last one is open while the task is
+ * running. Pausing closes it, resuming opens a new one. Sessions paused
+ * because the client disconnected resume on the next activity, sessions
+ * paused explicitly only resume on request.
+ *
+ * Several trackers can share the file (one per HTTP session, or several
+ * servers for the same project): each change is applied to the file as it
+ * is on disk, and `pauseAll` only stops the sessions this tracker runs.
+ */
+export class TaskTimeTracker {
+  private store: JsonRecordStore<StoredSession>;
+  private running = new Set<string>();
+
+  constructor(file: string) {
+    this.store = new JsonRecordStore(file);
+  }
+
+  async start(taskId: string): Promise<TaskTimeSession> {
+    const session = await this.store.update((sessions) => {
+      const existing = sessions.get(taskId);
+      if (existing) {
+        // Restarting a task continues its session rather than resetting it
+        this.openSegment(existing);
+        return existing;
+      }
+
+      const now = new Date().toISOString();
+      const created: StoredSession = {
+        task_id: taskId,
+        started_at: now,
+        segments: [{ start: now }],
+      };
+      sessions.set(taskId, created);
+      return created;
+    });
+
+    this.running.add(taskId);
+    return this.describe(session);
+  }
+
+  async pause(
+    taskId: string,
+    by: 'user' | 'disconnect' = 'user'
+  ): Promise<TaskTimeSession | null> {
+    this.running.delete(taskId);
+    const session = await this.store.update((sessions) => {
+      const current = sessions.get(taskId);
+      if (!current) {
+        return false;
+      }
+      this.closeSegment(current, by);
+      return current;
+    });
+    return session ? this.describe(session) : null;
+  }
+
+  async resume(taskId: string): Promise<TaskTimeSession | null> {
+    const session = await this.store.update((sessions) => {
+      const current = sessions.get(taskId);
+      if (!current) {
+        return false;
+      }
+      this.openSegment(current);
+      return current;
+    });
+    if (!session) {
+      return null;
+    }
+
+    this.running.add(taskId);
+    return this.describe(session);
+  }
+
+  /**
+   * Record activity on a task: resumes it if it was only paused because
+   * the previous session disconnected
+   */
+  async touch(taskId: string): Promise<TaskTimeSession | null> {
+    const session = await this.store.get(taskId);
+    if (!session) {
+      return null;
+    }
+    if (session.paused_by !== 'disconnect') {
+      return this.describe(session);
+    }
+    return this.resume(taskId);
+  }
+
+  async get(taskId: string): Promise<TaskTimeSession | null> {
+    const session = await this.store.get(taskId);
+    return session ? this.describe(session) : null;
+  }
+
+  async list(): Promise<TaskTimeSession[]> {
+    return [...(await this.store.read()).values()].map((s) => this.describe(s));
+  }
+
+  /**
+   * Close the session and forget it, returning the final tally
+   */
+  async finish(taskId: string): Promise<TaskTimeSession | null> {
+    this.running.delete(taskId);
+    const session = await this.store.update((sessions) => {
+      const current = sessions.get(taskId);
+      if (!current) {
+        return false;
+      }
+      this.closeSegment(current);
+      sessions.delete(taskId);
+      return current;
+    });
+    return session ? this.describe(session) : null;
+  }
+
+  /**
+   * Pause every session this tracker is running, e.g. on shutdown
+   */
+  async pauseAll(by: 'user' | 'disconnect'): Promise<void> {
+    const running = [...this.running];
+    this.running.clear();
+    if (running.length === 0) {
+      return;
+    }
+
+    await this.store.update((sessions) => {
+      for (const taskId of running) {
+        const session = sessions.get(taskId);
+        if (session) {
+          this.closeSegment(session, by);
+        }
+      }
+    });
+  }
+
+  private openSegment(session: StoredSession): void {
+    const last = session.segments[session.segments.length - 1];
+    if (!last || last.end) {
+      session.segments.push({ start: new Date().toISOString() });
+    }
+    session.paused_by = undefined;
+  }
+
+  private closeSegment(
+    session: StoredSession,
+    by?: 'user' | 'disconnect'
+  ): void {
+    const open = session.segments[session.segments.length - 1];
+    if (open && !open.end) {
+      open.end = new Date().toISOString();
+      if (by) {
+        session.paused_by = by;
+      }
+    }
+  }
+
+  private describe(session: StoredSession): TaskTimeSession {
+    const now = Date.now();
+    const elapsedMs = session.segments.reduce((total, segment) => {
+      const end = segment.end ? Date.parse(segment.end) : now;
+      return total + Math.max(0, end - Date.parse(segment.start));
+    }, 0);
+    const last = session.segments[session.segments.length - 1];
+
+    return {
+      task_id: session.task_id,
+      state: last && !last.end ? 'running' : 'paused',
+      started_at: session.started_at,
+      elapsed_minutes: Math.round(elapsedMs / 60000),
+      segments: session.segments.length,
+      paused_by: session.paused_by,
+    };
+  }
+}
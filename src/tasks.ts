@@ -0,0 +1,680 @@
+import type { z } from 'zod';
+import { ValidationError } from './errors';
+import { buildTaskGraph } from './graph';
+import { newTaskSchema } from './schemas';
+import type {
+  ListTasksOptions,
+  NewTask,
+  NextTaskOptions,
+  NextTaskResponse,
+  SplitTaskRequest,
+  TaskCandidate,
+  TaskList,
+  TaskListItem,
+  TaskSortField,
+  TaskStatus,
+  TaskSummary,
+} from './types';
+
+// Filtering, sorting and trimming of the task summaries in the project
+// context, and the rules for authoring tasks. Pure functions; the backends
+// decide where the tasks come from and where changes are stored.
+
+export const DEFAULT_TASK_PAGE_SIZE = 50;
+export const MAX_TASK_PAGE_SIZE = 200;
+export const DEFAULT_CANDIDATES = 3;
+export const MAX_CANDIDATES = 20;
+
+// Bulky fields only worth sending when the agent is about to do the task
+const EXECUTION_FIELDS = [
+  'reference_impl',
+  'commands',
+  'rollback_plan',
+] as const;
+
+const STATUS_RANK: Record<TaskSummary['status'], number> = {
+  in_progress: 0,
+  blocked: 1,
+  failed: 2,
+  pending: 3,
+  proposed: 4,
+  completed: 5,
+};
+
+const DIFFICULTY_RANK: Record<TaskSummary['difficulty'], number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+};
+
+/**
+ * One page of the tasks matching `options`
+ */
+export function queryTasks(
+  tasks: TaskSummary[],
+  options: ListTasksOptions = {}
+): TaskList {
+  const matching = sortTasks(
+    tasks.filter((task) => matchesTask(task, options)),
+    options.sort || 'plan',
+    options.order || 'asc'
+  );
+
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit = Math.min(
+    Math.max(1, Math.floor(options.limit ?? DEFAULT_TASK_PAGE_SIZE)),
+    MAX_TASK_PAGE_SIZE
+  );
+  const end = offset + limit;
+
+  return {
+    tasks: matching
+      .slice(offset, end)
+      .map((task) => (options.full ? task : compactTask(task))),
+    total: matching.length,
+    offset,
+    limit,
+    next_offset: end < matching.length ? end : undefined,
+  };
+}
+
+function matchesTask(task: TaskSummary, options: ListTasksOptions): boolean {
+  if (options.status?.length && !options.status.includes(task.status)) {
+    return false;
+  }
+  if (
+    options.phase &&
+    task.phase.toLowerCase() !== options.phase.trim().toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    options.difficulty?.length &&
+    !options.difficulty.includes(task.difficulty)
+  ) {
+    return false;
+  }
+  if (
+    options.skill_tags?.length &&
+    !overlaps(task.skill_tags || [], options.skill_tags)
+  ) {
+    return false;
+  }
+  if (
+    options.technologies?.length &&
+    !overlaps(task.technologies, options.technologies)
+  ) {
+    return false;
+  }
+  if (options.files?.length && !touchesFiles(task, options.files)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether any of `options` narrows the next task
+ */
+export function hasNextTaskFilters(options: NextTaskOptions): boolean {
+  return Object.values(options).some((value) => value !== undefined);
+}
+
+/**
+ * The ready tasks that fit `options` as a next-task answer, best first:
+ * most matching skills, then on the critical path, then the most tasks
+ * unblocked, then plan order. Tasks tagged only with skills the caller
+ * doesn't have are skipped; untagged tasks fit anyone.
+ */
+export function recommendNextTasks(
+  tasks: TaskSummary[],
+  options: NextTaskOptions
+): NextTaskResponse {
+  const graph = buildTaskGraph(tasks);
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const critical = new Set(graph.critical_path.tasks);
+  const excluded = new Set(options.exclude_task_ids || []);
+  const skills = (options.skills || []).filter((skill) => skill.trim());
+  const skipped = { excluded: 0, skills: 0, difficulty: 0, budget: 0 };
+  const ranked: (TaskCandidate & { order: number; summary: TaskSummary })[] =
+    [];
+
+  graph.ready.forEach((id, order) => {
+    const task = byId.get(id)!;
+    const matched = [...(task.skill_tags || []), ...task.technologies].filter(
+      (tag) => overlaps([tag], skills)
+    );
+
+    if (excluded.has(id)) {
+      skipped.excluded++;
+    } else if (
+      skills.length > 0 &&
+      task.skill_tags?.length &&
+      matched.length === 0
+    ) {
+      skipped.skills++;
+    } else if (
+      options.max_difficulty &&
+      DIFFICULTY_RANK[task.difficulty] > DIFFICULTY_RANK[options.max_difficulty]
+    ) {
+      skipped.difficulty++;
+    } else if (
+      options.token_budget !== undefined &&
+      task.estimated_tokens !== undefined &&
+      task.estimated_tokens > options.token_budget
+    ) {
+      skipped.budget++;
+    } else {
+      const unblocks = graph.nodes
+        .find((node) => node.id === id)!
+        .dependents.filter(
+          (dependent) => byId.get(dependent)!.status !== 'completed'
+        ).length;
+      const reasons = [
+        task.dependencies.length > 0
+          ? 'Every dependency is completed'
+          : 'Has no dependencies',
+      ];
+      let score = 0;
+
+      if (matched.length > 0) {
+        score += 10 * matched.length;
+        reasons.push(`Matches your skills: ${unique(matched).join(', ')}`);
+      } else if (skills.length > 0) {
+        reasons.push('Needs no particular skills');
+      }
+      if (critical.has(id)) {
+        score += 5;
+        reasons.push('On the critical path');
+      }
+      if (unblocks > 0) {
+        score += 2 * unblocks;
+        reasons.push(
+          `Unblocks ${unblocks} ${unblocks === 1 ? 'task' : 'tasks'}`
+        );
+      }
+      if (options.token_budget !== undefined) {
+        reasons.push(
+          task.estimated_tokens !== undefined
+            ? `Fits the token budget (~${task.estimated_tokens} tokens)`
+            : 'Has no token estimate to check against the budget'
+        );
+      }
+      ranked.push({
+        task: compactTask(task),
+        score,
+        reasons,
+        order,
+        summary: task,
+      });
+    }
+  });
+  ranked.sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const best = ranked[0]?.summary;
+  if (!best) {
+    return {
+      success: true,
+      message: noFittingTask(tasks, graph.ready, skipped, options),
+    };
+  }
+
+  const limit = Math.min(
+    Math.max(1, Math.floor(options.limit ?? DEFAULT_CANDIDATES)),
+    MAX_CANDIDATES
+  );
+  return {
+    success: true,
+    task: best,
+    message: `Next up: ${best.title}`,
+    context: {
+      phase: best.phase,
+      dependencies_met: true,
+      recommended_approach: best.context_summary || best.description,
+      related_files: best.files_to_modify,
+    },
+    candidates: ranked
+      .slice(0, limit)
+      .map(({ task, score, reasons }) => ({ task, score, reasons })),
+  };
+}
+
+function noFittingTask(
+  tasks: TaskSummary[],
+  ready: string[],
+  skipped: Record<'excluded' | 'skills' | 'difficulty' | 'budget', number>,
+  options: NextTaskOptions
+): string {
+  if (tasks.every((task) => task.status === 'completed')) {
+    return 'All tasks are completed';
+  }
+  if (ready.length === 0) {
+    return 'No task is ready; the remaining tasks are in progress or waiting on dependencies';
+  }
+
+  const count = (n: number, singular: string, plural: string) =>
+    n > 0 ? [`${n} ${n === 1 ? singular : plural}`] : [];
+  const why = [
+    ...count(skipped.excluded, 'is excluded', 'are excluded'),
+    ...count(skipped.skills, 'needs other skills', 'need other skills'),
+    ...count(
+      skipped.difficulty,
+      `is harder than ${options.max_difficulty}`,
+      `are harder than ${options.max_difficulty}`
+    ),
+    ...count(
+      skipped.budget,
+      'exceeds the token budget',
+      'exceed the token budget'
+    ),
+  ];
+  return `None of the ${ready.length} ready tasks fit: ${why.join(', ')}`;
+}
+
+/**
+ * The list view of a task: enough to pick one, not to do it
+ */
+export function compactTask(task: TaskSummary): TaskListItem {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    phase: task.phase,
+    difficulty: task.difficulty,
+    estimated_hours: task.estimated_hours,
+    dependencies: task.dependencies,
+    skill_tags: task.skill_tags,
+    context_summary: task.context_summary,
+  };
+}
+
+/**
+ * A task without its bulky AI execution fields
+ */
+export function withoutExecutionFields(task: TaskSummary): TaskSummary {
+  const trimmed = { ...task };
+  for (const field of EXECUTION_FIELDS) {
+    delete trimmed[field];
+  }
+  return trimmed;
+}
+
+function sortTasks(
+  tasks: TaskSummary[],
+  field: TaskSortField,
+  order: 'asc' | 'desc'
+): TaskSummary[] {
+  if (field === 'plan') {
+    return order === 'desc' ? [...tasks].reverse() : tasks;
+  }
+
+  const direction = order === 'desc' ? -1 : 1;
+  const key = (task: TaskSummary): string | number => {
+    switch (field) {
+      case 'status':
+        return STATUS_RANK[task.status];
+      case 'difficulty':
+        return DIFFICULTY_RANK[task.difficulty];
+      case 'estimated_hours':
+        return task.estimated_hours;
+      default:
+        return task[field].toLowerCase();
+    }
+  };
+
+  // Array.prototype.sort is stable, so ties keep plan order
+  return [...tasks].sort((a, b) => {
+    const left = key(a);
+    const right = key(b);
+    return left < right ? -direction : left > right ? direction : 0;
+  });
+}
+
+function overlaps(values: string[], wanted: string[]): boolean {
+  const lowered = new Set(values.map((value) => value.toLowerCase()));
+  return wanted.some((value) => lowered.has(value.trim().toLowerCase()));
+}
+
+/**
+ * A path matches the file itself or, as a directory, anything below it
+ */
+function touchesFiles(task: TaskSummary, paths: string[]): boolean {
+  const wanted = paths.map(normalizePath).filter(Boolean);
+  return task.files_to_modify
+    .map(normalizePath)
+    .some((file) =>
+      wanted.some((path) => file === path || file.startsWith(`${path}/`))
+    );
+}
+
+function normalizePath(path: string): string {
+  return path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '');
+}
+
+export interface DependencyProblems {
+  missing: { task_id: string; dependency: string }[]; // Not a task of the project
+  cycles: string[][]; // Tasks that would wait on each other
+}
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+// How a human answers an approval discussion; anything else is a question
+const APPROVAL_PATTERN = /^\s*(approved?|yes|ok(ay)?|lgtm|go ahead)\b/i;
+const REJECTION_PATTERN =
+  /^\s*(reject(ed)?|no|declined?|don'?t (do|proceed|split|add|approve))\b/i;
+
+/**
+ * Authored fields checked against `schema`, unknown keys dropped. Throws a
+ * ValidationError naming the first bad field.
+ */
+export function parseTaskFields<T extends z.ZodTypeAny>(
+  schema: T,
+  fields: unknown
+): z.infer<T> {
+  const result = schema.safeParse(fields);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const field = issue.path.join('.');
+    throw new ValidationError(`${field ? `${field}: ` : ''}${issue.message}`, {
+      code: 'VALIDATION_ERROR',
+      details: { field },
+    });
+  }
+  return result.data;
+}
+
+/**
+ * A task from authored fields, with the API's defaults for the rest
+ */
+export function buildTask(
+  id: string,
+  fields: NewTask,
+  status: TaskStatus
+): TaskSummary {
+  return {
+    title: fields.title,
+    description: '',
+    phase: 'Implementation',
+    difficulty: 'medium',
+    estimated_hours: 1,
+    technologies: [],
+    dependencies: [],
+    files_to_modify: [],
+    acceptance_criteria: [],
+    ...withoutUndefined(fields),
+    id,
+    status,
+  };
+}
+
+/**
+ * What a task's previous attempt left for whoever starts it next
+ */
+export function handoffConsiderations(task: TaskSummary): string[] {
+  return [
+    ...(task.handoff_notes ? [`Handoff notes: ${task.handoff_notes}`] : []),
+    ...(task.failure_reason
+      ? [`The last attempt failed: ${task.failure_reason}`]
+      : []),
+  ];
+}
+
+/**
+ * A task with edited fields; fields left undefined keep their value
+ */
+export function applyTaskChanges(
+  task: TaskSummary,
+  changes: Partial<NewTask>
+): TaskSummary {
+  return { ...task, ...withoutUndefined(changes) };
+}
+
+/**
+ * The subtasks of a split request, checked like new tasks
+ */
+export function parseSplitRequest(request: SplitTaskRequest): NewTask[] {
+  if (!Array.isArray(request.subtasks) || request.subtasks.length < 2) {
+    throw new ValidationError('A task is split into at least two subtasks', {
+      code: 'VALIDATION_ERROR',
+      details: { field: 'subtasks' },
+    });
+  }
+  return request.subtasks.map((subtask) =>
+    parseTaskFields(newTaskSchema, subtask)
+  );
+}
+
+/**
+ * A task split into subtasks. Each subtask waits on the task's own
+ * dependencies and the task waits on every subtask, so whatever depended
+ * on it still does. A task in progress goes back to pending.
+ */
+export function planSplit(
+  parent: TaskSummary,
+  request: Pick<SplitTaskRequest, 'subtasks' | 'sequential'>,
+  ids: string[],
+  status: TaskStatus
+): { parent: TaskSummary; subtasks: TaskSummary[] } {
+  const subtasks = request.subtasks.map((fields, i) =>
+    buildTask(
+      ids[i],
+      {
+        phase: parent.phase,
+        technologies: parent.technologies,
+        skill_tags: parent.skill_tags,
+        ...fields,
+        dependencies: unique([
+          ...parent.dependencies,
+          ...(request.sequential && i > 0 ? [ids[i - 1]] : []),
+          ...(fields.dependencies || []),
+        ]),
+      },
+      status
+    )
+  );
+
+  return {
+    parent: {
+      ...parent,
+      status: parent.status === 'in_progress' ? 'pending' : parent.status,
+      dependencies: unique([...parent.dependencies, ...ids]),
+    },
+    subtasks,
+  };
+}
+
+/**
+ * What the tasks in `changed` break: dependencies on tasks that don't
+ * exist, and cycles through them. Problems elsewhere in the plan are not
+ * theirs to fix.
+ */
+export function findDependencyProblems(
+  tasks: TaskSummary[],
+  changed: string[]
+): DependencyProblems | null {
+  const graph = buildTaskGraph(tasks);
+  const touched = new Set(changed);
+  const missing = graph.dangling.filter((entry) => touched.has(entry.task_id));
+  const cycles = graph.cycles.filter((cycle) =>
+    cycle.some((id) => touched.has(id))
+  );
+  return missing.length > 0 || cycles.length > 0 ? { missing, cycles } : null;
+}
+
+export function describeDependencyProblems(
+  problems: DependencyProblems
+): string {
+  return [
+    ...problems.missing.map(
+      (entry) => `${entry.task_id} depends on unknown task ${entry.dependency}`
+    ),
+    ...problems.cycles.map(
+      (cycle) => `${cycle.join(', ')} would depend on each other`
+    ),
+  ].join('; ');
+}
+
+/**
+ * Throw a ValidationError if `changed` would leave the plan with unknown
+ * dependencies or a cycle
+ */
+export function checkDependencies(
+  tasks: TaskSummary[],
+  changed: string[]
+): void {
+  const problems = findDependencyProblems(tasks, changed);
+  if (problems) {
+    throw new ValidationError(describeDependencyProblems(problems), {
+      code: 'INVALID_DEPENDENCIES',
+      details: { ...problems },
+    });
+  }
+}
+
+/**
+ * An id for a new task, from its title, not yet in `taken`
+ */
+export function newTaskId(
+  title: string,
+  taken: Set<string>,
+  prefix = ''
+): string {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 40) || 'task';
+  const base = `${prefix}${slug}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * `<parent>-1`, `<parent>-2`, ... skipping ids already taken
+ */
+export function subtaskIds(
+  parentId: string,
+  count: number,
+  taken: Set<string>
+): string[] {
+  const ids: string[] = [];
+  for (let n = 1; ids.length < count; n++) {
+    const id = `${parentId}-${n}`;
+    if (!taken.has(id)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * The question that asks a human to approve proposed tasks
+ */
+export function approvalRequest(
+  tasks: TaskSummary[],
+  reason?: string
+): { topic: string; message: string } {
+  const one = tasks.length === 1;
+  const list = tasks
+    .map(
+      (task) =>
+        `- ${task.id}: ${task.title} (${task.estimated_hours}h, ${task.difficulty})`
+    )
+    .join('\n');
+  return {
+    topic: one
+      ? `Approve new task: ${tasks[0].title}`
+      : `Approve ${tasks.length} new tasks`,
+    message: [
+      ...(reason ? [reason, ''] : []),
+      `Proposed ${one ? 'task' : 'tasks'}:`,
+      list,
+      '',
+      `Reply "approve" to add ${
+        one ? 'it' : 'them'
+      } to the plan or "reject" to drop ${one ? 'it' : 'them'}.`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Read a human's answer to an approval request; null when it is neither
+ * a yes nor a no
+ */
+export function approvalDecision(
+  response: string | undefined
+): ApprovalDecision | null {
+  if (!response) {
+    return null;
+  }
+  if (REJECTION_PATTERN.test(response)) {
+    return 'rejected';
+  }
+  return APPROVAL_PATTERN.test(response) ? 'approved' : null;
+}
+
+/**
+ * The plan after a decision on the tasks proposed in `discussionId`:
+ * approved ones become pending, rejected ones are dropped along with any
+ * dependency on them
+ */
+export function decideProposal(
+  tasks: TaskSummary[],
+  discussionId: string,
+  decision: ApprovalDecision
+): { tasks: TaskSummary[]; changed: string[]; removed: string[] } {
+  const proposed = new Set(
+    tasks
+      .filter(
+        (task) =>
+          task.status === 'proposed' &&
+          task.approval_discussion_id === discussionId
+      )
+      .map((task) => task.id)
+  );
+  const changed: string[] = [];
+  const result: TaskSummary[] = [];
+
+  for (const task of tasks) {
+    if (proposed.has(task.id)) {
+      if (decision === 'approved') {
+        result.push({ ...task, status: 'pending' });
+        changed.push(task.id);
+      }
+    } else if (
+      decision === 'rejected' &&
+      task.dependencies.some((id) => proposed.has(id))
+    ) {
+      result.push({
+        ...task,
+        dependencies: task.dependencies.filter((id) => !proposed.has(id)),
+      });
+      changed.push(task.id);
+    } else {
+      result.push(task);
+    }
+  }
+
+  return {
+    tasks: result,
+    changed,
+    removed: decision === 'rejected' ? [...proposed] : [],
+  };
+}
+
+function withoutUndefined<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -1,98 +1,135 @@
 // Buildable MCP Client Types
 // Comprehensive type definitions for AI assistant integration
 
+import type { z } from 'zod';
+import type { Logger } from './logger';
+import type {
+  aiConnectionSchema,
+  completeTaskResponseSchema,
+  difficultySchema,
+  discussionMessageSchema,
+  discussionResponseSchema,
+  discussionSchema,
+  discussionStatusSchema,
+  leaseResponseSchema,
+  nextTaskResponseSchema,
+  newTaskSchema,
+  progressResponseSchema,
+  projectContextSchema,
+  projectStatusSchema,
+  splitTaskResponseSchema,
+  startTaskResponseSchema,
+  taskCandidateSchema,
+  taskFieldsSchema,
+  taskListItemSchema,
+  taskResponseSchema,
+  taskStatusSchema,
+  taskSummarySchema,
+  taskTransitionResponseSchema,
+  urgencySchema,
+} from './schemas';
+
 export interface BuildableConfig {
   apiUrl: string;
   apiKey: string;
-  projectId: string;
+  projectId: string; // Default project
+  projects?: ProjectConfig[]; // Other projects reachable through forProject()
   aiAssistantId?: string;
   timeout?: number;
 }
 
-export interface ProjectContext {
-  project: {
-    id: string;
-    title: string;
-    description: string;
-    status: 'planning' | 'in_progress' | 'completed' | 'paused';
-    created_at: string;
-    updated_at: string;
-  };
-  plan: {
-    overview: string;
-    technology_stack: string[];
-    architecture: string;
-    timeline: string;
-    requirements: string[];
-    technical_specifications: string;
-  };
-  tasks: {
-    total: number;
-    completed: number;
-    in_progress: number;
-    pending: number;
-    summary: TaskSummary[];
-  };
-  context: {
-    recent_activity: string[];
-    current_phase: string;
-    next_priorities: string[];
-  };
+export interface ProjectConfig {
+  id: string;
+  apiKey?: string; // Defaults to BuildableConfig.apiKey
+  name?: string;
 }
 
-export interface TaskSummary {
-  id: string;
-  title: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'completed';
-  phase: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  estimated_hours: number;
-  technologies: string[];
-  dependencies: string[];
-  files_to_modify: string[];
-  acceptance_criteria: string[];
-
-  // AI Execution Fields for Autonomous Task Execution
-  context_summary?: string; // 1-3 sentence scope for agent context
-  commands?: string[]; // Shell commands for lint, tests, build
-  reference_impl?: string; // Pseudocode/snippet for expected structure
-  rollback_plan?: string; // How to revert if task fails
-  success_checks?: string[]; // Machine-checkable assertions
-  estimated_tokens?: number; // Prompt-size hint for scheduling
-  skill_tags?: string[]; // Agent skill-based routing tags
-}
-
-export interface NextTaskResponse {
-  success: boolean;
-  task?: TaskSummary;
-  message: string;
-  context?: {
-    phase: string;
-    dependencies_met: boolean;
-    recommended_approach: string;
-    related_files: string[];
-  };
+export type ProjectContext = z.infer<typeof projectContextSchema>;
+
+export type TaskSummary = z.infer<typeof taskSummarySchema>;
+
+export type NextTaskResponse = z.infer<typeof nextTaskResponseSchema>;
+
+// Narrow getNextTask to what the caller can do. When the API doesn't rank
+// candidates itself, the client does.
+export interface NextTaskOptions {
+  skills?: string[]; // Tasks tagged with other skills (or technologies) are skipped
+  max_difficulty?: Difficulty;
+  token_budget?: number; // Skip tasks whose estimated_tokens exceed it
+  exclude_task_ids?: string[];
+  limit?: number; // Candidates to return, default 3
+}
+
+export type TaskCandidate = z.infer<typeof taskCandidateSchema>;
+
+export interface ListTasksOptions {
+  status?: TaskStatus[];
+  phase?: string; // Case-insensitive
+  difficulty?: Difficulty[];
+  skill_tags?: string[]; // Tasks with any of these tags
+  technologies?: string[]; // Tasks using any of these
+  files?: string[]; // Tasks touching any of these files or directories
+  sort?: TaskSortField; // default 'plan', the order of the build plan
+  order?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number; // default 50, max 200
+  full?: boolean; // Whole tasks with their AI execution fields
+}
+
+export type TaskSortField =
+  | 'plan'
+  | 'title'
+  | 'status'
+  | 'phase'
+  | 'difficulty'
+  | 'estimated_hours';
+
+export type TaskListItem = z.infer<typeof taskListItemSchema>;
+
+export interface TaskList {
+  tasks: (TaskListItem | TaskSummary)[];
+  total: number; // Matching tasks, before pagination
+  offset: number;
+  limit: number;
+  next_offset?: number; // Absent on the last page
+}
+
+export interface GetTaskOptions {
+  full?: boolean; // Include reference_impl, commands and rollback_plan
+}
+
+// Task authoring: the backend assigns ids and statuses
+export type TaskFields = z.infer<typeof taskFieldsSchema>;
+
+export type NewTask = z.infer<typeof newTaskSchema>; // Only the title is required
+
+export interface CreateTaskRequest extends NewTask {
+  require_approval?: boolean; // Stay 'proposed' until a human approves it
+  reason?: string; // Why the task is needed, shown to whoever approves it
+}
+
+export type UpdateTaskRequest = Partial<TaskFields>;
+
+export interface SplitTaskRequest {
+  subtasks: NewTask[]; // Each also waits on the task's own dependencies
+  sequential?: boolean; // Each subtask depends on the one before it
+  require_approval?: boolean; // Subtasks stay 'proposed' until approved
+  reason?: string;
 }
 
+export type TaskResponse = z.infer<typeof taskResponseSchema>;
+
+export type SplitTaskResponse = z.infer<typeof splitTaskResponseSchema>;
+
 export interface StartTaskOptions {
   approach?: string;
   estimated_duration?: number;
   notes?: string;
 }
 
-export interface StartTaskResponse {
-  success: boolean;
-  task_id: string;
-  message: string;
-  started_at: string;
-  guidance?: {
-    step_by_step: string[];
-    key_considerations: string[];
-    testing_requirements: string[];
-    documentation_needs: string[];
-  };
-}
+export type StartTaskResponse = z.infer<typeof startTaskResponseSchema>;
+
+export type LeaseResponse = z.infer<typeof leaseResponseSchema>;
 
 export interface ProgressUpdate {
   progress: number; // 0-100
@@ -100,47 +137,61 @@ export interface ProgressUpdate {
   completed_steps?: string[];
   current_step?: string;
   challenges?: string[];
-  time_spent?: number; // minutes
+  time_spent?: number; // minutes, tracked automatically when omitted
   files_modified?: string[];
   notes?: string;
 }
 
-export interface ProgressResponse {
-  success: boolean;
-  message: string;
-  updated_at: string;
-  overall_progress: number;
-  next_suggestions?: string[];
-}
+export type ProgressResponse = z.infer<typeof progressResponseSchema> & {
+  queued?: boolean; // Stored in the offline queue, not yet delivered
+  git_changes?: GitChanges; // What was detected locally and reported
+};
 
 export interface CompleteTaskRequest {
   completion_notes: string;
   files_modified: string[];
   testing_completed: boolean;
   documentation_updated: boolean;
-  time_spent: number; // minutes
+  time_spent?: number; // minutes, tracked automatically when omitted
   challenges_faced?: string[];
   lessons_learned?: string[];
   next_recommendations?: string[];
+  verification?: VerificationReport; // Evidence from runTaskChecks
+  require_passing_checks?: boolean; // Refuse to complete if verification failed
 }
 
-export interface CompleteTaskResponse {
-  success: boolean;
-  message: string;
-  completed_at: string;
-  task_summary: {
-    title: string;
-    time_spent: number;
-    files_modified: string[];
-    impact: string;
-  };
-  next_task_suggestion?: {
-    id: string;
-    title: string;
-    reason: string;
-  };
+export type CompleteTaskResponse = z.infer<
+  typeof completeTaskResponseSchema
+> & {
+  queued?: boolean; // Stored in the offline queue, not yet delivered
+  git_changes?: GitChanges; // What was detected locally and reported
+};
+
+// Stopping work on a task without completing it
+export interface BlockTaskRequest {
+  reason: string; // What the task is waiting on
+  discussion_id?: string; // An existing discussion about it; opened when omitted
+  urgency?: Urgency; // Of the discussion that is opened
 }
 
+export interface ReleaseTaskRequest {
+  handoff_notes: string; // What's done, what's left, where to pick up
+  time_spent?: number; // minutes, tracked automatically when omitted
+}
+
+export interface FailTaskRequest {
+  reason: string; // What went wrong
+  details?: string; // Error output, failed checks, what was tried
+  files_modified?: string[]; // Files touched before giving up
+  time_spent?: number; // minutes, tracked automatically when omitted
+}
+
+export type TaskTransitionResponse = z.infer<
+  typeof taskTransitionResponseSchema
+> & {
+  git_changes?: GitChanges; // What a failed attempt changed locally
+};
+
 export interface CreateDiscussionRequest {
   topic: string;
   message: string;
@@ -152,30 +203,35 @@ export interface CreateDiscussionRequest {
   };
 }
 
-export interface DiscussionResponse {
-  success: boolean;
-  discussion_id: string;
-  status: 'pending' | 'responded' | 'resolved';
-  created_at: string;
-  estimated_response_time?: string;
-  ai_response?: string;
-  follow_up_questions?: string[];
+export type DiscussionResponse = z.infer<typeof discussionResponseSchema>;
+
+export type DiscussionMessage = z.infer<typeof discussionMessageSchema>;
+
+export type Discussion = z.infer<typeof discussionSchema>;
+
+export interface ListDiscussionsOptions {
+  task_id?: string;
+  status?: 'open' | 'pending' | 'responded' | 'resolved' | 'all'; // 'open' = not yet resolved
 }
 
-export interface AIConnection {
-  id: string;
-  ai_assistant_id: string;
-  status: 'connected' | 'working' | 'disconnected';
-  connected_at: string;
-  last_activity_at: string;
-  current_task_id?: string;
-  capabilities: string[];
-  metadata: Record<string, unknown>;
+export interface WaitForDiscussionOptions {
+  timeout?: number; // ms, default 60000
+  pollInterval?: number; // ms, default 5000
+}
+
+export interface WaitForDiscussionResult {
+  discussion: Discussion;
+  timed_out: boolean;
 }
 
+export type AIConnection = z.infer<typeof aiConnectionSchema>;
+
 export interface APIError {
   error: string;
   code?: string;
+  status?: number; // HTTP status, absent for network errors
+  request_id?: string; // X-Request-ID sent with the failed request
+  retry_after?: number; // milliseconds, parsed from the Retry-After header
   details?: Record<string, unknown>;
   timestamp: string;
 }
@@ -187,6 +243,148 @@ export interface MCPResponse<T = unknown> {
   timestamp: string;
 }
 
+// Verification Types
+export interface RunChecksOptions {
+  workspace?: string; // Directory to run in, default ClientOptions.workspaceDir
+  timeout?: number; // Per command, ms, default 300000
+  maxOutputBytes?: number; // Tail of stdout/stderr kept per command, default 8192
+  skipCommands?: boolean; // Only evaluate success_checks
+}
+
+export interface CommandResult {
+  command: string;
+  exit_code: number | null;
+  signal?: string;
+  timed_out: boolean;
+  duration_ms: number;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  passed: boolean;
+}
+
+export interface SuccessCheckResult {
+  check: string;
+  status: 'passed' | 'failed' | 'skipped';
+  detail: string;
+  duration_ms: number;
+  command?: CommandResult;
+}
+
+export interface VerificationReport {
+  task_id: string;
+  status: 'passed' | 'failed' | 'unverified'; // unverified: nothing could be run or checked
+  passed: boolean; // status === 'passed'
+  workspace: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  commands: CommandResult[];
+  success_checks: SuccessCheckResult[];
+  summary: string;
+}
+
+// Git Change Tracking Types
+export interface GitSnapshot {
+  root: string;
+  head: string | null; // null in a repository without commits
+  branch?: string;
+  taken_at: string;
+  dirty: Record<string, string | null>; // path -> blob hash of uncommitted files
+}
+
+export interface GitChanges {
+  repository: string;
+  branch?: string;
+  base_sha: string | null;
+  head_sha: string | null;
+  commits: { sha: string; subject: string }[];
+  files_created: string[];
+  files_modified: string[];
+  files_deleted: string[];
+  stats: {
+    files_changed: number;
+    insertions: number;
+    deletions: number;
+  };
+}
+
+// Time Tracking Types
+export interface TaskTimeSession {
+  task_id: string;
+  state: 'running' | 'paused';
+  started_at: string;
+  elapsed_minutes: number;
+  segments: number; // Number of running stretches between pauses
+  paused_by?: 'user' | 'disconnect';
+}
+
+// Session Journal Types
+export interface JournalEntry {
+  at: string;
+  progress: number;
+  status_update: string;
+  current_step?: string;
+  completed_steps?: string[];
+  challenges?: string[];
+  files?: string[]; // Created, modified or deleted
+  notes?: string;
+}
+
+// Where a task stands according to its journal
+export interface TaskWorkingState {
+  task_id: string;
+  progress: number;
+  status_update: string;
+  current_step?: string;
+  completed_steps: string[]; // Every step reported done, oldest first
+  challenges: string[]; // From the latest update
+  files_touched: string[];
+  notes?: string; // The latest notes
+  updates: number;
+  started_at: string; // First update
+  updated_at: string; // Latest update
+  recent_updates: Pick<JournalEntry, 'at' | 'progress' | 'status_update'>[];
+}
+
+// Everything a fresh session needs to pick a task back up
+export interface TaskHandoff {
+  task: TaskSummary;
+  working_state: TaskWorkingState | null; // From this machine's journal
+  handoff_notes?: string; // Left by whoever released the task
+  handoff_summary?: string; // Markdown written when the last session ended
+  open_discussions: Discussion[];
+  time: TaskTimeSession | null;
+}
+
+// Offline Queue Types
+export interface QueuedRequest {
+  id: string; // Idempotency key, reused on every replay
+  operation: 'update_progress' | 'complete_task';
+  task_id: string;
+  method: 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  data: Record<string, unknown>;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface SyncStatus {
+  enabled: boolean;
+  directory?: string;
+  pending: QueuedRequest[];
+  failed: QueuedRequest[];
+  last_sync_at?: string;
+  last_error?: string;
+}
+
+export interface FlushResult {
+  delivered: number;
+  failed: number;
+  remaining: number;
+}
+
 // MCP Protocol Types
 export interface MCPCapability {
   name: string;
@@ -230,14 +428,42 @@ export type BuildableEvent =
 
 // Client Options
 export interface ClientOptions {
-  retryAttempts?: number;
-  retryDelay?: number;
+  retryAttempts?: number; // retries after the first attempt
+  retryDelay?: number; // base backoff delay in ms, doubled on each retry
+  maxRetryDelay?: number; // upper bound for a single backoff in ms
   enableRealTimeUpdates?: boolean;
+  offlineQueue?: boolean; // Persist progress/completion calls while offline
+  queueDirectory?: string; // default ~/.bldbl/queue
+  queueFlushInterval?: number; // ms between replay attempts, default 30000
+  workspaceDir?: string; // Local checkout the agent works in, default cwd
+  trackGitChanges?: boolean; // Derive changed files from git, default true
+  trackTime?: boolean; // Track wall-clock time per task, default true
+  sessionDirectory?: string; // Where time sessions and journals persist, default ~/.bldbl/sessions
+  keepJournal?: boolean; // Journal progress per task and write handoff notes on disconnect, default true
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  logFile?: string | false; // JSON-lines log, none by default (the CLI uses ~/.bldbl/logs/bldbl-mcp.log)
+  logger?: Logger; // Share a logger (and its level) instead of creating one
+  cacheTtl?: number; // ms project context stays fresh, default 30000, 0 disables
+  leaseTtl?: number; // ms a started task stays claimed without a heartbeat, default 300000
+  heartbeatInterval?: number; // ms between lease renewals, default a third of leaseTtl
+  responseValidation?: 'strict' | 'lenient' | 'off'; // default 'strict'
+  backend?: 'api' | 'local'; // See createBackend, default 'api'
+  localDirectory?: string; // Task files for the local backend, default <workspace>/.buildable
+}
+
+export interface CacheStats {
+  entries: number;
+  ttl_ms: number;
+  hits: number; // served from cache without a request
+  misses: number; // downloaded in full
+  revalidated: number; // confirmed unchanged with a 304
+  invalidated: number; // dropped after a change
+  hit_rate: number; // (hits + revalidated) / lookups
 }
 
 // Utility Types
-export type TaskStatus = 'pending' | 'in_progress' | 'completed';
-export type ProjectStatus = 'planning' | 'in_progress' | 'completed' | 'paused';
-export type Difficulty = 'easy' | 'medium' | 'hard';
-export type Urgency = 'low' | 'medium' | 'high';
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+export type ProjectStatus = z.infer<typeof projectStatusSchema>;
+export type Difficulty = z.infer<typeof difficultySchema>;
+export type Urgency = z.infer<typeof urgencySchema>;
+export type DiscussionStatus = z.infer<typeof discussionStatusSchema>;
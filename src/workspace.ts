@@ -0,0 +1,189 @@
+import path from 'node:path';
+import { captureGitSnapshot, collectGitChanges } from './git';
+import { TaskJournal } from './journal';
+import { DEFAULT_SESSION_DIR, TaskTimeTracker } from './sessions';
+import type {
+  ClientOptions,
+  Discussion,
+  GitChanges,
+  GitSnapshot,
+  TaskHandoff,
+  TaskSummary,
+  TaskTimeSession,
+} from './types';
+
+type Logger = (
+  level: 'debug' | 'info' | 'warn' | 'error',
+  message: string,
+  ...args: unknown[]
+) => void;
+
+/**
+ * What a backend keeps on this machine about the tasks it works on: the
+ * git snapshot taken when a task starts, its time session and its
+ * progress journal. Shared by the API client and the local backend.
+ *
+ * All of it is best effort: a failing git call or session file is logged
+ * and never fails the task update it accompanies.
+ */
+export class TaskWorkspace {
+  private snapshots = new Map<string, GitSnapshot>();
+  private timeTracker: TaskTimeTracker | null = null;
+  private journal: TaskJournal | null = null;
+
+  constructor(
+    projectId: string,
+    private options: ClientOptions,
+    private log: Logger
+  ) {
+    const sessions = options.sessionDirectory || DEFAULT_SESSION_DIR;
+    if (options.trackTime) {
+      this.timeTracker = new TaskTimeTracker(
+        path.join(sessions, `${projectId}.json`)
+      );
+    }
+    if (options.keepJournal) {
+      this.journal = new TaskJournal(
+        path.join(sessions, `${projectId}.journal.json`),
+        path.join(sessions, 'handoffs', projectId)
+      );
+    }
+  }
+
+  requireTimeTracker(): TaskTimeTracker {
+    if (!this.timeTracker) {
+      throw new Error('Time tracking is disabled (trackTime: false)');
+    }
+    return this.timeTracker;
+  }
+
+  async withTimeTracker<T>(
+    fn: (tracker: TaskTimeTracker) => Promise<T>
+  ): Promise<T | null> {
+    if (!this.timeTracker) {
+      return null;
+    }
+
+    try {
+      return await fn(this.timeTracker);
+    } catch (error) {
+      this.log('warn', 'Time tracking failed:', error);
+      return null;
+    }
+  }
+
+  async withJournal<T>(
+    fn: (journal: TaskJournal) => Promise<T>
+  ): Promise<T | null> {
+    if (!this.journal) {
+      return null;
+    }
+
+    try {
+      return await fn(this.journal);
+    } catch (error) {
+      this.log('warn', 'Task journal failed:', error);
+      return null;
+    }
+  }
+
+  async getTaskTime(taskId: string): Promise<TaskTimeSession | null> {
+    return this.timeTracker ? this.timeTracker.get(taskId) : null;
+  }
+
+  /**
+   * Minutes tracked so far, resuming a session the last disconnect paused
+   */
+  async trackedMinutes(taskId: string): Promise<number | undefined> {
+    const session = await this.withTimeTracker((tracker) =>
+      tracker.touch(taskId)
+    );
+    return session?.elapsed_minutes;
+  }
+
+  /**
+   * What a fresh session needs to pick `task` back up
+   */
+  async handoff(
+    task: TaskSummary,
+    openDiscussions: Discussion[]
+  ): Promise<TaskHandoff> {
+    return {
+      task,
+      working_state: await this.withJournal((journal) => journal.get(task.id)),
+      handoff_notes: task.handoff_notes,
+      handoff_summary:
+        (await this.withJournal((journal) => journal.readHandoff(task.id))) ??
+        undefined,
+      open_discussions: openDiscussions,
+      time: await this.getTaskTime(task.id),
+    };
+  }
+
+  /**
+   * Leave a Markdown handoff for every task this session journaled.
+   * `tasks` supply titles and status.
+   */
+  async writeHandoffs(tasks: TaskSummary[]): Promise<void> {
+    const files = await this.withJournal((journal) =>
+      journal.writeHandoffs(tasks)
+    );
+    if (files && files.length > 0) {
+      this.log('info', `Wrote handoff notes: ${files.join(', ')}`);
+    }
+  }
+
+  async captureWorkspace(): Promise<GitSnapshot | null> {
+    if (!this.options.trackGitChanges) {
+      return null;
+    }
+
+    try {
+      return await captureGitSnapshot(
+        this.options.workspaceDir || process.cwd()
+      );
+    } catch (error) {
+      this.log('debug', 'Could not snapshot git workspace:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember where the workspace stood when a task started
+   */
+  keepSnapshot(taskId: string, snapshot: GitSnapshot | null): void {
+    if (snapshot) {
+      this.snapshots.set(taskId, snapshot);
+    }
+  }
+
+  dropSnapshot(taskId: string): void {
+    this.snapshots.delete(taskId);
+  }
+
+  /**
+   * Changes since the task was started. Without a snapshot (e.g. the task
+   * was started in an earlier session) uncommitted changes are reported.
+   */
+  async detectGitChanges(taskId: string): Promise<GitChanges | null> {
+    if (!this.options.trackGitChanges) {
+      return null;
+    }
+
+    try {
+      let snapshot = this.snapshots.get(taskId);
+      if (!snapshot) {
+        const current = await this.captureWorkspace();
+        if (!current) {
+          return null;
+        }
+        snapshot = { ...current, dirty: {} };
+      }
+
+      return await collectGitChanges(snapshot);
+    } catch (error) {
+      this.log('debug', 'Could not collect git changes:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,1103 @@
+// BuildableMCPClient against the bundled mock API. Run `npm test`, which
+// builds first: these tests import the compiled package from dist/.
+
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { execFile, execFileSync } = require('node:child_process');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const {
+  AuthenticationError,
+  BuildableMCPClient,
+  ConflictError,
+  ForbiddenError,
+  Logger,
+  MockBuildableServer,
+  NotFoundError,
+  ResponseValidationError,
+  TaskClaimedError,
+  ValidationError,
+} = require('..');
+
+const mock = new MockBuildableServer({
+  projects: [
+    {
+      id: 'demo',
+      tasks: [
+        { id: 'a', title: 'First', status: 'completed', estimated_hours: 1 },
+        {
+          id: 'b',
+          title: 'Second',
+          dependencies: ['a'],
+          estimated_hours: 3,
+          rollback_plan: 'Revert the commit',
+        },
+        { id: 'c', title: 'Third', dependencies: ['b'], skill_tags: ['ui'] },
+      ],
+    },
+    { id: 'other', tasks: [{ id: 'x', title: 'Elsewhere' }] },
+  ],
+});
+
+function createClient(overrides = {}, options = {}) {
+  return new BuildableMCPClient(
+    {
+      apiUrl: mock.url,
+      apiKey: mock.apiKey('demo'),
+      projectId: 'demo',
+      aiAssistantId: 'test-assistant',
+      ...overrides,
+    },
+    {
+      retryAttempts: 0,
+      retryDelay: 1,
+      logFile: false,
+      logLevel: 'error',
+      trackGitChanges: false,
+      trackTime: false,
+      keepJournal: false,
+      ...options,
+    }
+  );
+}
+
+async function waitFor(condition, timeout = 2000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+before(() => mock.start());
+after(() => mock.stop());
+beforeEach(() => mock.reset());
+
+describe('project context', () => {
+  test('returns the seeded project', async () => {
+    const context = await createClient().getProjectContext();
+
+    assert.equal(context.project.id, 'demo');
+    assert.equal(context.tasks.total, 3);
+    assert.equal(context.tasks.completed, 1);
+    assert.deepEqual(context.context.next_priorities, ['Second']);
+  });
+
+  test('is cached, then revalidated with the ETag', async () => {
+    const client = createClient({}, { cacheTtl: 60000 });
+
+    await client.getProjectContext();
+    await client.getProjectContext();
+    await client.getProjectContext(undefined, { forceRefresh: true });
+
+    const contextRequests = mock.requests.filter((r) =>
+      r.path.endsWith('/context')
+    );
+    assert.equal(contextRequests.length, 2);
+    assert.ok(contextRequests[1].headers['if-none-match']);
+    const stats = client.getCacheStats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.revalidated, 1);
+  });
+});
+
+describe('task lifecycle', () => {
+  test('next task is the first one whose dependencies are done', async () => {
+    const next = await createClient().getNextTask();
+
+    assert.equal(next.task.id, 'b');
+    assert.equal(next.context.dependencies_met, true);
+  });
+
+  test('start, progress and complete move the task along', async () => {
+    const client = createClient();
+
+    const started = await client.startTask('b');
+    assert.equal(started.task_id, 'b');
+    assert.equal(mock.context('demo').tasks.in_progress, 1);
+
+    const progress = await client.updateProgress('b', {
+      progress: 50,
+      status_update: 'Halfway',
+      current_step: 'Writing tests',
+    });
+    assert.equal(progress.success, true);
+
+    const completed = await client.completeTask('b', {
+      completion_notes: 'Done',
+      files_modified: ['src/b.ts'],
+      testing_completed: true,
+      documentation_updated: false,
+      time_spent: 42,
+    });
+    assert.equal(completed.task_summary.time_spent, 42);
+    assert.deepEqual(completed.next_task_suggestion, {
+      id: 'c',
+      title: 'Third',
+      reason: 'All of its dependencies are now completed',
+    });
+
+    const context = await client.getProjectContext();
+    assert.equal(context.tasks.completed, 2);
+  });
+
+  test('git changes since start are reported with progress and completion', async () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-git-'));
+    const git = (...args) =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: repo, encoding: 'utf8' }
+      ).trim();
+    const write = (file, content) => {
+      fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+      fs.writeFileSync(path.join(repo, file), content);
+    };
+    try {
+      git('init', '--quiet');
+      write('README.md', '# Demo\n');
+      write('src/keep.ts', 'export const keep = 1;\n');
+      write('src/old.ts', 'export const old = 1;\n');
+      git('add', '-A');
+      git('commit', '--quiet', '-m', 'Initial commit');
+      const base = git('rev-parse', 'HEAD');
+      // Work in progress before the task starts is not the task's doing
+      write('notes.md', 'Scratch\n');
+
+      const client = createClient(
+        {},
+        { workspaceDir: repo, trackGitChanges: true }
+      );
+      await client.startTask('b');
+
+      write('src/new.ts', 'export const added = 1;\n');
+      write('src/keep.ts', 'export const keep = 2;\nexport const more = 3;\n');
+      fs.rmSync(path.join(repo, 'src/old.ts'));
+      git('add', 'src');
+      git('commit', '--quiet', '-m', 'Add the new module');
+      const commit = git('rev-parse', 'HEAD');
+      write('src/later.ts', 'export const later = 1;\n');
+
+      const progress = await client.updateProgress('b', {
+        progress: 50,
+        status_update: 'Halfway',
+      });
+      assert.equal(progress.git_changes.base_sha, base);
+      assert.equal(progress.git_changes.head_sha, commit);
+      assert.deepEqual(progress.git_changes.commits, [
+        { sha: commit, subject: 'Add the new module' },
+      ]);
+      assert.deepEqual(progress.git_changes.files_created, [
+        'src/later.ts',
+        'src/new.ts',
+      ]);
+      assert.deepEqual(progress.git_changes.files_modified, ['src/keep.ts']);
+      assert.deepEqual(progress.git_changes.files_deleted, ['src/old.ts']);
+      assert.deepEqual(progress.git_changes.stats, {
+        files_changed: 4,
+        insertions: 3,
+        deletions: 2,
+      });
+
+      const sent = mock.requests.find((r) => r.path === '/tasks/b/progress');
+      assert.deepEqual(sent.body.files_created, ['src/later.ts', 'src/new.ts']);
+      assert.deepEqual(sent.body.files_modified, ['src/keep.ts']);
+      assert.deepEqual(sent.body.files_deleted, ['src/old.ts']);
+
+      // Scratch notes only count once the task changes them
+      write('notes.md', 'Scratch, now with the schema notes\n');
+      await client.completeTask('b', {
+        completion_notes: 'Done',
+        files_modified: ['./README.md', 'src/new.ts'],
+        testing_completed: true,
+        documentation_updated: false,
+      });
+      const completed = mock.requests.find(
+        (r) => r.path === '/tasks/b/complete'
+      );
+      assert.deepEqual(completed.body.commit_shas, [commit]);
+      assert.deepEqual(completed.body.files_created.sort(), [
+        'src/later.ts',
+        'src/new.ts',
+      ]);
+      assert.deepEqual(completed.body.files_modified.sort(), [
+        'README.md',
+        'notes.md',
+        'src/keep.ts',
+      ]);
+      assert.deepEqual(completed.body.files_deleted, ['src/old.ts']);
+    } finally {
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  test('conflicting transitions are ConflictErrors', async () => {
+    const client = createClient();
+
+    await assert.rejects(client.startTask('c'), (error) => {
+      assert.ok(error instanceof ConflictError);
+      assert.equal(error.status, 409);
+      assert.equal(error.code, 'DEPENDENCIES_NOT_MET');
+      assert.ok(error.requestId);
+      return true;
+    });
+    await assert.rejects(
+      client.completeTask('b', {
+        completion_notes: 'Too early',
+        files_modified: [],
+        testing_completed: false,
+        documentation_updated: false,
+      }),
+      ConflictError
+    );
+  });
+
+  test('invalid progress is a ValidationError', async () => {
+    const client = createClient();
+    await client.startTask('b');
+
+    await assert.rejects(
+      client.updateProgress('b', { progress: 150, status_update: 'Too far' }),
+      ValidationError
+    );
+  });
+
+  test('block, release and fail bodies are checked before sending', async () => {
+    const client = createClient();
+    await client.startTask('b');
+
+    await assert.rejects(client.blockTask('b', { reason: ' ' }), (error) => {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.details.field, 'reason');
+      return true;
+    });
+    await assert.rejects(client.releaseTask('b', {}), ValidationError);
+    await assert.rejects(
+      client.failTask('b', { reason: 'Broke', details: 42 }),
+      ValidationError
+    );
+    assert.ok(
+      !mock.requests.some((r) => /\/(block|release|fail)$/.test(r.path))
+    );
+  });
+
+  test('a blocked task waits on a discussion until it is started again', async () => {
+    const client = createClient();
+    await client.startTask('b');
+
+    const blocked = await client.blockTask('b', { reason: 'Which database?' });
+    assert.equal(blocked.task.status, 'blocked');
+    const discussion = await client.getDiscussion(blocked.discussion_id);
+    assert.equal(discussion.message, 'Which database?');
+    await assert.rejects(
+      client.updateProgress('b', { progress: 10, status_update: 'Waiting' }),
+      (error) => error instanceof ConflictError && error.code === 'TASK_BLOCKED'
+    );
+    await assert.rejects(
+      createClient({ aiAssistantId: 'someone-else' }).startTask('b'),
+      (error) => error instanceof ConflictError && error.code === 'TASK_BLOCKED'
+    );
+
+    await client.startTask('b');
+    const task = await client.getTask('b');
+    assert.equal(task.status, 'in_progress');
+    assert.equal(task.blocked_reason, undefined);
+  });
+
+  test('a blocked task is taken over once its holder is gone or it is answered', async () => {
+    const holder = createClient(
+      {},
+      { leaseTtl: 100, heartbeatInterval: 60000 }
+    );
+    const other = createClient({ aiAssistantId: 'someone-else' });
+    await holder.startTask('b');
+    await holder.blockTask('b', { reason: 'Which database?' });
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await other.startTask('b');
+    assert.equal((await other.getTask('b')).status, 'in_progress');
+    await other.disconnect();
+    await holder.disconnect();
+
+    mock.reset();
+    const waiting = createClient();
+    await waiting.startTask('b');
+    const { discussion_id } = await waiting.blockTask('b', {
+      reason: 'Which database?',
+    });
+    await assert.rejects(
+      other.startTask('b'),
+      (error) => error instanceof ConflictError && error.code === 'TASK_BLOCKED'
+    );
+    await waiting.resolveDiscussion(discussion_id, 'Use SQLite');
+    await other.startTask('b');
+    await other.disconnect();
+    await waiting.disconnect();
+  });
+
+  test('released and failed tasks go back to the pool', async () => {
+    const client = createClient();
+    await client.startTask('b');
+
+    const released = await client.releaseTask('b', {
+      handoff_notes: 'Models done, views left',
+    });
+    assert.equal(released.task.status, 'pending');
+    const connection = mock.requests
+      .filter((r) => r.path === '/internal/ai-connections')
+      .pop();
+    assert.equal(connection.body.status, 'connected');
+
+    const other = createClient({ aiAssistantId: 'someone-else' });
+    const started = await other.startTask('b');
+    assert.ok(
+      started.guidance.key_considerations.includes(
+        'Handoff notes: Models done, views left'
+      )
+    );
+
+    const failed = await other.failTask('b', { reason: 'The API changed' });
+    assert.equal(failed.task.status, 'failed');
+    assert.equal(failed.task.failure_reason, 'The API changed');
+    assert.equal(failed.rollback_plan, 'Revert the commit');
+    assert.equal((await other.getNextTask()).task, undefined);
+  });
+
+  test('a claimed task names its holder until the lease runs out', async () => {
+    const holder = createClient(
+      {},
+      { leaseTtl: 100, heartbeatInterval: 60000 }
+    );
+    const other = createClient({ aiAssistantId: 'someone-else' });
+    await holder.startTask('b');
+
+    await assert.rejects(other.startTask('b'), (error) => {
+      assert.ok(error instanceof TaskClaimedError);
+      assert.equal(error.claimedBy, 'test-assistant');
+      return true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await other.startTask('b');
+    await other.disconnect();
+    await holder.disconnect();
+  });
+
+  test('only the holder moves a claimed task', async () => {
+    const holder = createClient();
+    const other = createClient({ aiAssistantId: 'someone-else' });
+    await holder.startTask('b');
+
+    const done = {
+      completion_notes: 'Done',
+      files_modified: [],
+      testing_completed: true,
+      documentation_updated: false,
+    };
+    const claimed = (error) =>
+      error instanceof TaskClaimedError &&
+      error.code === 'TASK_CLAIMED' &&
+      error.claimedBy === 'test-assistant';
+    await assert.rejects(
+      other.updateProgress('b', { progress: 10, status_update: 'Mine now' }),
+      claimed
+    );
+    await assert.rejects(other.completeTask('b', done), claimed);
+    await assert.rejects(other.blockTask('b', { reason: 'Why?' }), claimed);
+    await assert.rejects(
+      other.releaseTask('b', { handoff_notes: 'Nope' }),
+      claimed
+    );
+    await assert.rejects(other.failTask('b', { reason: 'Nope' }), claimed);
+    assert.equal((await holder.getTask('b')).status, 'in_progress');
+
+    await holder.completeTask('b', done);
+    await holder.disconnect();
+  });
+
+  test('heartbeats keep the claim until disconnect releases it', async () => {
+    const holder = createClient({}, { leaseTtl: 150, heartbeatInterval: 30 });
+    const other = createClient({ aiAssistantId: 'someone-else' });
+    await holder.startTask('b');
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await assert.rejects(other.startTask('b'), TaskClaimedError);
+    assert.ok(mock.requests.some((r) => r.path === '/tasks/b/heartbeat'));
+
+    await holder.disconnect();
+    await other.startTask('b');
+    await other.disconnect();
+  });
+
+  test('the next session picks up from the journal and handoff', async () => {
+    const sessionDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    const options = { keepJournal: true, sessionDirectory };
+    const first = createClient({}, options);
+    try {
+      await first.startTask('b');
+      await first.updateProgress('b', {
+        progress: 30,
+        status_update: 'Draft ready',
+        completed_steps: ['Draft'],
+        current_step: 'Review',
+        files_modified: ['src/second.ts'],
+      });
+      await first.updateProgress('b', {
+        progress: 60,
+        status_update: 'Reviewed',
+        completed_steps: ['Review'],
+        challenges: ['Flaky test'],
+      });
+      await first.createDiscussion({
+        topic: 'Keep the old API?',
+        message: 'Both callers still use it',
+        context: { current_task_id: 'b' },
+      });
+      await first.disconnect();
+
+      const next = createClient({ aiAssistantId: 'next-session' }, options);
+      const handoff = await next.getTaskHandoff('b');
+      assert.equal(handoff.working_state.progress, 60);
+      assert.deepEqual(handoff.working_state.completed_steps, [
+        'Draft',
+        'Review',
+      ]);
+      assert.deepEqual(handoff.working_state.challenges, ['Flaky test']);
+      assert.deepEqual(handoff.working_state.files_touched, ['src/second.ts']);
+      assert.match(handoff.handoff_summary, /^# Handoff: Second \(b\)/);
+      assert.match(handoff.handoff_summary, /- Flaky test/);
+      assert.deepEqual(
+        handoff.open_discussions.map((d) => d.topic),
+        ['Keep the old API?']
+      );
+
+      await next.startTask('b');
+      await next.completeTask('b', {
+        completion_notes: 'Done',
+        files_modified: [],
+        testing_completed: true,
+        documentation_updated: false,
+      });
+      const done = await next.getTaskHandoff('b');
+      assert.equal(done.working_state, null);
+      assert.equal(done.handoff_summary, undefined);
+      await next.disconnect();
+    } finally {
+      fs.rmSync(sessionDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test('handoffs are written even when the API is gone', async () => {
+    const sessionDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    const api = new MockBuildableServer({
+      projects: [{ id: 'demo', tasks: [{ id: 'b', title: 'Second' }] }],
+    });
+    await api.start();
+    const client = createClient(
+      { apiUrl: api.url, apiKey: api.apiKey('demo') },
+      {
+        keepJournal: true,
+        sessionDirectory,
+        retryAttempts: 3,
+        retryDelay: 2000,
+      }
+    );
+    try {
+      await client.startTask('b');
+      await client.updateProgress('b', {
+        progress: 40,
+        status_update: 'Halfway through the models',
+      });
+      await api.stop();
+
+      const start = Date.now();
+      await client.disconnect();
+      assert.ok(Date.now() - start < 3000);
+      const handoff = fs.readFileSync(
+        path.join(sessionDirectory, 'handoffs', 'demo', 'b.md'),
+        'utf8'
+      );
+      assert.match(handoff, /Halfway through the models/);
+    } finally {
+      await api.stop();
+      fs.rmSync(sessionDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test('sessions sharing a directory only stop their own tasks', async () => {
+    const sessionDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    const options = { trackTime: true, keepJournal: true, sessionDirectory };
+    const holder = createClient({}, options);
+    const watcher = createClient({ aiAssistantId: 'watcher' }, options);
+    const handoff = path.join(sessionDirectory, 'handoffs', 'demo', 'b.md');
+    try {
+      await holder.startTask('b');
+      await holder.updateProgress('b', { progress: 20, status_update: 'Go' });
+      assert.equal((await watcher.getTaskTime('b')).state, 'running');
+      assert.equal(
+        (await watcher.getTaskHandoff('b')).working_state.progress,
+        20
+      );
+
+      await watcher.disconnect();
+      assert.equal((await holder.getTaskTime('b')).state, 'running');
+      assert.equal(fs.existsSync(handoff), false);
+
+      await holder.disconnect();
+      assert.equal(fs.existsSync(handoff), true);
+      const paused = await holder.getTaskTime('b');
+      assert.equal(paused.state, 'paused');
+      assert.equal(paused.paused_by, 'disconnect');
+      assert.deepEqual(
+        fs.readdirSync(sessionDirectory).filter((f) => f.endsWith('.tmp')),
+        []
+      );
+    } finally {
+      fs.rmSync(sessionDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test("processes sharing a session file keep each other's records", async () => {
+    const sessionDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    const file = path.join(sessionDirectory, 'demo.json');
+    // Each process adds its own records, one update at a time
+    const script = `
+      const { JsonRecordStore } = require(${JSON.stringify(
+        path.join(__dirname, '..', 'dist', 'json-store.js')
+      )});
+      const store = new JsonRecordStore(process.argv[1]);
+      (async () => {
+        for (let i = 0; i < 20; i++) {
+          await store.update((records) => {
+            const task_id = process.argv[2] + '-' + i;
+            records.set(task_id, { task_id });
+          });
+        }
+      })();
+    `;
+    try {
+      await Promise.all(
+        ['one', 'two', 'three'].map(
+          (name) =>
+            new Promise((resolve, reject) =>
+              execFile(process.execPath, ['-e', script, file, name], (error) =>
+                error ? reject(error) : resolve()
+              )
+            )
+        )
+      );
+
+      const records = JSON.parse(fs.readFileSync(file, 'utf8'));
+      assert.equal(records.length, 60);
+      assert.deepEqual(fs.readdirSync(sessionDirectory), ['demo.json']);
+    } finally {
+      fs.rmSync(sessionDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test('success checks only run explicit commands', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    try {
+      const client = createClient();
+      const { task } = await client.createTask({
+        title: 'Checked',
+        dependencies: ['a'],
+        success_checks: [
+          'Handles `touch pwned` safely',
+          'run: node -e "process.exit(0)"',
+        ],
+      });
+
+      const report = await client.runTaskChecks(task.id, {
+        workspace,
+        skipCommands: true,
+      });
+      assert.deepEqual(
+        report.success_checks.map((check) => check.status),
+        ['skipped', 'passed']
+      );
+      assert.equal(fs.existsSync(path.join(workspace, 'pwned')), false);
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+
+  test('checks that verify nothing do not let a task complete', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    try {
+      const client = createClient();
+      const { task } = await client.createTask({
+        title: 'Unchecked',
+        dependencies: ['a'],
+        success_checks: ['Looks good to a reviewer'],
+      });
+      await client.startTask(task.id);
+
+      const report = await client.runTaskChecks(task.id, { workspace });
+      assert.equal(report.status, 'unverified');
+      assert.equal(report.passed, false);
+
+      await assert.rejects(
+        client.completeTask(task.id, {
+          completion_notes: 'Done',
+          files_modified: [],
+          testing_completed: false,
+          documentation_updated: false,
+          verification: report,
+          require_passing_checks: true,
+        }),
+        /nothing could be verified/
+      );
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+
+  test('a retried POST is applied once', async () => {
+    const client = createClient({}, { retryAttempts: 2 });
+    mock.failNext(1, 503);
+
+    await client.startTask('b');
+
+    const starts = mock.requests.filter((r) => r.path === '/tasks/b/start');
+    assert.equal(starts.length, 2);
+    assert.equal(
+      starts[0].headers['idempotency-key'],
+      starts[1].headers['idempotency-key']
+    );
+    const connection = mock.requests.find(
+      (r) => r.path === '/internal/ai-connections'
+    );
+    assert.ok(connection.headers['idempotency-key']);
+  });
+
+  test('rate limiting waits as long as Retry-After says', async () => {
+    const client = createClient({}, { retryAttempts: 1, maxRetryDelay: 5000 });
+    mock.failNext(1, 429, 1);
+
+    const start = Date.now();
+    await client.getProjectContext();
+    assert.ok(Date.now() - start >= 900);
+
+    // maxRetryDelay caps what the server asks for
+    const capped = createClient({}, { retryAttempts: 1, maxRetryDelay: 50 });
+    mock.failNext(1, 429, 30);
+    const cappedStart = Date.now();
+    await capped.getProjectContext();
+    assert.ok(Date.now() - cappedStart < 1000);
+  });
+
+  test('other 4xx responses are not retried', async () => {
+    const client = createClient({}, { retryAttempts: 3 });
+
+    for (const status of [400, 404]) {
+      mock.reset();
+      mock.failNext(1, status);
+      await assert.rejects(client.getProjectContext(), (error) => {
+        assert.equal(error.status, status);
+        return true;
+      });
+      assert.equal(mock.requests.length, 1);
+    }
+  });
+});
+
+describe('errors', () => {
+  test('a bad API key is an AuthenticationError', async () => {
+    await assert.rejects(
+      createClient({ apiKey: 'bp_wrong' }).getProjectContext(),
+      AuthenticationError
+    );
+  });
+
+  test("another project's data is forbidden", async () => {
+    await assert.rejects(
+      createClient({ projectId: 'other' }).getProjectContext(),
+      ForbiddenError
+    );
+  });
+
+  test('unknown tasks are NotFoundErrors', async () => {
+    const client = createClient();
+    await assert.rejects(client.startTask('nope'), NotFoundError);
+    await assert.rejects(client.getTask('nope'), NotFoundError);
+  });
+
+  test('responses in the wrong shape fail, warn or pass by mode', async () => {
+    const drift = (body) => {
+      body.project.status = 'archived-ish';
+      delete body.tasks.summary[1].title;
+      return body;
+    };
+    const logger = new Logger({ level: 'warn' });
+    const logs = [];
+    logger.addSink((entry) => logs.push(entry));
+
+    mock.malformNext(drift);
+    await assert.rejects(
+      createClient({}, { logger }).getProjectContext(),
+      (error) => {
+        assert.ok(error instanceof ResponseValidationError);
+        assert.match(
+          error.message,
+          /^Unexpected response from GET \/projects\/demo\/context: project\.status: .* \(\+1 more\)$/
+        );
+        assert.deepEqual(
+          error.issues.map((issue) => issue.path),
+          ['project.status', 'tasks.summary[1].title']
+        );
+        return true;
+      }
+    );
+    // A malformed body is not worth asking for again
+    assert.equal(
+      mock.requests.filter((r) => r.path === '/projects/demo/context').length,
+      1
+    );
+
+    mock.malformNext(drift);
+    const lenient = await createClient(
+      {},
+      { logger, responseValidation: 'lenient' }
+    ).getProjectContext();
+    assert.equal(lenient.project.status, 'archived-ish');
+    assert.equal(lenient.tasks.summary[1].title, undefined);
+    const warning = logs.find(
+      (entry) => entry.msg === 'Response failed validation, using it anyway'
+    );
+    assert.equal(warning.level, 'warn');
+    assert.equal(warning.issues.length, 2);
+
+    logs.length = 0;
+    mock.malformNext(drift);
+    const unchecked = await createClient(
+      {},
+      { logger, responseValidation: 'off' }
+    ).getProjectContext();
+    assert.equal(unchecked.project.status, 'archived-ish');
+    assert.deepEqual(logs, []);
+  });
+});
+
+describe('task queries', () => {
+  test('listTasks filters and pages', async () => {
+    const client = createClient();
+
+    const pending = await client.listTasks({ status: ['pending'], limit: 1 });
+    assert.equal(pending.total, 2);
+    assert.deepEqual(
+      pending.tasks.map((t) => t.id),
+      ['b']
+    );
+    assert.equal(pending.next_offset, 1);
+
+    const ui = await client.listTasks({ skill_tags: ['UI'] });
+    assert.deepEqual(
+      ui.tasks.map((t) => t.id),
+      ['c']
+    );
+  });
+
+  test('getTaskGraph finds ready tasks and the critical path', async () => {
+    const graph = await createClient().getTaskGraph();
+
+    assert.deepEqual(graph.ready, ['b']);
+    assert.deepEqual(graph.critical_path, {
+      tasks: ['b', 'c'],
+      estimated_hours: 5,
+    });
+  });
+
+  test('getNextTask ranks the ready tasks that fit the caller', async () => {
+    const client = createClient();
+    const guide = await client.createTask({
+      title: 'Write the guide',
+      dependencies: ['a'],
+      skill_tags: ['docs'],
+      estimated_tokens: 4000,
+    });
+    await client.createTask({
+      title: 'Rewrite the docs site',
+      dependencies: ['a'],
+      skill_tags: ['docs'],
+      difficulty: 'hard',
+    });
+
+    const next = await client.getNextTask(undefined, {
+      skills: ['Docs'],
+      max_difficulty: 'medium',
+      token_budget: 5000,
+    });
+    assert.equal(next.task.id, guide.task.id);
+    assert.deepEqual(
+      next.candidates.map((candidate) => candidate.task.id),
+      [guide.task.id, 'b']
+    );
+    assert.deepEqual(next.candidates[0].reasons, [
+      'Every dependency is completed',
+      'Matches your skills: docs',
+      'Fits the token budget (~4000 tokens)',
+    ]);
+    assert.ok(next.candidates[1].reasons.includes('On the critical path'));
+
+    const none = await client.getNextTask(undefined, {
+      skills: ['docs'],
+      max_difficulty: 'easy',
+      exclude_task_ids: [guide.task.id],
+    });
+    assert.equal(none.task, undefined);
+    assert.equal(
+      none.message,
+      'None of the 3 ready tasks fit: 1 is excluded, 2 are harder than easy'
+    );
+  });
+});
+
+describe('task authoring', () => {
+  test('created tasks must depend on existing tasks without cycles', async () => {
+    const client = createClient();
+
+    await assert.rejects(
+      client.createTask({ title: 'Deploy', dependencies: ['missing'] }),
+      (error) =>
+        error instanceof ValidationError &&
+        error.code === 'INVALID_DEPENDENCIES'
+    );
+    await assert.rejects(client.createTask({ title: '  ' }), ValidationError);
+
+    const { task } = await client.createTask({
+      title: 'Deploy',
+      dependencies: ['c'],
+      estimated_hours: 2,
+    });
+    assert.equal(task.status, 'pending');
+    assert.equal(task.phase, 'Implementation');
+    await assert.rejects(
+      client.updateTask('c', { dependencies: ['b', task.id] }),
+      (error) =>
+        error instanceof ValidationError &&
+        error.code === 'INVALID_DEPENDENCIES'
+    );
+  });
+
+  test('a proposed task waits for approval', async () => {
+    const client = createClient();
+    const created = await client.createTask({
+      title: 'Deploy',
+      require_approval: true,
+    });
+    assert.equal(created.task.status, 'proposed');
+    await assert.rejects(
+      client.startTask(created.task.id),
+      (error) =>
+        error instanceof ConflictError && error.code === 'TASK_NOT_APPROVED'
+    );
+
+    // Neither a yes nor a no: the task stays proposed
+    mock.respondToDiscussion(
+      created.approval_discussion_id,
+      "Don't mind either way"
+    );
+    const summary = mock.context('demo').tasks.summary;
+    assert.equal(
+      summary.find((t) => t.id === created.task.id).status,
+      'proposed'
+    );
+
+    mock.respondToDiscussion(created.approval_discussion_id, 'Approved');
+    assert.equal((await client.getTask(created.task.id)).status, 'pending');
+    const discussion = await client.getDiscussion(
+      created.approval_discussion_id
+    );
+    assert.equal(discussion.status, 'resolved');
+  });
+
+  test('split subtasks run before their parent', async () => {
+    const client = createClient();
+    const { task, subtasks } = await client.splitTask('c', {
+      subtasks: [{ title: 'Layout' }, { title: 'Styles' }],
+      sequential: true,
+    });
+
+    assert.deepEqual(
+      subtasks.map((t) => [t.title, t.dependencies, t.skill_tags]),
+      [
+        ['Layout', ['b'], ['ui']],
+        ['Styles', ['b', subtasks[0].id], ['ui']],
+      ]
+    );
+    assert.deepEqual(task.dependencies, ['b', ...subtasks.map((t) => t.id)]);
+  });
+
+  test("a task someone else holds can't be split", async () => {
+    await createClient({ aiAssistantId: 'someone-else' }).startTask('b');
+
+    await assert.rejects(
+      createClient().splitTask('b', {
+        subtasks: [{ title: 'Models' }, { title: 'Views' }],
+      }),
+      TaskClaimedError
+    );
+    assert.equal((await createClient().getTask('b')).status, 'in_progress');
+  });
+
+  test('rejecting a split drops the subtasks', async () => {
+    const client = createClient();
+    const split = await client.splitTask('c', {
+      subtasks: [{ title: 'Layout' }, { title: 'Styles' }],
+      require_approval: true,
+    });
+
+    mock.respondToDiscussion(split.approval_discussion_id, 'No, keep it whole');
+    const { tasks } = await client.listTasks();
+    assert.deepEqual(
+      tasks.map((t) => t.id),
+      ['a', 'b', 'c']
+    );
+    assert.deepEqual((await client.getTask('c')).dependencies, ['b']);
+  });
+});
+
+describe('discussions', () => {
+  test('a question is answered and resolved', async () => {
+    const client = createClient();
+
+    const created = await client.createDiscussion({
+      topic: 'Which database?',
+      message: 'SQLite or Postgres?',
+      context: { current_task_id: 'b' },
+    });
+    mock.respondToDiscussion(created.discussion_id, 'SQLite');
+
+    const { discussion, timed_out } = await client.waitForDiscussionResponse(
+      created.discussion_id,
+      { timeout: 1000, pollInterval: 10 }
+    );
+    assert.equal(timed_out, false);
+    assert.equal(discussion.response, 'SQLite');
+
+    await client.resolveDiscussion(created.discussion_id, 'Using SQLite');
+    assert.deepEqual(await client.listDiscussions({ task_id: 'b' }), []);
+  });
+});
+
+describe('offline queue', () => {
+  test('progress is queued while the API is down and replayed later', async () => {
+    const queueDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-'));
+    const client = createClient(
+      {},
+      { offlineQueue: true, queueDirectory, queueFlushInterval: 60000 }
+    );
+    try {
+      await client.startTask('b');
+      mock.failNext(1, 503);
+
+      const queued = await client.updateProgress('b', {
+        progress: 30,
+        status_update: 'Offline',
+      });
+      assert.equal(queued.queued, true);
+
+      const result = await client.flushQueue();
+      assert.deepEqual(result, { delivered: 1, failed: 0, remaining: 0 });
+    } finally {
+      fs.rmSync(queueDirectory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('real-time events', () => {
+  test('events reach their handlers and resume after a dropped stream', async () => {
+    const logger = new Logger({ level: 'info' });
+    const logs = [];
+    logger.addSink((entry) => logs.push(entry));
+    const connected = () =>
+      logs.filter((entry) => entry.msg === 'Real-time event stream connected')
+        .length;
+    const client = createClient(
+      {},
+      { enableRealTimeUpdates: true, retryDelay: 20, logger }
+    );
+    const progress = [];
+    const types = [];
+    client.on('task_progress', (event) => progress.push(event));
+    client.on('*', (event) => types.push(event.type));
+    const answer = client.events('discussion_response').next();
+
+    await client.connect();
+    await waitFor(() => connected() === 1);
+    mock.emit('demo', {
+      type: 'task_progress',
+      task_id: 'b',
+      progress: 40,
+      update: 'Models done',
+      timestamp: new Date().toISOString(),
+    });
+    await waitFor(() => progress.length === 1);
+    assert.equal(progress[0].update, 'Models done');
+
+    // Published while the stream is down, delivered after the reconnect
+    mock.dropStreams();
+    mock.emit('demo', {
+      type: 'discussion_response',
+      discussion_id: 'd1',
+      response: 'Use SQLite',
+      timestamp: new Date().toISOString(),
+    });
+    const { value } = await answer;
+    assert.equal(value.response, 'Use SQLite');
+    assert.equal(connected(), 2);
+    const streams = mock.requests.filter(
+      (r) => r.path === '/projects/demo/events'
+    );
+    assert.equal(streams[0].headers['last-event-id'], undefined);
+    assert.ok(streams[1].headers['last-event-id']);
+    assert.deepEqual(
+      types.filter((type) => type !== 'connection_status'),
+      ['task_progress', 'discussion_response']
+    );
+
+    const ended = client.events().next();
+    await client.disconnect();
+    assert.equal((await ended).done, true);
+  });
+});
+
+describe('logging', () => {
+  test('secret key segments are redacted and no file by default', () => {
+    const logger = new Logger({ level: 'debug' });
+    const entries = [];
+    logger.addSink((entry) => entries.push(entry));
+    logger.info('Estimated', {
+      estimated_tokens: 1200,
+      token_budget: 5000,
+      access_token: 'abc123',
+      apiKey: 'bp_live_123',
+      client_secret: 'shh',
+      private_key: '-----BEGIN',
+      'x-api-key': 'key',
+      sessionToken: 'sess',
+      db_password: 'hunter2',
+      'set-cookie': 'sid=1',
+    });
+
+    assert.equal(logger.file, null);
+    assert.equal(entries[0].estimated_tokens, 1200);
+    assert.equal(entries[0].token_budget, 5000);
+    assert.equal(entries[0].access_token, '[REDACTED]');
+    assert.equal(entries[0].apiKey, '[REDACTED]');
+    for (const key of [
+      'client_secret',
+      'private_key',
+      'x-api-key',
+      'sessionToken',
+      'db_password',
+      'set-cookie',
+    ]) {
+      assert.equal(entries[0][key], '[REDACTED]', key);
+    }
+  });
+});
@@ -0,0 +1,77 @@
+// Dependency graph analysis and rendering. Run `npm test`, which builds
+// first: these tests import the compiled package from dist/.
+
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { buildTaskGraph, renderTaskGraph } = require('..');
+
+function task(id, dependencies = [], fields = {}) {
+  return {
+    id,
+    title: `Task ${id}`,
+    status: 'pending',
+    estimated_hours: 1,
+    dependencies,
+    ...fields,
+  };
+}
+
+describe('task graph', () => {
+  test('cycles, self-dependencies and missing dependencies block tasks', () => {
+    const graph = buildTaskGraph([
+      task('a', ['b']),
+      task('b', ['a']),
+      task('self', ['self']),
+      task('orphan', ['ghost']),
+      task('free'),
+      task('after', ['free']),
+    ]);
+
+    assert.deepEqual(
+      graph.cycles.map((cycle) => [...cycle].sort()),
+      [['a', 'b'], ['self']]
+    );
+    assert.deepEqual(graph.dangling, [
+      { task_id: 'orphan', dependency: 'ghost' },
+    ]);
+    assert.deepEqual(graph.ready, ['free']);
+
+    const blocked = new Map(
+      graph.blocked.map((entry) => [entry.task_id, entry])
+    );
+    assert.equal(blocked.get('a').in_cycle, true);
+    assert.deepEqual(blocked.get('a').waiting_on, ['b']);
+    assert.equal(blocked.get('self').in_cycle, true);
+    assert.deepEqual(blocked.get('orphan'), {
+      task_id: 'orphan',
+      waiting_on: [],
+      missing: ['ghost'],
+      in_cycle: false,
+    });
+    assert.equal(blocked.get('after').in_cycle, false);
+
+    // Tasks in a cycle have no order, so they stay off the critical path
+    assert.deepEqual(graph.critical_path, {
+      tasks: ['free', 'after'],
+      estimated_hours: 2,
+    });
+  });
+
+  test('titles and ids are escaped in Mermaid and DOT', () => {
+    const graph = buildTaskGraph([
+      task('plain', [], { title: 'Say "hi"' }),
+      task('odd "id"\\', ['plain', 'gone "too"'], { title: 'Two\nlines' }),
+    ]);
+
+    const mermaid = renderTaskGraph(graph, 'mermaid');
+    assert.match(mermaid, /^ {2}t0\["Say #quot;hi#quot; \(1h\)"\]:::pending$/m);
+    assert.match(mermaid, /^ {2}t0 ==> t1$/m);
+    assert.match(mermaid, /\["missing: gone #quot;too#quot;"\]:::missing/);
+    assert.doesNotMatch(mermaid, /odd/);
+
+    const dot = renderTaskGraph(graph, 'dot');
+    assert.match(dot, /^ {2}"odd \\"id\\"\\\\" \[label="Two\\nlines\\n1h/m);
+    assert.match(dot, /^ {2}"plain" -> "odd \\"id\\"\\\\" \[penwidth=3\];$/m);
+    assert.match(dot, /^ {2}"missing:gone \\"too\\"" -> "odd \\"id\\"\\\\"/m);
+  });
+});
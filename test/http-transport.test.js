@@ -0,0 +1,160 @@
+// `bldbl --transport http`: one server, a session per MCP client, with
+// `bldbl` pointed at the bundled mock API.
+
+const { after, before, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const { spawn } = require('node:child_process');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const {
+  StreamableHTTPClientTransport,
+} = require('@modelcontextprotocol/sdk/client/streamableHttp.js');
+const { DEMO_PROJECT, MockBuildableServer } = require('..');
+
+const mock = new MockBuildableServer({ projects: [DEMO_PROJECT] });
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-http-'));
+const token = 'http-test-token';
+let server;
+let url;
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'bldbl-tests', version: '1.0.0' },
+  },
+};
+
+function post(headers) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(initialize),
+  });
+}
+
+async function health() {
+  const response = await fetch(new URL('/health', url));
+  return response.json();
+}
+
+async function connect() {
+  const transport = new StreamableHTTPClientTransport(new URL(url), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  const client = new Client({ name: 'bldbl-tests', version: '1.0.0' });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+before(async () => {
+  await mock.start();
+
+  server = spawn(
+    process.execPath,
+    [
+      path.join(__dirname, '..', 'dist', 'cli.js'),
+      '--transport',
+      'http',
+      '--port',
+      '0',
+      '--auth-token',
+      token,
+    ],
+    {
+      cwd: home,
+      env: {
+        ...process.env,
+        HOME: home,
+        BUILDABLE_API_URL: mock.url,
+        BUILDABLE_API_KEY: mock.apiKey('demo'),
+        BUILDABLE_PROJECT_ID: 'demo',
+        BUILDABLE_AI_ASSISTANT_ID: 'http-tests',
+        BUILDABLE_LOG_FILE: 'off',
+        BUILDABLE_LOG_LEVEL: 'error',
+        BUILDABLE_WORKSPACE: home,
+        BUILDABLE_SESSION_DIR: path.join(home, 'sessions'),
+        BUILDABLE_REAL_TIME: 'false',
+      },
+      stdio: ['ignore', 'ignore', 'pipe'],
+    }
+  );
+
+  // The server prints its URL to stderr once it is listening
+  url = await new Promise((resolve, reject) => {
+    let output = '';
+    server.stderr.on('data', (chunk) => {
+      output += chunk;
+      const match = /listening on (\S+)/.exec(output);
+      if (match) {
+        resolve(match[1]);
+      }
+    });
+    server.once('exit', (code) =>
+      reject(new Error(`bldbl exited with ${code}: ${output}`))
+    );
+  });
+});
+
+after(async () => {
+  if (server && server.exitCode === null && server.signalCode === null) {
+    const exited = new Promise((resolve) => server.once('exit', resolve));
+    server.kill('SIGTERM');
+    await exited;
+  }
+  await mock.stop();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+describe('Streamable HTTP transport', () => {
+  test('clients without the bearer token are turned away', async () => {
+    const missing = await post({});
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get('www-authenticate'), 'Bearer');
+
+    const wrong = await post({ Authorization: 'Bearer not-the-token' });
+    assert.equal(wrong.status, 401);
+    assert.equal((await wrong.json()).error.message, 'Unauthorized');
+
+    // The health endpoint stays open for probes
+    assert.equal((await health()).status, 'ok');
+  });
+
+  test('each client gets its own session and Buildable client', async () => {
+    const first = await connect();
+    const second = await connect();
+    try {
+      assert.notEqual(first.transport.sessionId, second.transport.sessionId);
+      assert.equal((await health()).sessions, 2);
+
+      for (const { client } of [first, second]) {
+        const result = await client.callTool({
+          name: 'get_project_context',
+          arguments: {},
+        });
+        assert.equal(JSON.parse(result.content[0].text).project.id, 'demo');
+      }
+      const assistants = new Set(
+        mock.requests
+          .filter((r) => r.path === '/internal/ai-connections')
+          .map((r) => r.body.ai_assistant_id)
+      );
+      assert.equal(assistants.size, 2);
+    } finally {
+      for (const { client, transport } of [first, second]) {
+        await transport.terminateSession();
+        await client.close();
+      }
+    }
+    assert.equal((await health()).sessions, 0);
+  });
+});
@@ -0,0 +1,279 @@
+// The local backend, against task files in a temporary `.buildable/`.
+
+const { after, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const {
+  StdioClientTransport,
+} = require('@modelcontextprotocol/sdk/client/stdio.js');
+const { ConflictError, LocalBackend, TaskClaimedError } = require('..');
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-local-'));
+const workspace = path.join(root, 'notes-app');
+const store = path.join(workspace, '.buildable');
+
+function write(file, text) {
+  fs.mkdirSync(path.dirname(path.join(store, file)), { recursive: true });
+  fs.writeFileSync(path.join(store, file), text);
+}
+
+function read(file) {
+  return fs.readFileSync(path.join(store, file), 'utf8');
+}
+
+function createBackend(aiAssistantId = 'tests', options = {}) {
+  return new LocalBackend(
+    { apiUrl: '', apiKey: '', projectId: 'notes-app', aiAssistantId },
+    {
+      workspaceDir: workspace,
+      sessionDirectory: path.join(root, 'sessions'),
+      logFile: false,
+      logLevel: 'error',
+      trackGitChanges: false,
+      ...options,
+    }
+  );
+}
+
+beforeEach(() => {
+  fs.rmSync(workspace, { recursive: true, force: true });
+  write(
+    'project.md',
+    '---\ntitle: Notes App\ntechnology_stack: [TypeScript]\n---\n\nA notes app.\n'
+  );
+  write(
+    'tasks/01-schema.md',
+    '---\ntitle: Schema\nphase: Backend\nowner: sam # not a task field\n---\n\nCreate the tables.\n'
+  );
+  write(
+    'tasks/02-api.md',
+    '---\ntitle: API\nphase: Backend\ndependencies: [01-schema]\n---\n\nAdd the endpoints.\n'
+  );
+  write(
+    'tasks/03-ui.yaml',
+    'title: UI\ndependencies:\n  - 02-api\ndescription: Build the screens.\n'
+  );
+});
+
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe('local backend', () => {
+  test('reads the project and tasks from the files', async () => {
+    const context = await createBackend().getProjectContext();
+
+    assert.equal(context.project.title, 'Notes App');
+    assert.equal(context.plan.overview, 'A notes app.');
+    assert.deepEqual(
+      context.tasks.summary.map((t) => [t.id, t.description]),
+      [
+        ['01-schema', 'Create the tables.'],
+        ['02-api', 'Add the endpoints.'],
+        ['03-ui', 'Build the screens.'],
+      ]
+    );
+  });
+
+  test('start, progress and complete are written back', async () => {
+    const backend = createBackend();
+
+    await assert.rejects(
+      backend.startTask('02-api'),
+      (error) =>
+        error instanceof ConflictError && error.code === 'DEPENDENCIES_NOT_MET'
+    );
+
+    await backend.startTask('01-schema');
+    await backend.updateProgress('01-schema', {
+      progress: 40,
+      status_update: 'Tables drafted',
+    });
+    const completed = await backend.completeTask('01-schema', {
+      completion_notes: 'Done',
+      files_modified: ['schema.sql'],
+      testing_completed: true,
+      documentation_updated: false,
+    });
+    assert.equal(completed.next_task_suggestion.id, '02-api');
+
+    const file = read('tasks/01-schema.md');
+    assert.match(file, /^status: completed$/m);
+    assert.match(file, /^owner: sam$/m);
+    assert.match(file, /\n\nCreate the tables\.\n$/);
+    assert.doesNotMatch(file, /^difficulty:/m);
+
+    const context = await backend.getProjectContext();
+    assert.equal(context.tasks.completed, 1);
+    assert.match(context.context.recent_activity[0], /completed "Schema"/);
+  });
+
+  test('a discussion is answered by editing its file', async () => {
+    const backend = createBackend();
+    const { discussion_id } = await backend.createDiscussion({
+      topic: 'Storage',
+      message: 'SQLite or Postgres?',
+    });
+
+    const file = `discussions/${discussion_id}.md`;
+    fs.appendFileSync(path.join(store, file), '\n### sam\n\nSQLite.\n');
+
+    const { discussion, timed_out } = await backend.waitForDiscussionResponse(
+      discussion_id,
+      { timeout: 1000, pollInterval: 50 }
+    );
+    assert.equal(timed_out, false);
+    assert.equal(discussion.status, 'responded');
+    assert.equal(discussion.response, 'SQLite.');
+
+    const resolved = await backend.resolveDiscussion(discussion_id, 'SQLite');
+    assert.equal(resolved.status, 'resolved');
+    assert.match(read(file), /^status: resolved$/m);
+  });
+
+  test('blocking and failing are written back', async () => {
+    const backend = createBackend();
+    await backend.startTask('01-schema');
+
+    const blocked = await backend.blockTask('01-schema', {
+      reason: 'SQLite or Postgres?',
+    });
+    assert.match(read('tasks/01-schema.md'), /^status: blocked$/m);
+    assert.match(read(`discussions/${blocked.discussion_id}.md`), /Postgres/);
+
+    await backend.startTask('01-schema');
+    await backend.failTask('01-schema', { reason: 'Migrations broke' });
+    const file = read('tasks/01-schema.md');
+    assert.match(file, /^status: failed$/m);
+    assert.match(file, /^failure_reason: Migrations broke$/m);
+    assert.doesNotMatch(file, /^(blocked_reason|started_by):/m);
+  });
+
+  test('only the holder moves a task until its lease runs out', async () => {
+    const holder = createBackend('tests', {
+      leaseTtl: 100,
+      heartbeatInterval: 60000,
+    });
+    const other = createBackend('someone-else');
+    const claimedBy = (name) => (error) =>
+      error instanceof TaskClaimedError && error.claimedBy === name;
+
+    await holder.startTask('01-schema');
+    assert.match(read('tasks/01-schema.md'), /^lease_expires_at: /m);
+    await assert.rejects(other.startTask('01-schema'), claimedBy('tests'));
+    await assert.rejects(
+      other.updateProgress('01-schema', {
+        progress: 10,
+        status_update: 'Mine',
+      }),
+      claimedBy('tests')
+    );
+    await assert.rejects(
+      other.releaseTask('01-schema', { handoff_notes: 'Never mind' }),
+      claimedBy('tests')
+    );
+    await assert.rejects(
+      other.failTask('01-schema', { reason: 'Nope' }),
+      claimedBy('tests')
+    );
+    await assert.rejects(
+      other.splitTask('01-schema', {
+        subtasks: [{ title: 'Users' }, { title: 'Notes' }],
+      }),
+      claimedBy('tests')
+    );
+    assert.match(read('tasks/01-schema.md'), /^status: in_progress$/m);
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await other.startTask('01-schema');
+    await assert.rejects(
+      holder.updateProgress('01-schema', { progress: 50, status_update: 'Hi' }),
+      claimedBy('someone-else')
+    );
+
+    await other.disconnect();
+    const file = read('tasks/01-schema.md');
+    assert.match(file, /^started_by: someone-else$/m);
+    assert.doesNotMatch(file, /^lease_expires_at:/m);
+    await holder.startTask('01-schema');
+    await holder.disconnect();
+  });
+
+  test('a blocked task is taken over once its holder is gone', async () => {
+    const holder = createBackend('tests', {
+      leaseTtl: 100,
+      heartbeatInterval: 60000,
+    });
+    const other = createBackend('someone-else');
+    await holder.startTask('01-schema');
+    await holder.blockTask('01-schema', { reason: 'SQLite or Postgres?' });
+    await assert.rejects(
+      other.startTask('01-schema'),
+      (error) => error instanceof ConflictError && error.code === 'TASK_BLOCKED'
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await other.startTask('01-schema');
+    const file = read('tasks/01-schema.md');
+    assert.match(file, /^status: in_progress$/m);
+    assert.match(file, /^started_by: someone-else$/m);
+    await other.disconnect();
+    await holder.disconnect();
+  });
+
+  test('new tasks get numbered files and wait for approval', async () => {
+    const backend = createBackend();
+    const { task, approval_discussion_id } = await backend.createTask({
+      title: 'Search',
+      dependencies: ['02-api'],
+      require_approval: true,
+    });
+    assert.equal(task.id, '04-search');
+    assert.match(read('tasks/04-search.md'), /^status: proposed$/m);
+
+    fs.appendFileSync(
+      path.join(store, `discussions/${approval_discussion_id}.md`),
+      '\n### sam\n\nApprove\n'
+    );
+    assert.equal((await backend.getTask('04-search')).status, 'pending');
+    assert.match(read('tasks/04-search.md'), /^status: pending$/m);
+  });
+
+  test('the MCP tools run on it without an API key', async () => {
+    const client = new Client({ name: 'bldbl-tests', version: '1.0.0' });
+    const env = { ...process.env };
+    delete env.BUILDABLE_API_KEY;
+    delete env.BUILDABLE_PROJECT_ID;
+    await client.connect(
+      new StdioClientTransport({
+        command: process.execPath,
+        args: [path.join(__dirname, '..', 'dist', 'cli.js')],
+        cwd: workspace,
+        env: {
+          ...env,
+          HOME: root,
+          BUILDABLE_BACKEND: 'local',
+          BUILDABLE_LOG_FILE: 'off',
+          BUILDABLE_LOG_LEVEL: 'error',
+          BUILDABLE_WORKSPACE: workspace,
+          BUILDABLE_SESSION_DIR: path.join(root, 'sessions'),
+        },
+        stderr: 'ignore',
+      })
+    );
+
+    try {
+      const result = await client.callTool({
+        name: 'get_next_task',
+        arguments: {},
+      });
+      assert.equal(JSON.parse(result.content[0].text).task.id, '01-schema');
+    } finally {
+      // The server writes its sessions on the way out; wait until it exits
+      const exited = new Promise((resolve) => (client.onclose = resolve));
+      await client.close();
+      await exited;
+    }
+  });
+});
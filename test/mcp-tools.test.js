@@ -0,0 +1,395 @@
+// The MCP tools, called over stdio the way an AI assistant calls them,
+// with `bldbl` pointed at the bundled mock API.
+
+const { after, before, beforeEach, describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const {
+  StdioClientTransport,
+} = require('@modelcontextprotocol/sdk/client/stdio.js');
+const {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} = require('@modelcontextprotocol/sdk/types.js');
+const { DEMO_PROJECT, MockBuildableServer } = require('..');
+
+const mock = new MockBuildableServer({ projects: [DEMO_PROJECT] });
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'bldbl-home-'));
+let client;
+
+async function call(name, args = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const text = result.content[0].text;
+  return {
+    isError: result.isError === true,
+    text,
+    json: () => JSON.parse(text),
+  };
+}
+
+async function read(uri) {
+  const { contents } = await client.readResource({ uri });
+  assert.equal(contents[0].mimeType, 'application/json');
+  return JSON.parse(contents[0].text);
+}
+
+before(async () => {
+  await mock.start();
+
+  client = new Client({ name: 'bldbl-tests', version: '1.0.0' });
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: [path.join(__dirname, '..', 'dist', 'cli.js')],
+      cwd: home,
+      env: {
+        ...process.env,
+        HOME: home,
+        BUILDABLE_API_URL: mock.url,
+        BUILDABLE_API_KEY: mock.apiKey('demo'),
+        BUILDABLE_PROJECT_ID: 'demo',
+        BUILDABLE_AI_ASSISTANT_ID: 'mcp-tests',
+        BUILDABLE_LOG_FILE: 'off',
+        BUILDABLE_LOG_LEVEL: 'error',
+        BUILDABLE_WORKSPACE: home,
+        BUILDABLE_SESSION_DIR: path.join(home, 'sessions'),
+        BUILDABLE_REAL_TIME: 'false',
+      },
+      stderr: 'ignore',
+    })
+  );
+});
+
+after(async () => {
+  if (client) {
+    // The server writes its sessions on the way out; wait until it exits
+    const exited = new Promise((resolve) => (client.onclose = resolve));
+    await client.close();
+    await exited;
+  }
+  await mock.stop();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+beforeEach(() => mock.reset());
+
+describe('MCP tools', () => {
+  test('every tool is registered', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+
+    for (const name of [
+      'get_project_context',
+      'get_next_task',
+      'list_tasks',
+      'get_task',
+      'get_task_graph',
+      'create_task',
+      'update_task',
+      'split_task',
+      'start_task',
+      'update_progress',
+      'complete_task',
+      'block_task',
+      'release_task',
+      'fail_task',
+      'pause_task',
+      'resume_task',
+      'pick_up_task',
+      'create_discussion',
+      'health_check',
+    ]) {
+      assert.ok(names.includes(name), `${name} is missing`);
+    }
+  });
+
+  test('get_project_context returns the project', async () => {
+    const result = await call('get_project_context', { force_refresh: true });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.json().project.title, 'Todo App');
+  });
+
+  test('get_next_task picks a task for the given skills', async () => {
+    const next = await call('get_next_task', { skills: ['docs'], limit: 1 });
+
+    assert.equal(next.json().task.id, 'task-docs');
+    assert.equal(next.json().candidates.length, 1);
+  });
+
+  test('a task can be worked through start to finish', async () => {
+    const next = await call('get_next_task');
+    assert.equal(next.json().task.id, 'task-schema');
+
+    const started = await call('start_task', { task_id: 'task-schema' });
+    assert.equal(started.isError, false);
+
+    const progress = await call('update_progress', {
+      task_id: 'task-schema',
+      progress: 60,
+      status_update: 'Table created',
+      current_step: 'Add the helper',
+    });
+    assert.equal(progress.isError, false);
+
+    const paused = await call('pause_task', { task_id: 'task-schema' });
+    assert.equal(paused.json().state, 'paused');
+    const resumed = await call('resume_task', { task_id: 'task-schema' });
+    assert.equal(resumed.json().state, 'running');
+    await call('pause_task', { task_id: 'task-schema' });
+    const picked = await call('pick_up_task', { task_id: 'task-schema' });
+    assert.equal(picked.json().working_state.current_step, 'Add the helper');
+    assert.equal(picked.json().time.state, 'running');
+
+    const untouched = await call('pick_up_task', { task_id: 'task-docs' });
+    assert.equal(untouched.isError, false);
+    assert.equal(untouched.json().task.status, 'pending');
+    assert.equal(untouched.json().time, null);
+
+    const completed = await call('complete_task', {
+      task_id: 'task-schema',
+      completion_notes: 'Schema and helper added',
+      files_modified: ['src/db/schema.sql'],
+      time_spent: 20,
+    });
+    assert.equal(completed.json().next_task_suggestion.id, 'task-api');
+
+    const context = mock.context('demo');
+    assert.equal(
+      context.tasks.summary.find((t) => t.id === 'task-schema').status,
+      'completed'
+    );
+  });
+
+  test('create_task announces the changed resource list', async () => {
+    let changes = 0;
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      changes++;
+    });
+    await client.listResources();
+
+    const created = await call('create_task', {
+      title: 'Add a changelog',
+      dependencies: ['task-setup'],
+    });
+    assert.equal(created.isError, false);
+    assert.equal(changes, 1);
+  });
+
+  test('list_tasks and get_task_graph read the plan', async () => {
+    const list = await call('list_tasks', { phase: 'backend' });
+    assert.deepEqual(
+      list.json().tasks.map((t) => t.id),
+      ['task-schema', 'task-api']
+    );
+
+    const graph = await call('get_task_graph', { format: 'mermaid' });
+    assert.match(graph.text, /^flowchart LR/);
+  });
+
+  test('API errors come back as tool errors with a next step', async () => {
+    const blocked = await call('start_task', { task_id: 'task-deploy' });
+    assert.equal(blocked.isError, true);
+    assert.match(blocked.text, /waiting on task-ui, task-docs/);
+    assert.match(blocked.text, /Next step:/);
+
+    const missing = await call('get_task', { task_id: 'task-nope' });
+    assert.equal(missing.isError, true);
+    assert.match(missing.text, /list_tasks/);
+  });
+});
+
+describe('MCP resources', () => {
+  test('the project, its plan and every task are listed', async () => {
+    const { resources, nextCursor } = await client.listResources();
+
+    assert.deepEqual(
+      resources.map((r) => r.uri),
+      [
+        'buildable://project/context',
+        'buildable://project/plan',
+        ...DEMO_PROJECT.tasks.map((t) => `buildable://tasks/${t.id}`),
+      ]
+    );
+    assert.equal(nextCursor, undefined);
+    assert.equal(resources[0].description, 'Project context for Todo App');
+  });
+
+  test('listing picks up from a cursor and rejects a bad one', async () => {
+    const cursor = Buffer.from('2').toString('base64url');
+    const { resources } = await client.listResources({ cursor });
+    assert.equal(resources.length, DEMO_PROJECT.tasks.length);
+    assert.equal(resources[0].uri, 'buildable://tasks/task-setup');
+
+    await assert.rejects(
+      client.listResources({ cursor: 'not-a-cursor' }),
+      /Invalid cursor/
+    );
+  });
+
+  test('the context, plan and a task can be read', async () => {
+    const context = await read('buildable://project/context');
+    assert.equal(context.project.id, 'demo');
+    assert.equal(context.tasks.summary.length, DEMO_PROJECT.tasks.length);
+
+    const plan = await read('buildable://project/plan');
+    assert.equal(plan.overview, DEMO_PROJECT.plan.overview);
+
+    const task = await read('buildable://tasks/task-schema');
+    assert.equal(task.title, 'Create the database schema');
+    assert.deepEqual(task.acceptance_criteria, [
+      'Migrations create the todos table',
+    ]);
+
+    await assert.rejects(read('buildable://tasks/task-nope'), /task-nope/);
+  });
+
+  test('subscribers hear when a task changes status', async () => {
+    const updated = [];
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updated.push(notification.params.uri);
+      }
+    );
+    await client.subscribeResource({ uri: 'buildable://tasks/task-schema' });
+
+    try {
+      await call('start_task', { task_id: 'task-docs' });
+      await call('start_task', { task_id: 'task-schema' });
+      await call('release_task', {
+        task_id: 'task-schema',
+        handoff_notes: 'Nothing done yet',
+      });
+      await call('release_task', {
+        task_id: 'task-docs',
+        handoff_notes: 'Nothing done yet',
+      });
+
+      assert.deepEqual(updated, [
+        'buildable://tasks/task-schema',
+        'buildable://tasks/task-schema',
+      ]);
+
+      await client.unsubscribeResource({
+        uri: 'buildable://tasks/task-schema',
+      });
+      await call('start_task', { task_id: 'task-schema' });
+      await call('release_task', {
+        task_id: 'task-schema',
+        handoff_notes: 'Nothing done yet',
+      });
+      assert.equal(updated.length, 2);
+    } finally {
+      client.removeNotificationHandler('notifications/resources/updated');
+    }
+  });
+});
+
+describe('MCP prompts', () => {
+  async function prompt(name, args) {
+    const result = await client.getPrompt({ name, arguments: args });
+    assert.equal(result.messages.length, 1);
+    assert.equal(result.messages[0].role, 'user');
+    return {
+      description: result.description,
+      text: result.messages[0].content.text,
+    };
+  }
+
+  test('the workflow prompts are listed with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    const byName = new Map(prompts.map((p) => [p.name, p]));
+
+    assert.deepEqual([...byName.keys()].sort(), [
+      'resume_task',
+      'work_on_next_task',
+      'write_completion_report',
+    ]);
+    assert.equal(byName.get('work_on_next_task').arguments, undefined);
+    for (const name of ['resume_task', 'write_completion_report']) {
+      assert.deepEqual(
+        byName.get(name).arguments.map((a) => [a.name, a.required]),
+        [['task_id', true]]
+      );
+    }
+  });
+
+  test('work_on_next_task briefs the recommended task', async () => {
+    const { description, text } = await prompt('work_on_next_task');
+
+    assert.equal(description, 'Work on "Create the database schema"');
+    assert.match(text, /^# Work on the next task in "Todo App"/);
+    assert.match(text, /- \[ \] Migrations create the todos table/);
+    assert.match(text, /`start_task` with task_id "task-schema"/);
+  });
+
+  test('resume_task picks up where the last session left off', async () => {
+    const pending = await prompt('resume_task', { task_id: 'task-schema' });
+    assert.match(pending.text, /has not been started yet/);
+
+    await call('start_task', { task_id: 'task-schema' });
+    try {
+      await call('update_progress', {
+        task_id: 'task-schema',
+        progress: 40,
+        status_update: 'Table drafted',
+        current_step: 'Write the migration',
+      });
+
+      const { description, text } = await prompt('resume_task', {
+        task_id: 'task-schema',
+      });
+      assert.equal(description, 'Resume "Create the database schema"');
+      assert.match(text, /Started at /);
+      assert.match(text, /## Where the last session left off/);
+      assert.match(text, /Progress 40% as of .*: Table drafted/);
+      assert.match(text, /### In progress\nWrite the migration/);
+    } finally {
+      await call('release_task', {
+        task_id: 'task-schema',
+        handoff_notes: 'Table drafted',
+      });
+    }
+  });
+
+  test('write_completion_report lists what to verify', async () => {
+    const { text } = await prompt('write_completion_report', {
+      task_id: 'task-schema',
+    });
+
+    assert.match(
+      text,
+      /^# Write the completion report for "Create the database schema"/
+    );
+    assert.match(
+      text,
+      /## Acceptance criteria\n- \[ \] Migrations create the todos table/
+    );
+    assert.match(
+      text,
+      /## Success checks\n- \[ \] file src\/db\/schema.sql exists/
+    );
+    assert.match(text, /npm run build/);
+    assert.match(text, /follow the rollback plan instead: Delete src\/db/);
+  });
+
+  test('task ids complete and unknown tasks are errors', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'resume_task' },
+      argument: { name: 'task_id', value: 'task-s' },
+    });
+    assert.deepEqual(completion.values.sort(), ['task-schema', 'task-setup']);
+
+    await assert.rejects(
+      client.getPrompt({
+        name: 'write_completion_report',
+        arguments: { task_id: 'task-nope' },
+      }),
+      /task-nope/
+    );
+  });
+});